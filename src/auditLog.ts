@@ -0,0 +1,309 @@
+import * as fs from "fs";
+import * as path from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import { AuditSettings, SettingsManager } from "./settingsManager";
+import { escapeHtml, extractPaths } from "./utils";
+
+/**
+ * Who initiated a tool call
+ */
+export type AuditCaller = "chat" | "lm-tool" | "command";
+
+/**
+ * One audit log line
+ */
+export interface AuditRecord {
+  timestamp: string;
+  tool: string;
+  args: unknown;
+  caller: AuditCaller;
+  outcome: "success" | "failure";
+  error?: string;
+  durationMs: number;
+  affectedPaths: string[];
+}
+
+/**
+ * Criteria for reading audit records
+ */
+export interface AuditFilter {
+  tool?: string;
+  caller?: AuditCaller;
+  outcome?: AuditRecord["outcome"];
+  path?: string;
+  since?: Date;
+}
+
+const callerContext = new AsyncLocalStorage<AuditCaller>();
+
+/**
+ * Run a function with every tool call it makes attributed to a caller
+ */
+export function runWithAuditCaller<T>(caller: AuditCaller, fn: () => T): T {
+  return callerContext.run(caller, fn);
+}
+
+/**
+ * Get the caller of the tool call in progress; calls made outside
+ * runWithAuditCaller come from extension commands
+ */
+export function getAuditCaller(): AuditCaller {
+  return callerContext.getStore() ?? "command";
+}
+
+/**
+ * Audit Logger
+ * Appends one JSON line per MCP tool call to a rotating log, so it can be
+ * shown later which files AI agents and commands touched
+ */
+export class AuditLogger {
+  static readonly fileName = "audit.jsonl";
+  private readonly logDir: string;
+  private readonly settingsManager?: SettingsManager;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a new Audit Logger
+   * @param logDir - Directory holding the log and its rotated files
+   * @param settingsManager - Optional settings manager for audit settings
+   */
+  constructor(logDir: string, settingsManager?: SettingsManager) {
+    this.logDir = logDir;
+    this.settingsManager = settingsManager;
+  }
+
+  /**
+   * Check whether audit logging is enabled
+   */
+  isEnabled(): boolean {
+    return this.getAuditSettings().enableAuditLog;
+  }
+
+  /**
+   * Get the path of the active log file
+   */
+  getLogPath(): string {
+    return path.join(this.logDir, AuditLogger.fileName);
+  }
+
+  /**
+   * Record a tool call
+   * Writes are queued so records keep their order
+   */
+  log(
+    record: Omit<AuditRecord, "timestamp" | "affectedPaths"> & {
+      timestamp?: string;
+    }
+  ): Promise<void> {
+    if (!this.isEnabled()) {
+      return Promise.resolve();
+    }
+
+    const line =
+      JSON.stringify({
+        timestamp: record.timestamp ?? new Date().toISOString(),
+        tool: record.tool,
+        args: record.args,
+        caller: record.caller,
+        outcome: record.outcome,
+        error: record.error,
+        durationMs: record.durationMs,
+        affectedPaths: extractPaths(record.args),
+      }) + "\n";
+
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(() => this.append(line));
+    return this.writeQueue;
+  }
+
+  /**
+   * Read records from the active and rotated logs, oldest first
+   */
+  async read(filter: AuditFilter = {}): Promise<AuditRecord[]> {
+    await this.writeQueue.catch(() => undefined);
+
+    const { maxFiles } = this.getAuditSettings();
+    const records: AuditRecord[] = [];
+    for (let index = maxFiles - 1; index >= 0; index--) {
+      let text: string;
+      try {
+        text = await fs.promises.readFile(this.getRotatedPath(index), "utf8");
+      } catch {
+        continue;
+      }
+      for (const line of text.split("\n")) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          records.push(JSON.parse(line));
+        } catch {
+          // Skip lines truncated by a crash mid-write
+        }
+      }
+    }
+
+    return records.filter((record) => matchesFilter(record, filter));
+  }
+
+  private async append(line: string): Promise<void> {
+    await fs.promises.mkdir(this.logDir, { recursive: true });
+
+    const { maxFileSizeMB } = this.getAuditSettings();
+    const logPath = this.getLogPath();
+    try {
+      const { size } = await fs.promises.stat(logPath);
+      if (size + line.length > maxFileSizeMB * 1024 * 1024) {
+        await this.rotate();
+      }
+    } catch {
+      // No log yet
+    }
+
+    await fs.promises.appendFile(logPath, line);
+  }
+
+  /**
+   * Shift audit.jsonl to audit.1.jsonl and so on, dropping the oldest file
+   */
+  private async rotate(): Promise<void> {
+    const { maxFiles } = this.getAuditSettings();
+    await fs.promises.rm(this.getRotatedPath(maxFiles - 1), { force: true });
+    for (let index = maxFiles - 2; index >= 0; index--) {
+      try {
+        await fs.promises.rename(
+          this.getRotatedPath(index),
+          this.getRotatedPath(index + 1)
+        );
+      } catch {
+        // Gap in the rotation; nothing to shift
+      }
+    }
+  }
+
+  private getRotatedPath(index: number): string {
+    return index === 0
+      ? this.getLogPath()
+      : path.join(this.logDir, `audit.${index}.jsonl`);
+  }
+
+  private getAuditSettings(): AuditSettings {
+    if (this.settingsManager) {
+      return this.settingsManager.getSettings().audit;
+    }
+    return { enableAuditLog: true, maxFileSizeMB: 10, maxFiles: 5 };
+  }
+}
+
+/**
+ * Check whether a record matches every given filter criterion
+ */
+export function matchesFilter(
+  record: AuditRecord,
+  filter: AuditFilter
+): boolean {
+  if (filter.tool && record.tool !== filter.tool) {
+    return false;
+  }
+  if (filter.caller && record.caller !== filter.caller) {
+    return false;
+  }
+  if (filter.outcome && record.outcome !== filter.outcome) {
+    return false;
+  }
+  if (
+    filter.path &&
+    !record.affectedPaths.some((p) =>
+      p.toLowerCase().includes(filter.path!.toLowerCase())
+    )
+  ) {
+    return false;
+  }
+  if (filter.since && Date.parse(record.timestamp) < filter.since.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Get audit log HTML, newest records first
+ * @param records - Records to show
+ * @param filterDescription - Human-readable description of the filter
+ */
+export function getAuditLogHTML(
+  records: AuditRecord[],
+  filterDescription: string
+): string {
+  const failures = records.filter((r) => r.outcome === "failure").length;
+  const rows = [...records]
+    .reverse()
+    .map(
+      (r) => `
+        <tr>
+          <td>${escapeHtml(new Date(r.timestamp).toLocaleString())}</td>
+          <td>${escapeHtml(r.tool)}</td>
+          <td>${escapeHtml(r.caller)}</td>
+          <td class="${r.outcome}">${
+        r.outcome === "success"
+          ? "SUCCESS"
+          : `FAILURE${r.error ? `: ${escapeHtml(r.error)}` : ""}`
+      }</td>
+          <td>${r.affectedPaths.map((p) => escapeHtml(p)).join("<br>")}</td>
+          <td>${r.durationMs} ms</td>
+        </tr>`
+    )
+    .join("");
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body {
+          font-family: var(--vscode-font-family);
+          padding: 20px;
+          color: var(--vscode-foreground);
+        }
+        table {
+          width: 100%;
+          border-collapse: collapse;
+        }
+        th, td {
+          text-align: left;
+          vertical-align: top;
+          padding: 6px 8px;
+          border-bottom: 1px solid var(--vscode-panel-border);
+          word-break: break-all;
+        }
+        .success {
+          color: #4caf50;
+        }
+        .failure {
+          color: #f44336;
+        }
+      </style>
+    </head>
+    <body>
+      <h1>Audit Log</h1>
+      <p>${escapeHtml(filterDescription)}: ${
+    records.length
+  } record(s), ${failures} failed</p>
+      <table>
+        <thead>
+          <tr>
+            <th>Time</th>
+            <th>Tool</th>
+            <th>Caller</th>
+            <th>Outcome</th>
+            <th>Affected Paths</th>
+            <th>Duration</th>
+          </tr>
+        </thead>
+        <tbody>${rows || '<tr><td colspan="6">No matching records</td></tr>'}
+        </tbody>
+      </table>
+    </body>
+    </html>
+  `;
+}
@@ -0,0 +1,395 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { BatchOperation, BatchOperationResult } from "./mcpClient";
+import { escapeHtml } from "./utils";
+
+/**
+ * Batch request produced by the builder
+ */
+export interface BatchRequest {
+  operations: BatchOperation[];
+  atomic: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Quick pick item carrying a builder action
+ */
+interface BuilderActionItem extends vscode.QuickPickItem {
+  action?: "add" | "edit" | "toggle-atomic" | "preview" | "execute";
+}
+
+/**
+ * Quick pick item carrying a planned operation
+ */
+interface OperationPickItem extends vscode.QuickPickItem {
+  operation: BatchOperation;
+}
+
+/**
+ * Batch Operations Builder
+ * Interactively assembles a list of copy/move/delete operations and lets the
+ * user preview and adjust it before it is sent to the MCP server
+ */
+export class BatchOperationsBuilder {
+  private operations: BatchOperation[] = [];
+  private atomic = true;
+
+  /**
+   * Add operations for a set of sources
+   * @param type - The operation type to apply to every source
+   * @param sources - Absolute source paths
+   * @param destinationDir - Target directory for copy/move operations
+   */
+  addOperations(
+    type: BatchOperation["type"],
+    sources: string[],
+    destinationDir?: string
+  ): void {
+    if (type !== "delete" && !destinationDir) {
+      throw new Error(`Destination is required for ${type} operations`);
+    }
+
+    for (const source of sources) {
+      const operation: BatchOperation =
+        type === "delete"
+          ? { type, source }
+          : {
+              type,
+              source,
+              destination: path.join(destinationDir!, path.basename(source)),
+            };
+
+      // Skip exact duplicates so re-selecting a file does not queue it twice
+      const exists = this.operations.some(
+        (op) =>
+          op.type === operation.type &&
+          op.source === operation.source &&
+          op.destination === operation.destination
+      );
+      if (!exists) {
+        this.operations.push(operation);
+      }
+    }
+  }
+
+  /**
+   * Replace the planned operations with the given subset
+   */
+  setOperations(operations: BatchOperation[]): void {
+    this.operations = [...operations];
+  }
+
+  /**
+   * Get the planned operations
+   */
+  getOperations(): BatchOperation[] {
+    return [...this.operations];
+  }
+
+  /**
+   * Set whether the batch should roll back on failure
+   */
+  setAtomic(atomic: boolean): void {
+    this.atomic = atomic;
+  }
+
+  /**
+   * Check whether the batch rolls back on failure
+   */
+  isAtomic(): boolean {
+    return this.atomic;
+  }
+
+  /**
+   * Get the batch request for the current plan
+   */
+  toRequest(): BatchRequest {
+    return { operations: this.getOperations(), atomic: this.atomic };
+  }
+
+  /**
+   * Run the interactive builder
+   * @returns The batch request to execute (with dryRun set when the user
+   * asked for a preview), or undefined if cancelled
+   */
+  async build(): Promise<BatchRequest | undefined> {
+    if (this.operations.length === 0) {
+      await this.promptAddOperations();
+    }
+
+    while (true) {
+      const items: Array<BuilderActionItem | OperationPickItem> = [];
+
+      if (this.operations.length > 0) {
+        items.push({
+          label: `$(play) Execute ${this.operations.length} operation${
+            this.operations.length === 1 ? "" : "s"
+          }`,
+          action: "execute",
+        });
+        items.push({
+          label: "$(eye) Preview changes",
+          description: "Dry run: list files to create, overwrite or delete",
+          action: "preview",
+        });
+      }
+      items.push(
+        { label: "$(add) Add operations...", action: "add" },
+        {
+          label: `$(${
+            this.atomic ? "pass-filled" : "circle-large-outline"
+          }) Atomic: ${this.atomic ? "on" : "off"}`,
+          description: "Roll back every operation if any of them fails",
+          action: "toggle-atomic",
+        }
+      );
+      if (this.operations.length > 0) {
+        items.push(
+          { label: "$(edit) Edit operation list...", action: "edit" },
+          {
+            label: "Planned operations",
+            kind: vscode.QuickPickItemKind.Separator,
+          },
+          ...this.operations.map((op) => this.toPickItem(op))
+        );
+      }
+
+      const selection = await vscode.window.showQuickPick(items, {
+        title: "Batch Operations",
+        placeHolder: "Build the batch, then execute it",
+        ignoreFocusOut: true,
+      });
+
+      if (!selection) {
+        return undefined;
+      }
+
+      const action =
+        "action" in selection && selection.action ? selection.action : "edit";
+
+      switch (action) {
+        case "execute":
+          return this.toRequest();
+        case "preview":
+          return { ...this.toRequest(), dryRun: true };
+        case "add":
+          await this.promptAddOperations();
+          break;
+        case "toggle-atomic":
+          this.atomic = !this.atomic;
+          break;
+        case "edit":
+          await this.promptEditOperations();
+          break;
+      }
+    }
+  }
+
+  /**
+   * Ask for an operation type, sources and (for copy/move) a destination
+   */
+  private async promptAddOperations(): Promise<void> {
+    const typePick = await vscode.window.showQuickPick(
+      [
+        { label: "Copy", type: "copy" as const },
+        { label: "Move", type: "move" as const },
+        { label: "Delete", type: "delete" as const },
+      ],
+      { placeHolder: "Select operation type" }
+    );
+
+    if (!typePick) {
+      return;
+    }
+
+    const sources = await vscode.window.showOpenDialog({
+      canSelectFiles: true,
+      canSelectFolders: true,
+      canSelectMany: true,
+      openLabel: `Select files to ${typePick.label.toLowerCase()}`,
+    });
+
+    if (!sources || sources.length === 0) {
+      return;
+    }
+
+    let destinationDir: string | undefined;
+    if (typePick.type !== "delete") {
+      const destination = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        openLabel: "Select destination folder",
+      });
+
+      if (!destination || destination.length === 0) {
+        return;
+      }
+      destinationDir = destination[0].fsPath;
+    }
+
+    this.addOperations(
+      typePick.type,
+      sources.map((uri) => uri.fsPath),
+      destinationDir
+    );
+  }
+
+  /**
+   * Let the user uncheck operations to drop them from the batch
+   */
+  private async promptEditOperations(): Promise<void> {
+    const items = this.operations.map((op) => ({
+      ...this.toPickItem(op),
+      picked: true,
+    }));
+
+    const kept = await vscode.window.showQuickPick(items, {
+      title: "Batch Operations",
+      placeHolder: "Uncheck operations to remove them from the batch",
+      canPickMany: true,
+      ignoreFocusOut: true,
+    });
+
+    if (kept) {
+      this.setOperations(kept.map((item) => item.operation));
+    }
+  }
+
+  private toPickItem(operation: BatchOperation): OperationPickItem {
+    return {
+      label: `$(${getOperationIcon(operation.type)}) ${path.basename(
+        operation.source
+      )}`,
+      description: describeOperation(operation),
+      operation,
+    };
+  }
+}
+
+/**
+ * Describe a batch operation in a single line
+ */
+export function describeOperation(operation: BatchOperation): string {
+  if (operation.type === "delete") {
+    return `delete ${operation.source}`;
+  }
+  return `${operation.type} ${operation.source} → ${operation.destination}`;
+}
+
+function getOperationIcon(type: BatchOperation["type"]): string {
+  switch (type) {
+    case "copy":
+      return "copy";
+    case "move":
+      return "arrow-right";
+    case "delete":
+      return "trash";
+  }
+}
+
+/**
+ * Get batch results HTML
+ * @param request - The batch that was executed
+ * @param results - Per-operation results returned by the server
+ * @param error - Error message if the batch failed as a whole
+ */
+export function getBatchResultsHTML(
+  request: BatchRequest,
+  results: BatchOperationResult[] | undefined,
+  error?: string
+): string {
+  const succeeded = results ? results.filter((r) => r.success).length : 0;
+  const failed = results ? results.length - succeeded : 0;
+  const statusColor = error || failed > 0 ? "#f44336" : "#4caf50";
+
+  const rows = (
+    results ??
+    request.operations.map((operation) => ({
+      operation,
+      success: false,
+      error: undefined as string | undefined,
+    }))
+  )
+    .map(
+      (r) => `
+        <tr>
+          <td>${escapeHtml(r.operation.type)}</td>
+          <td>${escapeHtml(r.operation.source)}</td>
+          <td>${escapeHtml(r.operation.destination ?? "")}</td>
+          <td class="${r.success ? "ok" : "fail"}">${
+        results ? (r.success ? "✓" : "✗") : "–"
+      }</td>
+          <td class="error">${escapeHtml(r.error ?? "")}</td>
+        </tr>`
+    )
+    .join("");
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body {
+          font-family: var(--vscode-font-family);
+          padding: 20px;
+          color: var(--vscode-foreground);
+        }
+        h1 {
+          color: ${statusColor};
+        }
+        table {
+          width: 100%;
+          border-collapse: collapse;
+        }
+        th, td {
+          text-align: left;
+          padding: 6px 8px;
+          border-bottom: 1px solid var(--vscode-panel-border);
+          word-break: break-all;
+        }
+        .ok {
+          color: #4caf50;
+        }
+        .fail {
+          color: #f44336;
+        }
+        .error {
+          color: var(--vscode-errorForeground);
+        }
+        pre {
+          background: var(--vscode-textCodeBlock-background);
+          padding: 10px;
+          border-radius: 4px;
+          overflow-x: auto;
+        }
+      </style>
+    </head>
+    <body>
+      <h1>Batch ${error ? "FAILED" : "COMPLETED"}</h1>
+      <p>
+        ${request.operations.length} operation(s), atomic: ${
+    request.atomic ? "yes" : "no"
+  }${results ? ` — ${succeeded} succeeded, ${failed} failed` : ""}
+      </p>
+
+      ${error ? `<pre class="error">${escapeHtml(error)}</pre>` : ""}
+
+      <table>
+        <thead>
+          <tr>
+            <th>Type</th>
+            <th>Source</th>
+            <th>Destination</th>
+            <th>Status</th>
+            <th>Error</th>
+          </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+    </body>
+    </html>
+  `;
+}
@@ -0,0 +1,308 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { ErrorHandler } from "./errorHandling";
+import { extractPaths } from "./utils";
+
+/**
+ * Slash command definition: which tools it may use and how to steer the model
+ */
+interface SlashCommand {
+  tools: string[];
+  instruction: string;
+}
+
+/**
+ * Slash commands supported by @filesystem
+ */
+export const slashCommands: Record<string, SlashCommand> = {
+  search: {
+    tools: ["fs_search_files", "fs_build_index"],
+    instruction:
+      "Find files matching the user's request with fs_search_files. Pick name or content search as appropriate and list the matching files.",
+  },
+  usage: {
+    tools: ["fs_analyze_disk_usage"],
+    instruction:
+      "Analyze disk usage with fs_analyze_disk_usage (groupByType: true) and summarize the largest directories, files and file types.",
+  },
+  checksum: {
+    tools: ["fs_compute_checksum", "fs_verify_checksum"],
+    instruction:
+      "Compute or verify file checksums with fs_compute_checksum / fs_verify_checksum and report the digests.",
+  },
+  sync: {
+    tools: ["fs_sync_directory", "fs_copy_directory"],
+    instruction:
+      "Synchronize directories with fs_sync_directory (copying only newer or missing files) and report what was copied and skipped.",
+  },
+};
+
+/**
+ * Filesystem Chat Participant
+ * Lets the request's language model plan and execute fs_* tool calls,
+ * streaming progress and linking the files it touches
+ */
+export class FilesystemChatParticipant {
+  private readonly maxToolRounds = 10;
+  private readonly maxReferences = 50;
+  private readonly pendingInvocations = new Map<string, number>();
+  private errorHandler?: ErrorHandler;
+
+  /**
+   * Create a new Filesystem Chat Participant
+   * @param errorHandler - Optional error handler for error reporting
+   */
+  constructor(errorHandler?: ErrorHandler) {
+    this.errorHandler = errorHandler;
+  }
+
+  /**
+   * Handle a chat request
+   */
+  async handleRequest(
+    request: vscode.ChatRequest,
+    context: vscode.ChatContext,
+    stream: vscode.ChatResponseStream,
+    token: vscode.CancellationToken
+  ): Promise<vscode.ChatResult> {
+    const command = request.command
+      ? slashCommands[request.command]
+      : undefined;
+    const tools = this.getTools(command);
+
+    if (tools.length === 0) {
+      stream.markdown(
+        "The MCP filesystem tools are not available. Make sure the MCP ACS Filesystem Manager server is running."
+      );
+      return { metadata: { command: request.command } };
+    }
+
+    const messages = [
+      vscode.LanguageModelChatMessage.User(this.getInstructions(command)),
+      ...this.getHistoryMessages(context),
+      vscode.LanguageModelChatMessage.User(request.prompt),
+    ];
+
+    const referenced = new Set<string>();
+
+    try {
+      for (let round = 0; round < this.maxToolRounds; round++) {
+        const response = await request.model.sendRequest(
+          messages,
+          { tools },
+          token
+        );
+
+        const toolCalls: vscode.LanguageModelToolCallPart[] = [];
+        let text = "";
+        for await (const part of response.stream) {
+          if (part instanceof vscode.LanguageModelTextPart) {
+            stream.markdown(part.value);
+            text += part.value;
+          } else if (part instanceof vscode.LanguageModelToolCallPart) {
+            toolCalls.push(part);
+          }
+        }
+
+        if (toolCalls.length === 0 || token.isCancellationRequested) {
+          break;
+        }
+
+        messages.push(
+          vscode.LanguageModelChatMessage.Assistant([
+            ...(text ? [new vscode.LanguageModelTextPart(text)] : []),
+            ...toolCalls,
+          ])
+        );
+
+        for (const call of toolCalls) {
+          stream.progress(`Running ${call.name}...`);
+          const result = await this.invokeTool(request, call, token);
+          this.streamReferences(stream, result, referenced);
+          messages.push(
+            vscode.LanguageModelChatMessage.User([
+              new vscode.LanguageModelToolResultPart(
+                call.callId,
+                result.content
+              ),
+            ])
+          );
+        }
+      }
+    } catch (error: any) {
+      if (error instanceof vscode.LanguageModelError) {
+        stream.markdown(
+          `\n\nThe language model request failed: ${error.message}`
+        );
+      } else if (!token.isCancellationRequested) {
+        if (this.errorHandler) {
+          this.errorHandler.handleError({
+            name: "ChatParticipantError",
+            message: error.message || "Chat request failed",
+            category: this.errorHandler.categorizeError(error),
+            context: { command: request.command },
+            originalError: error,
+          });
+        }
+        stream.markdown(`\n\nRequest failed: ${error.message || error}`);
+      }
+    }
+
+    if (referenced.size > 0 && !token.isCancellationRequested) {
+      stream.markdown("\n\n**Files**\n");
+      for (const filePath of referenced) {
+        stream.markdown("\n- ");
+        stream.anchor(vscode.Uri.file(filePath), path.basename(filePath));
+      }
+    }
+
+    return { metadata: { command: request.command } };
+  }
+
+  /**
+   * Get the fs_* tools available to a request
+   */
+  private getTools(command?: SlashCommand): vscode.LanguageModelChatTool[] {
+    return vscode.lm.tools
+      .filter((tool) =>
+        command
+          ? command.tools.includes(tool.name)
+          : tool.name.startsWith("fs_")
+      )
+      .map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+      }));
+  }
+
+  /**
+   * Build the instructions sent ahead of the conversation
+   */
+  private getInstructions(command?: SlashCommand): string {
+    const roots = (vscode.workspace.workspaceFolders ?? [])
+      .map((folder) => folder.uri.fsPath)
+      .join(", ");
+
+    return [
+      "You are @filesystem, an assistant that performs file operations through the MCP filesystem tools.",
+      "Always use the tools to act on files instead of describing what the user could do.",
+      "Use absolute paths inside the workspace" +
+        (roots ? ` (${roots}).` : "."),
+      "After the tools finish, summarize the results concisely.",
+      command?.instruction ?? "",
+    ]
+      .filter((line) => line.length > 0)
+      .join("\n");
+  }
+
+  /**
+   * Convert previous turns with this participant into chat messages
+   */
+  private getHistoryMessages(
+    context: vscode.ChatContext
+  ): vscode.LanguageModelChatMessage[] {
+    const messages: vscode.LanguageModelChatMessage[] = [];
+
+    for (const turn of context.history) {
+      if (turn instanceof vscode.ChatRequestTurn) {
+        messages.push(vscode.LanguageModelChatMessage.User(turn.prompt));
+      } else if (turn instanceof vscode.ChatResponseTurn) {
+        const text = turn.response
+          .map((part) =>
+            part instanceof vscode.ChatResponseMarkdownPart
+              ? part.value.value
+              : ""
+          )
+          .join("");
+        if (text) {
+          messages.push(vscode.LanguageModelChatMessage.Assistant(text));
+        }
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Invoke a tool, turning failures into a result the model can read
+   */
+  private async invokeTool(
+    request: vscode.ChatRequest,
+    call: vscode.LanguageModelToolCallPart,
+    token: vscode.CancellationToken
+  ): Promise<vscode.LanguageModelToolResult> {
+    const key = getInvocationKey(call.name, call.input);
+    this.pendingInvocations.set(
+      key,
+      (this.pendingInvocations.get(key) ?? 0) + 1
+    );
+    try {
+      return await vscode.lm.invokeTool(
+        call.name,
+        {
+          input: call.input,
+          toolInvocationToken: request.toolInvocationToken,
+        },
+        token
+      );
+    } catch (error: any) {
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          `Error: ${error.message || String(error)}`
+        ),
+      ]);
+    } finally {
+      const remaining = (this.pendingInvocations.get(key) ?? 1) - 1;
+      if (remaining > 0) {
+        this.pendingInvocations.set(key, remaining);
+      } else {
+        this.pendingInvocations.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Check whether a tool invocation was started by this participant
+   * Used to attribute tool calls to @filesystem rather than other agents
+   */
+  isOwnInvocation(toolName: string, input: unknown): boolean {
+    return this.pendingInvocations.has(getInvocationKey(toolName, input));
+  }
+
+  /**
+   * Show the files a tool result mentions as chat references
+   */
+  private streamReferences(
+    stream: vscode.ChatResponseStream,
+    result: vscode.LanguageModelToolResult,
+    referenced: Set<string>
+  ): void {
+    for (const part of result.content) {
+      if (!(part instanceof vscode.LanguageModelTextPart)) {
+        continue;
+      }
+
+      let value: unknown;
+      try {
+        value = JSON.parse(part.value);
+      } catch {
+        continue;
+      }
+
+      for (const filePath of extractPaths(value)) {
+        if (referenced.size >= this.maxReferences) {
+          return;
+        }
+        if (!referenced.has(filePath)) {
+          referenced.add(filePath);
+          stream.reference(vscode.Uri.file(filePath));
+        }
+      }
+    }
+  }
+}
+
+function getInvocationKey(toolName: string, input: unknown): string {
+  return `${toolName}:${JSON.stringify(input)}`;
+}
@@ -0,0 +1,393 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { MCPFilesystemClient } from "./mcpClient";
+import { escapeHtml } from "./utils";
+
+/**
+ * Hash algorithms supported by fs_compute_checksum
+ */
+export type ChecksumAlgorithm = "md5" | "sha1" | "sha256" | "sha512";
+
+/**
+ * Single line of a checksum manifest
+ */
+export interface ManifestEntry {
+  path: string;
+  checksum: string;
+}
+
+/**
+ * Parsed checksum manifest
+ */
+export interface ParsedManifest {
+  entries: ManifestEntry[];
+  algorithm?: ChecksumAlgorithm;
+  invalidLines: number[];
+}
+
+/**
+ * Outcome of verifying one manifest entry
+ */
+export interface ManifestVerificationResult {
+  path: string;
+  status: "match" | "mismatch" | "missing" | "error";
+  expected: string;
+  actual?: string;
+  error?: string;
+}
+
+const hashLengths: Record<number, ChecksumAlgorithm> = {
+  32: "md5",
+  40: "sha1",
+  64: "sha256",
+  128: "sha512",
+};
+
+/**
+ * Guess the algorithm of a hex digest from its length
+ */
+export function getAlgorithmForChecksum(
+  checksum: string
+): ChecksumAlgorithm | undefined {
+  return hashLengths[checksum.trim().length];
+}
+
+/**
+ * Get the conventional manifest file name for an algorithm
+ * @param algorithm - Hash algorithm of the manifest
+ * @param baseName - Base name used for per-extension manifests (e.g. md5)
+ */
+export function getManifestFileName(
+  algorithm: ChecksumAlgorithm,
+  baseName: string
+): string {
+  return algorithm === "md5"
+    ? `${baseName}.md5`
+    : `${algorithm.toUpperCase()}SUMS`;
+}
+
+/**
+ * Format manifest entries in coreutils (sha256sum/md5sum) text format
+ */
+export function formatManifest(entries: ManifestEntry[]): string {
+  return (
+    entries
+      .map((entry) => `${entry.checksum.toLowerCase()}  ${entry.path}`)
+      .join("\n") + "\n"
+  );
+}
+
+/**
+ * Parse a manifest in coreutils (`hash  path`, `hash *path`) or BSD
+ * (`SHA256 (path) = hash`) format
+ * @param text - Manifest contents
+ * @param fileName - Manifest file name, used to detect the algorithm
+ */
+export function parseManifest(text: string, fileName = ""): ParsedManifest {
+  const entries: ManifestEntry[] = [];
+  const invalidLines: number[] = [];
+  let algorithm = detectAlgorithmFromName(fileName);
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#")) {
+      return;
+    }
+
+    const bsd = trimmed.match(
+      /^(MD5|SHA1|SHA256|SHA512)\s*\((.+)\)\s*=\s*([0-9a-fA-F]+)$/
+    );
+    if (bsd) {
+      algorithm = algorithm ?? (bsd[1].toLowerCase() as ChecksumAlgorithm);
+      entries.push({ path: bsd[2], checksum: bsd[3].toLowerCase() });
+      return;
+    }
+
+    const gnu = trimmed.match(/^([0-9a-fA-F]+)\s[ *](.+)$/);
+    if (gnu && hashLengths[gnu[1].length]) {
+      entries.push({ path: gnu[2], checksum: gnu[1].toLowerCase() });
+      return;
+    }
+
+    invalidLines.push(index + 1);
+  });
+
+  if (!algorithm && entries.length > 0) {
+    algorithm = getAlgorithmForChecksum(entries[0].checksum);
+  }
+
+  return { entries, algorithm, invalidLines };
+}
+
+/**
+ * Check whether a file name looks like a checksum manifest
+ */
+export function isManifestFileName(fileName: string): boolean {
+  return detectAlgorithmFromName(fileName) !== undefined;
+}
+
+/**
+ * Detect the algorithm from a manifest name such as SHA256SUMS or foo.md5
+ */
+function detectAlgorithmFromName(
+  fileName: string
+): ChecksumAlgorithm | undefined {
+  const name = path.basename(fileName).toLowerCase();
+  for (const algorithm of ["sha512", "sha256", "sha1", "md5"] as const) {
+    if (name.startsWith(`${algorithm}sums`) || name.endsWith(`.${algorithm}`)) {
+      return algorithm;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Expand files and folders into the list of files they contain
+ * @param paths - Selected files and folders
+ * @param exclude - Files to leave out (e.g. the manifest being written)
+ */
+export async function collectFiles(
+  paths: string[],
+  exclude: string[] = []
+): Promise<string[]> {
+  const excluded = new Set(exclude.map((p) => path.resolve(p)));
+  const files = new Set<string>();
+
+  const visit = async (target: string): Promise<void> => {
+    const resolved = path.resolve(target);
+    if (excluded.has(resolved)) {
+      return;
+    }
+
+    const stats = await fs.promises.lstat(resolved);
+    if (stats.isDirectory()) {
+      const children = await fs.promises.readdir(resolved);
+      for (const child of children.sort()) {
+        await visit(path.join(resolved, child));
+      }
+    } else if (stats.isFile()) {
+      files.add(resolved);
+    }
+  };
+
+  for (const target of paths) {
+    await visit(target);
+  }
+
+  return Array.from(files);
+}
+
+/**
+ * Find the deepest directory containing all given paths
+ */
+export function getCommonDirectory(paths: string[]): string {
+  if (paths.length === 0) {
+    return "";
+  }
+
+  let common = path.dirname(path.resolve(paths[0]));
+  for (const p of paths.slice(1)) {
+    const resolved = path.resolve(p);
+    while (
+      common !== path.dirname(common) &&
+      !resolved.startsWith(common + path.sep)
+    ) {
+      common = path.dirname(common);
+    }
+  }
+  return common;
+}
+
+/**
+ * Compute checksums for files through the MCP server
+ * @param client - MCP client used for fs_compute_checksum
+ * @param files - Absolute file paths
+ * @param baseDir - Directory manifest paths are relative to
+ * @param algorithm - Hash algorithm
+ * @param progress - Optional progress reporter
+ * @param token - Optional cancellation token
+ */
+export async function computeManifestEntries(
+  client: MCPFilesystemClient,
+  files: string[],
+  baseDir: string,
+  algorithm: ChecksumAlgorithm,
+  progress?: vscode.Progress<{ message?: string; increment?: number }>,
+  token?: vscode.CancellationToken
+): Promise<ManifestEntry[]> {
+  const entries: ManifestEntry[] = [];
+
+  for (const file of files) {
+    if (token?.isCancellationRequested) {
+      break;
+    }
+
+    const relative = path.relative(baseDir, file).split(path.sep).join("/");
+    progress?.report({ message: relative, increment: 100 / files.length });
+
+    const result = await client.computeChecksum({ path: file, algorithm });
+    entries.push({ path: relative, checksum: result.checksum });
+  }
+
+  return entries;
+}
+
+/**
+ * Verify every entry of a manifest through the MCP server
+ * @param client - MCP client used for fs_verify_checksum
+ * @param manifestPath - Absolute path of the manifest file
+ * @param manifest - Parsed manifest
+ * @param progress - Optional progress reporter
+ * @param token - Optional cancellation token
+ */
+export async function verifyManifest(
+  client: MCPFilesystemClient,
+  manifestPath: string,
+  manifest: ParsedManifest,
+  progress?: vscode.Progress<{ message?: string; increment?: number }>,
+  token?: vscode.CancellationToken
+): Promise<ManifestVerificationResult[]> {
+  const baseDir = path.dirname(manifestPath);
+  const results: ManifestVerificationResult[] = [];
+
+  for (const entry of manifest.entries) {
+    if (token?.isCancellationRequested) {
+      break;
+    }
+
+    progress?.report({
+      message: entry.path,
+      increment: 100 / manifest.entries.length,
+    });
+
+    const filePath = path.resolve(baseDir, entry.path);
+    if (!fs.existsSync(filePath)) {
+      results.push({
+        path: entry.path,
+        status: "missing",
+        expected: entry.checksum,
+      });
+      continue;
+    }
+
+    try {
+      const result = await client.verifyChecksum({
+        path: filePath,
+        checksum: entry.checksum,
+        algorithm: manifest.algorithm,
+      });
+      results.push({
+        path: entry.path,
+        status: result.match ? "match" : "mismatch",
+        expected: entry.checksum,
+        actual: result.actual,
+      });
+    } catch (error: any) {
+      results.push({
+        path: entry.path,
+        status: "error",
+        expected: entry.checksum,
+        error: error.message || String(error),
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Get manifest verification results HTML
+ * @param manifestPath - The verified manifest
+ * @param results - Per-entry verification results
+ * @param invalidLines - Manifest lines that could not be parsed
+ */
+export function getManifestVerificationHTML(
+  manifestPath: string,
+  results: ManifestVerificationResult[],
+  invalidLines: number[] = []
+): string {
+  const count = (status: ManifestVerificationResult["status"]) =>
+    results.filter((r) => r.status === status).length;
+  const matched = count("match");
+  const failed = results.length - matched;
+  const statusColor = failed > 0 ? "#f44336" : "#4caf50";
+
+  // Problems first so they are visible without scrolling
+  const order = { mismatch: 0, missing: 1, error: 2, match: 3 };
+  const rows = [...results]
+    .sort((a, b) => order[a.status] - order[b.status])
+    .map(
+      (r) => `
+        <tr>
+          <td>${escapeHtml(r.path)}</td>
+          <td class="${r.status}">${r.status.toUpperCase()}</td>
+          <td><code>${escapeHtml(r.expected)}</code></td>
+          <td><code>${escapeHtml(r.actual ?? r.error ?? "")}</code></td>
+        </tr>`
+    )
+    .join("");
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <style>
+        body {
+          font-family: var(--vscode-font-family);
+          padding: 20px;
+          color: var(--vscode-foreground);
+        }
+        h1 {
+          color: ${statusColor};
+        }
+        table {
+          width: 100%;
+          border-collapse: collapse;
+        }
+        th, td {
+          text-align: left;
+          padding: 6px 8px;
+          border-bottom: 1px solid var(--vscode-panel-border);
+          word-break: break-all;
+        }
+        .match {
+          color: #4caf50;
+        }
+        .mismatch, .missing, .error {
+          color: #f44336;
+        }
+      </style>
+    </head>
+    <body>
+      <h1>Manifest ${failed > 0 ? "FAILED" : "VERIFIED"}</h1>
+      <p>${escapeHtml(manifestPath)}</p>
+      <p>
+        ${matched} matched, ${count("mismatch")} mismatched, ${count(
+    "missing"
+  )} missing${count("error") ? `, ${count("error")} errors` : ""}
+      </p>
+      ${
+        invalidLines.length > 0
+          ? `<p class="error">Skipped unparseable lines: ${invalidLines.join(
+              ", "
+            )}</p>`
+          : ""
+      }
+
+      <table>
+        <thead>
+          <tr>
+            <th>File</th>
+            <th>Status</th>
+            <th>Expected</th>
+            <th>Actual</th>
+          </tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+    </body>
+    </html>
+  `;
+}
@@ -0,0 +1,594 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import * as crypto from "crypto";
+import { MCPFilesystemClient } from "./mcpClient";
+import { SettingsManager } from "./settingsManager";
+import { ErrorHandler } from "./errorHandling";
+import { escapeHtml, formatBytes } from "./utils";
+
+/**
+ * Report returned by fs_analyze_disk_usage
+ */
+export interface DiskUsageReport {
+  path: string;
+  totalSize: number;
+  fileCount: number;
+  largestFiles: Array<{ path: string; size: number }>;
+  largestDirectories: Array<{ path: string; size: number }>;
+  fileTypeBreakdown?: Record<string, number>;
+}
+
+/**
+ * Treemap tile for a direct child of the analyzed directory
+ */
+export interface DiskUsageTile {
+  name: string;
+  path?: string;
+  size: number;
+  isDirectory: boolean;
+}
+
+/**
+ * Rectangle in a treemap layout
+ */
+export interface TreemapRect {
+  index: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Message posted by the disk usage webview
+ */
+interface DiskUsageMessage {
+  command: "analyze" | "reveal" | "delete";
+  path: string;
+}
+
+/**
+ * Disk Usage Panel
+ * Renders fs_analyze_disk_usage reports as a treemap with drill-down,
+ * a per-extension breakdown and reveal/delete actions
+ */
+export class DiskUsagePanel implements vscode.Disposable {
+  private readonly panel: vscode.WebviewPanel;
+  private readonly disposables: vscode.Disposable[] = [];
+  private rootPath = "";
+  private currentPath = "";
+
+  /**
+   * Create a new Disk Usage Panel
+   * @param client - MCP client used for analysis and deletion
+   * @param depth - Maximum scan depth passed to the server
+   * @param settingsManager - Optional settings manager for confirmations
+   * @param errorHandler - Optional error handler for error reporting
+   */
+  constructor(
+    private readonly client: MCPFilesystemClient,
+    private readonly depth: number | undefined,
+    private readonly settingsManager?: SettingsManager,
+    private readonly errorHandler?: ErrorHandler
+  ) {
+    this.panel = vscode.window.createWebviewPanel(
+      "diskUsage",
+      "Disk Usage",
+      vscode.ViewColumn.One,
+      { enableScripts: true, retainContextWhenHidden: true }
+    );
+
+    this.disposables.push(
+      this.panel.webview.onDidReceiveMessage((message: DiskUsageMessage) =>
+        this.onMessage(message)
+      ),
+      this.panel.onDidDispose(() => this.dispose())
+    );
+  }
+
+  /**
+   * Analyze a directory and show the report
+   * @param dirPath - Directory to analyze; the first call sets the root
+   */
+  async analyze(dirPath: string): Promise<void> {
+    if (!this.rootPath) {
+      this.rootPath = dirPath;
+    }
+    this.currentPath = dirPath;
+    this.panel.title = `Disk Usage: ${path.basename(dirPath) || dirPath}`;
+
+    try {
+      const report: DiskUsageReport = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Analyzing disk usage of ${dirPath}...`,
+        },
+        () =>
+          this.client.analyzeDiskUsage({
+            path: dirPath,
+            depth: this.depth,
+            groupByType: true,
+          })
+      );
+
+      this.panel.webview.html = getDiskUsageHTML(
+        report,
+        this.rootPath,
+        getNonce()
+      );
+    } catch (error: any) {
+      if (this.errorHandler) {
+        this.errorHandler.handleError({
+          name: "DiskUsageError",
+          message: error.message || "Failed to analyze disk usage",
+          category: this.errorHandler.categorizeError(error),
+          context: { path: dirPath, depth: this.depth },
+          originalError: error,
+        });
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to analyze disk usage: ${error.message || error}`
+        );
+      }
+    }
+  }
+
+  private async onMessage(message: DiskUsageMessage): Promise<void> {
+    switch (message.command) {
+      case "analyze":
+        await this.analyze(message.path);
+        break;
+      case "reveal":
+        await vscode.commands.executeCommand(
+          "revealInExplorer",
+          vscode.Uri.file(message.path)
+        );
+        break;
+      case "delete":
+        await this.deletePath(message.path);
+        break;
+    }
+  }
+
+  /**
+   * Delete a file or directory through the MCP server, then re-analyze
+   */
+  private async deletePath(target: string): Promise<void> {
+    if (
+      this.settingsManager?.getSettings().ui.confirmDangerousOperations ??
+      true
+    ) {
+      const choice = await vscode.window.showWarningMessage(
+        `Delete ${target}?`,
+        { modal: true },
+        "Delete"
+      );
+      if (choice !== "Delete") {
+        return;
+      }
+    }
+
+    try {
+      await this.client.batchOperations({
+        operations: [{ type: "delete", source: target }],
+        atomic: true,
+      });
+    } catch (error: any) {
+      if (this.errorHandler) {
+        this.errorHandler.handleError({
+          name: "DiskUsageDeleteError",
+          message: error.message || `Failed to delete ${target}`,
+          category: this.errorHandler.categorizeError(error),
+          context: { path: target },
+          originalError: error,
+        });
+      } else {
+        vscode.window.showErrorMessage(
+          `Failed to delete ${target}: ${error.message || error}`
+        );
+      }
+      return;
+    }
+
+    await this.analyze(this.currentPath);
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    while (this.disposables.length > 0) {
+      this.disposables.pop()?.dispose();
+    }
+    this.panel.dispose();
+  }
+}
+
+/**
+ * Group the report's largest entries into tiles for the direct children of
+ * the analyzed directory; space not covered by them becomes an "Other" tile
+ */
+export function getDiskUsageTiles(report: DiskUsageReport): DiskUsageTile[] {
+  const children = new Map<
+    string,
+    { listedSize: number; fileSum: number; isDirectory: boolean }
+  >();
+
+  const add = (entryPath: string, size: number, isDirectory: boolean) => {
+    const relative = path.relative(report.path, entryPath);
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+      return;
+    }
+
+    const segments = relative.split(path.sep);
+    const child = children.get(segments[0]) ?? {
+      listedSize: 0,
+      fileSum: 0,
+      isDirectory: false,
+    };
+    if (segments.length === 1) {
+      child.listedSize = Math.max(child.listedSize, size);
+      child.isDirectory = child.isDirectory || isDirectory;
+    } else {
+      child.isDirectory = true;
+      if (!isDirectory) {
+        child.fileSum += size;
+      }
+    }
+    children.set(segments[0], child);
+  };
+
+  for (const dir of report.largestDirectories ?? []) {
+    add(dir.path, dir.size, true);
+  }
+  for (const file of report.largestFiles ?? []) {
+    add(file.path, file.size, false);
+  }
+
+  const tiles: DiskUsageTile[] = Array.from(children.entries()).map(
+    ([name, child]) => ({
+      name,
+      path: path.join(report.path, name),
+      size: Math.max(child.listedSize, child.fileSum),
+      isDirectory: child.isDirectory,
+    })
+  );
+
+  const covered = tiles.reduce((sum, tile) => sum + tile.size, 0);
+  if (report.totalSize > covered) {
+    tiles.push({
+      name: "Other",
+      size: report.totalSize - covered,
+      isDirectory: false,
+    });
+  }
+
+  return tiles.filter((tile) => tile.size > 0).sort((a, b) => b.size - a.size);
+}
+
+/**
+ * Lay out sizes as a squarified treemap
+ * @param sizes - Item sizes; items with no size are left out
+ * @param width - Width of the area to fill
+ * @param height - Height of the area to fill
+ */
+export function layoutTreemap(
+  sizes: number[],
+  width: number,
+  height: number
+): TreemapRect[] {
+  const total = sizes.reduce((sum, size) => sum + Math.max(size, 0), 0);
+  if (total <= 0 || width <= 0 || height <= 0) {
+    return [];
+  }
+
+  const scale = (width * height) / total;
+  const items = sizes
+    .map((size, index) => ({ index, area: size * scale }))
+    .filter((item) => item.area > 0)
+    .sort((a, b) => b.area - a.area);
+
+  const rects: TreemapRect[] = [];
+  const free = { x: 0, y: 0, width, height };
+
+  // Worst aspect ratio of a row laid along a side of the given length
+  const worst = (row: typeof items, side: number): number => {
+    const sum = row.reduce((s, item) => s + item.area, 0);
+    const max = row[0].area;
+    const min = row[row.length - 1].area;
+    return Math.max(
+      (side * side * max) / (sum * sum),
+      (sum * sum) / (side * side * min)
+    );
+  };
+
+  const placeRow = (row: typeof items) => {
+    const sum = row.reduce((s, item) => s + item.area, 0);
+    if (free.width >= free.height) {
+      // Column on the left
+      const columnWidth = sum / free.height;
+      let y = free.y;
+      for (const item of row) {
+        const itemHeight = item.area / columnWidth;
+        rects.push({
+          index: item.index,
+          x: free.x,
+          y,
+          width: columnWidth,
+          height: itemHeight,
+        });
+        y += itemHeight;
+      }
+      free.x += columnWidth;
+      free.width -= columnWidth;
+    } else {
+      // Row along the top
+      const rowHeight = sum / free.width;
+      let x = free.x;
+      for (const item of row) {
+        const itemWidth = item.area / rowHeight;
+        rects.push({
+          index: item.index,
+          x,
+          y: free.y,
+          width: itemWidth,
+          height: rowHeight,
+        });
+        x += itemWidth;
+      }
+      free.y += rowHeight;
+      free.height -= rowHeight;
+    }
+  };
+
+  let row: typeof items = [];
+  for (const item of items) {
+    const side = Math.min(free.width, free.height);
+    if (row.length === 0 || worst([...row, item], side) <= worst(row, side)) {
+      row.push(item);
+    } else {
+      placeRow(row);
+      row = [item];
+    }
+  }
+  if (row.length > 0) {
+    placeRow(row);
+  }
+
+  return rects;
+}
+
+/**
+ * Get disk usage report HTML
+ * @param report - Report returned by the server
+ * @param rootPath - Directory the analysis started from, for the breadcrumb
+ * @param nonce - Nonce allowing the inline script to run
+ */
+export function getDiskUsageHTML(
+  report: DiskUsageReport,
+  rootPath: string,
+  nonce: string
+): string {
+  const tiles = getDiskUsageTiles(report);
+  const rects = layoutTreemap(
+    tiles.map((tile) => tile.size),
+    100,
+    100
+  );
+
+  const tileHtml = rects
+    .map((rect) => {
+      const tile = tiles[rect.index];
+      const share = report.totalSize
+        ? ((tile.size / report.totalSize) * 100).toFixed(1)
+        : "0";
+      const hue = (rect.index * 47) % 360;
+      const action = tile.path
+        ? tile.isDirectory
+          ? `data-analyze="${escapeHtml(tile.path)}"`
+          : `data-reveal="${escapeHtml(tile.path)}"`
+        : "";
+      return `
+        <div class="tile${tile.isDirectory ? " dir" : ""}" ${action}
+          title="${escapeHtml(tile.name)} — ${formatBytes(
+        tile.size
+      )} (${share}%)"
+          style="left:${rect.x}%;top:${rect.y}%;width:${rect.width}%;height:${
+        rect.height
+      }%;background:hsl(${hue},45%,40%)">
+          <span>${escapeHtml(tile.name)}${
+        tile.isDirectory ? "/" : ""
+      }<br>${formatBytes(tile.size)}</span>
+        </div>`;
+    })
+    .join("");
+
+  const breakdown = Object.entries(report.fileTypeBreakdown ?? {})
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 15);
+  const largestType = breakdown.length > 0 ? breakdown[0][1] : 0;
+  const breakdownHtml = breakdown
+    .map(
+      ([ext, size]) => `
+        <div class="bar-row">
+          <span class="bar-label">${escapeHtml(ext)}</span>
+          <span class="bar" style="width:${
+            largestType ? (size / largestType) * 60 : 0
+          }%"></span>
+          <span>${formatBytes(size)}</span>
+        </div>`
+    )
+    .join("");
+
+  const fileRows = (report.largestFiles ?? [])
+    .map(
+      (file) => `
+        <tr>
+          <td>${escapeHtml(path.relative(report.path, file.path))}</td>
+          <td>${formatBytes(file.size)}</td>
+          <td>
+            <button data-reveal="${escapeHtml(file.path)}">Reveal</button>
+            <button data-delete="${escapeHtml(file.path)}">Delete</button>
+          </td>
+        </tr>`
+    )
+    .join("");
+
+  const dirRows = (report.largestDirectories ?? [])
+    .map(
+      (dir) => `
+        <tr>
+          <td><a href="#" data-analyze="${escapeHtml(dir.path)}">${escapeHtml(
+        path.relative(report.path, dir.path)
+      )}</a></td>
+          <td>${formatBytes(dir.size)}</td>
+          <td>
+            <button data-reveal="${escapeHtml(dir.path)}">Reveal</button>
+            <button data-delete="${escapeHtml(dir.path)}">Delete</button>
+          </td>
+        </tr>`
+    )
+    .join("");
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <style>
+        body {
+          font-family: var(--vscode-font-family);
+          padding: 20px;
+          color: var(--vscode-foreground);
+        }
+        .breadcrumb a {
+          color: var(--vscode-textLink-foreground);
+        }
+        .treemap {
+          position: relative;
+          width: 100%;
+          height: 400px;
+          margin: 16px 0;
+        }
+        .tile {
+          position: absolute;
+          box-sizing: border-box;
+          border: 1px solid var(--vscode-editor-background);
+          overflow: hidden;
+          color: #fff;
+          font-size: 12px;
+          padding: 4px;
+          cursor: pointer;
+        }
+        .tile.dir:hover {
+          outline: 2px solid var(--vscode-focusBorder);
+          z-index: 1;
+        }
+        .bar-row {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin: 2px 0;
+        }
+        .bar-label {
+          width: 120px;
+        }
+        .bar {
+          height: 12px;
+          background: var(--vscode-progressBar-background);
+        }
+        table {
+          width: 100%;
+          border-collapse: collapse;
+        }
+        th, td {
+          text-align: left;
+          padding: 4px 8px;
+          border-bottom: 1px solid var(--vscode-panel-border);
+          word-break: break-all;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="breadcrumb">${getBreadcrumbHTML(report.path, rootPath)}</div>
+      <p>${formatBytes(report.totalSize)} in ${report.fileCount} files</p>
+
+      <div class="treemap">${tileHtml}
+      </div>
+
+      <h2>By File Type</h2>
+      ${breakdownHtml || "<p>No file type breakdown available</p>"}
+
+      <h2>Largest Directories</h2>
+      <table>
+        <thead><tr><th>Directory</th><th>Size</th><th></th></tr></thead>
+        <tbody>${dirRows}
+        </tbody>
+      </table>
+
+      <h2>Largest Files</h2>
+      <table>
+        <thead><tr><th>File</th><th>Size</th><th></th></tr></thead>
+        <tbody>${fileRows}
+        </tbody>
+      </table>
+
+      <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.addEventListener("click", (event) => {
+          const target = event.target.closest(
+            "[data-analyze], [data-reveal], [data-delete]"
+          );
+          if (!target) {
+            return;
+          }
+          event.preventDefault();
+          for (const command of ["analyze", "reveal", "delete"]) {
+            const value = target.dataset[command];
+            if (value) {
+              vscode.postMessage({ command, path: value });
+              return;
+            }
+          }
+        });
+      </script>
+    </body>
+    </html>
+  `;
+}
+
+/**
+ * Breadcrumb from the analysis root down to the current directory
+ */
+function getBreadcrumbHTML(currentPath: string, rootPath: string): string {
+  const relative = path.relative(rootPath, currentPath);
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+    return `<strong>${escapeHtml(currentPath)}</strong>`;
+  }
+
+  const segments = relative.split(path.sep);
+  const crumbs = [
+    `<a href="#" data-analyze="${escapeHtml(rootPath)}">${escapeHtml(
+      rootPath
+    )}</a>`,
+  ];
+  let crumbPath = rootPath;
+  segments.forEach((segment, i) => {
+    crumbPath = path.join(crumbPath, segment);
+    crumbs.push(
+      i === segments.length - 1
+        ? `<strong>${escapeHtml(segment)}</strong>`
+        : `<a href="#" data-analyze="${escapeHtml(crumbPath)}">${escapeHtml(
+            segment
+          )}</a>`
+    );
+  });
+  return crumbs.join(" / ");
+}
+
+/**
+ * Generate a nonce for a webview Content Security Policy
+ */
+export function getNonce(): string {
+  return crypto.randomBytes(16).toString("hex");
+}
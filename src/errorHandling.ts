@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { PathPolicyViolation } from "./pathPolicy";
 
 /**
  * Error category enum
@@ -81,6 +82,12 @@ export class ErrorHandler {
    * Determines the error category based on error properties
    */
   public categorizeError(error: Error): ErrorCategory {
+    // Errors raised by the extension itself may already carry a category
+    const category = (error as Partial<FilesystemError>).category;
+    if (category) {
+      return category;
+    }
+
     const message = error.message.toLowerCase();
     const name = error.name.toLowerCase();
 
@@ -394,6 +401,10 @@ export class ErrorHandler {
       return `Access denied: "${error.context.path}" is outside the allowed boundary "${error.context.boundary}"`;
     }
 
+    if (error.context?.path && error.context?.blockedPath) {
+      return `Access denied: "${error.context.path}" is within blocked path "${error.context.blockedPath}"`;
+    }
+
     if (error.context?.path && error.context?.pattern) {
       return `Access denied: "${error.context.path}" matches blocked pattern "${error.context.pattern}"`;
     }
@@ -419,3 +430,23 @@ export class ErrorHandler {
     this.errorAggregation.clear();
   }
 }
+
+/**
+ * Create the error reported for a path that violates the policy
+ */
+export function createPathPolicyError(
+  violation: PathPolicyViolation
+): FilesystemError {
+  const error = new Error(
+    `Access denied to ${violation.path}: ${violation.reason}`
+  ) as FilesystemError;
+  error.name = "PathPolicyError";
+  error.category = ErrorCategory.SECURITY_ERROR;
+  error.context = {
+    path: violation.path,
+    boundary: violation.boundary,
+    blockedPath: violation.blockedPath,
+    pattern: violation.pattern,
+  };
+  return error;
+}
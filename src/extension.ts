@@ -8,10 +8,65 @@ import {
 } from "@ai-capabilities-suite/vscode-shared-status-bar";
 import { OperationsTreeDataProvider } from "./operationsTreeProvider";
 import { SecurityTreeDataProvider } from "./securityTreeProvider";
-import { MCPFilesystemClient } from "./mcpClient";
+import {
+  MCPFilesystemClient,
+  BatchOperationResult,
+  FileOperation,
+  WatchSession,
+} from "./mcpClient";
 import { FilesystemLanguageServer } from "./languageServerClient";
 import { SettingsManager } from "./settingsManager";
 import { ErrorHandler } from "./errorHandling";
+import {
+  BatchOperationsBuilder,
+  BatchRequest,
+  getBatchResultsHTML,
+} from "./batchOperationsBuilder";
+import { WatchSessionMonitor } from "./watchSessionMonitor";
+import { OperationHistoryStore } from "./operationHistoryStore";
+import { UndoJournal } from "./undoJournal";
+import {
+  AuditCaller,
+  AuditFilter,
+  AuditLogger,
+  getAuditLogHTML,
+  runWithAuditCaller,
+} from "./auditLog";
+import {
+  SearchResultsTreeDataProvider,
+  SearchResultItem,
+  parseFileTypes,
+  parseSizeRange,
+} from "./searchResultsProvider";
+import { DiskUsagePanel } from "./diskUsagePanel";
+import { escapeHtml, formatBytes } from "./utils";
+import { statPath } from "./pathInfo";
+import { FilesystemChatParticipant } from "./chatParticipant";
+import { ToolConfirmationManager } from "./toolConfirmation";
+import { OperationPlan, mergePlans } from "./operationPlanner";
+import { PlanPreviewPanel } from "./planPreviewPanel";
+import { OPERATION_FAMILIES } from "./operationToggles";
+import {
+  checkPathPolicies,
+  createPathPolicies,
+  createSecurityConfig,
+  explainPathPolicy,
+  selectPathPolicy,
+} from "./pathPolicy";
+import {
+  ChecksumAlgorithm,
+  ParsedManifest,
+  collectFiles,
+  computeManifestEntries,
+  formatManifest,
+  getAlgorithmForChecksum,
+  getCommonDirectory,
+  getManifestFileName,
+  getManifestVerificationHTML,
+  isManifestFileName,
+  parseManifest,
+  verifyManifest,
+} from "./checksumManifest";
 
 let mcpClient: MCPFilesystemClient | undefined;
 let languageServer: FilesystemLanguageServer | undefined;
@@ -21,6 +76,13 @@ let outputChannel: vscode.LogOutputChannel;
 let statusBarItem: vscode.StatusBarItem | undefined;
 let operationsTreeProvider: OperationsTreeDataProvider;
 let securityTreeProvider: SecurityTreeDataProvider;
+let watchSessionMonitor: WatchSessionMonitor;
+let historyStore: OperationHistoryStore | undefined;
+let undoJournal: UndoJournal | undefined;
+let auditLogger: AuditLogger | undefined;
+let toolConfirmation: ToolConfirmationManager;
+let searchResultsProvider: SearchResultsTreeDataProvider;
+let searchResultsView: vscode.TreeView<SearchResultItem>;
 let refreshInterval: NodeJS.Timeout | undefined;
 
 /**
@@ -87,109 +149,1143 @@ All operations are confined to this directory.
  * Batch operations command
  */
 async function batchOperations(): Promise<void> {
-  const operationType = await vscode.window.showQuickPick(
-    ["Copy", "Move", "Delete"],
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return;
+  }
+
+  const request = await new BatchOperationsBuilder().build();
+  if (!request || request.operations.length === 0) {
+    return;
+  }
+
+  const { dryRun, ...batch } = request;
+  if (dryRun) {
+    await previewOperation(
+      `${batch.operations.length} batch operations`,
+      async () => (await mcpClient!.batchOperations(request)).plan,
+      () => executeBatchOperations(batch)
+    );
+    return;
+  }
+
+  await executeBatchOperations(batch);
+}
+
+/**
+ * Confirm and execute a batch, then show the results
+ */
+async function executeBatchOperations(request: BatchRequest): Promise<void> {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return;
+  }
+
+  // Confirm batches that remove or relocate files
+  const destructive = request.operations.filter(
+    (op) => op.type === "delete" || op.type === "move"
+  ).length;
+  if (
+    destructive > 0 &&
+    (settingsManager?.getSettings().ui.confirmDangerousOperations ?? true)
+  ) {
+    const choice = await vscode.window.showWarningMessage(
+      `Execute ${request.operations.length} operations (${destructive} delete/move)?`,
+      { modal: true },
+      "Execute"
+    );
+    if (choice !== "Execute") {
+      return;
+    }
+  }
+
+  const client = mcpClient;
+  let results: BatchOperationResult[] | undefined;
+  let errorMessage: string | undefined;
+
+  await vscode.window.withProgress(
     {
-      placeHolder: "Select operation type",
+      location: vscode.ProgressLocation.Notification,
+      title: `Executing ${request.operations.length} batch operations...`,
+    },
+    async () => {
+      try {
+        const result = await client.batchOperations(request);
+        results = Array.isArray(result?.results) ? result.results : [];
+      } catch (error: any) {
+        errorMessage = error.message || String(error);
+        if (errorHandler) {
+          errorHandler.handleError({
+            name: "BatchOperationsError",
+            message: errorMessage!,
+            category: errorHandler.categorizeError(error),
+            context: { operation: "batch", atomic: request.atomic },
+            originalError: error,
+          });
+        }
+      }
     }
   );
 
-  if (!operationType) {
-    return;
+  const panel = vscode.window.createWebviewPanel(
+    "batchResults",
+    "Batch Results",
+    vscode.ViewColumn.One,
+    {}
+  );
+  panel.webview.html = getBatchResultsHTML(request, results, errorMessage);
+
+  operationsTreeProvider.refresh();
+}
+
+/**
+ * Get the resources a command was invoked on
+ * Explorer context menus pass the clicked URI and the full multi-selection;
+ * other callers (command palette, tree views) pass nothing or tree items
+ */
+function getInvokedUris(uri?: unknown, uris?: unknown): vscode.Uri[] {
+  if (
+    Array.isArray(uris) &&
+    uris.length > 0 &&
+    uris.every((u) => u instanceof vscode.Uri)
+  ) {
+    return uris;
   }
+  return uri instanceof vscode.Uri ? [uri] : [];
+}
 
-  vscode.window.showInformationMessage(
-    `Batch ${operationType} operations - Use Copilot with @filesystem for AI-assisted batch operations`
-  );
+/**
+ * Use the invoked resources, or ask for them with an open dialog
+ */
+async function resolveUris(
+  invoked: vscode.Uri[],
+  options: vscode.OpenDialogOptions
+): Promise<vscode.Uri[]> {
+  if (invoked.length > 0) {
+    return invoked;
+  }
+  return (await vscode.window.showOpenDialog(options)) ?? [];
+}
+
+/**
+ * Check whether a URI points to a directory
+ */
+function isDirectory(uri: vscode.Uri): boolean {
+  try {
+    return fs.statSync(uri.fsPath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Report a command failure through the error handler
+ */
+function reportCommandError(
+  name: string,
+  error: any,
+  fallbackMessage: string,
+  context: Record<string, any>
+): void {
+  if (errorHandler) {
+    errorHandler.handleError({
+      name,
+      message: error.message || fallbackMessage,
+      category: errorHandler.categorizeError(error),
+      context: { ...context, ...error.context },
+      originalError: error,
+    });
+  } else {
+    vscode.window.showErrorMessage(
+      `${fallbackMessage}: ${error.message || error}`
+    );
+  }
 }
 
 /**
  * Watch directory command
  */
-async function watchDirectory(): Promise<void> {
-  const uri = await vscode.window.showOpenDialog({
-    canSelectFiles: false,
-    canSelectFolders: true,
-    canSelectMany: false,
-    openLabel: "Watch Directory",
+async function watchDirectory(uri?: unknown, uris?: unknown): Promise<void> {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return;
+  }
+
+  const folders = (
+    await resolveUris(getInvokedUris(uri, uris), {
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: true,
+      openLabel: "Watch Directory",
+    })
+  ).filter(isDirectory);
+
+  if (folders.length === 0) {
+    return;
+  }
+
+  const recursivePick = await vscode.window.showQuickPick(
+    [
+      { label: "Recursive", recursive: true },
+      { label: "This directory only", recursive: false },
+    ],
+    { placeHolder: "Watch subdirectories?" }
+  );
+
+  if (!recursivePick) {
+    return;
+  }
+
+  const filterInput = await vscode.window.showInputBox({
+    prompt: "File patterns to filter events (comma-separated, optional)",
+    placeHolder: "*.ts, *.json",
   });
 
-  if (!uri || uri.length === 0) {
+  if (filterInput === undefined) {
     return;
   }
 
-  vscode.window.showInformationMessage(
-    `Directory watching - Use Copilot with @filesystem to watch ${uri[0].fsPath}`
+  const filters = filterInput
+    .split(",")
+    .map((f) => f.trim())
+    .filter((f) => f.length > 0);
+
+  for (const folder of folders) {
+    try {
+      const result = await mcpClient.watchDirectory({
+        path: folder.fsPath,
+        recursive: recursivePick.recursive,
+        filters,
+      });
+
+      const session = mcpClient
+        .getWatchSessions()
+        .find((s) => s.id === result.sessionId);
+      if (session) {
+        watchSessionMonitor.showSession(session);
+      }
+
+      vscode.window.showInformationMessage(`Watching ${folder.fsPath}`);
+    } catch (error: any) {
+      reportCommandError(
+        "WatchDirectoryError",
+        error,
+        "Failed to watch directory",
+        { path: folder.fsPath }
+      );
+    }
+  }
+
+  operationsTreeProvider.refresh();
+}
+
+/**
+ * Pick an active watch session
+ */
+async function pickWatchSession(
+  placeHolder: string
+): Promise<WatchSession | undefined> {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return undefined;
+  }
+
+  const sessions = mcpClient.getWatchSessions();
+  if (sessions.length === 0) {
+    vscode.window.showInformationMessage("No active watch sessions");
+    return undefined;
+  }
+
+  const pick = await vscode.window.showQuickPick(
+    sessions.map((session) => ({
+      label: session.path,
+      description: `${session.eventCount} events`,
+      session,
+    })),
+    { placeHolder }
   );
+
+  return pick?.session;
+}
+
+/**
+ * Get watch events command
+ */
+async function getWatchEvents(item?: any): Promise<void> {
+  const session: WatchSession | undefined =
+    item?.watchSession ?? (await pickWatchSession("Select a watch session"));
+  if (!session || !mcpClient) {
+    return;
+  }
+
+  watchSessionMonitor.showSession(session);
+
+  try {
+    // Fetch immediately instead of waiting for the next poll
+    await mcpClient.getWatchEvents({ sessionId: session.id });
+    operationsTreeProvider.refresh();
+  } catch {
+    // Reported through the error handler by the client
+  }
+}
+
+/**
+ * Stop watch command
+ */
+async function stopWatch(): Promise<void> {
+  const session = await pickWatchSession("Select a watch session to stop");
+  if (!session || !mcpClient) {
+    return;
+  }
+
+  await mcpClient.stopWatch(session.id);
+  vscode.window.showInformationMessage(`Stopped watching ${session.path}`);
+  operationsTreeProvider.refresh();
 }
 
 /**
  * Search files command
  */
 async function searchFiles(): Promise<void> {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return;
+  }
+
   const query = await vscode.window.showInputBox({
     prompt: "Enter search query",
-    placeHolder: "*.ts or search term",
+    placeHolder: "File name or text to search for",
   });
 
   if (!query) {
     return;
   }
 
-  vscode.window.showInformationMessage(
-    `File search - Use Copilot with @filesystem to search for "${query}"`
+  const typePick = await vscode.window.showQuickPick(
+    [
+      { label: "Name", searchType: "name" as const },
+      { label: "Content", searchType: "content" as const },
+      { label: "Name and content", searchType: "both" as const },
+    ],
+    { placeHolder: "Search by" }
+  );
+
+  if (!typePick) {
+    return;
+  }
+
+  const optionPicks = await vscode.window.showQuickPick(
+    [
+      { label: "Use index", option: "useIndex", picked: true },
+      { label: "Filter by file type...", option: "fileTypes" },
+      { label: "Filter by size...", option: "size" },
+      { label: "Modified after...", option: "modifiedAfter" },
+    ],
+    { placeHolder: "Search options", canPickMany: true }
   );
+
+  if (!optionPicks) {
+    return;
+  }
+
+  const selected = new Set(optionPicks.map((pick) => pick.option));
+  const params: Parameters<MCPFilesystemClient["searchFiles"]>[0] = {
+    query,
+    searchType: typePick.searchType,
+    useIndex: selected.has("useIndex"),
+  };
+
+  if (selected.has("fileTypes")) {
+    const input = await vscode.window.showInputBox({
+      prompt: "File extensions (comma-separated)",
+      placeHolder: ".ts, .json",
+    });
+    if (input === undefined) {
+      return;
+    }
+    params.fileTypes = parseFileTypes(input);
+  }
+
+  if (selected.has("size")) {
+    const input = await vscode.window.showInputBox({
+      prompt: "Size range (min-max, either bound optional)",
+      placeHolder: "10KB-2MB",
+      validateInput: (value) =>
+        parseSizeRange(value) ? undefined : "Use a range such as 10KB-2MB",
+    });
+    if (input === undefined) {
+      return;
+    }
+    Object.assign(params, parseSizeRange(input));
+  }
+
+  if (selected.has("modifiedAfter")) {
+    const input = await vscode.window.showInputBox({
+      prompt: "Modified after (date)",
+      placeHolder: "2024-01-31",
+      validateInput: (value) =>
+        isNaN(Date.parse(value)) ? "Enter a valid date" : undefined,
+    });
+    if (input === undefined) {
+      return;
+    }
+    params.modifiedAfter = new Date(input).toISOString();
+  }
+
+  const client = mcpClient;
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Searching for "${query}"...`,
+    },
+    async () => {
+      try {
+        const result = await client.searchFiles(params);
+        const results = Array.isArray(result?.results) ? result.results : [];
+        searchResultsProvider.setResults(query, typePick.searchType, results);
+        searchResultsView.description = `${results.length} result${
+          results.length === 1 ? "" : "s"
+        } for "${query}"`;
+        await vscode.commands.executeCommand("mcp-filesystem-search.focus");
+      } catch (error: any) {
+        if (errorHandler) {
+          errorHandler.handleError({
+            name: "SearchFilesError",
+            message: error.message || "Failed to search files",
+            category: errorHandler.categorizeError(error),
+            context: { query, searchType: typePick.searchType },
+            originalError: error,
+          });
+        } else {
+          vscode.window.showErrorMessage(
+            `Failed to search files: ${error.message || error}`
+          );
+        }
+      }
+    }
+  );
+
+  operationsTreeProvider.refresh();
+}
+
+/**
+ * Sort search results command
+ */
+async function sortSearchResults(): Promise<void> {
+  const current = searchResultsProvider.getSortOrder();
+  const pick = await vscode.window.showQuickPick(
+    [
+      { label: "Path", order: "path" as const },
+      { label: "Size", description: "largest first", order: "size" as const },
+      {
+        label: "Modified",
+        description: "newest first",
+        order: "mtime" as const,
+      },
+    ].map((item) => ({
+      ...item,
+      label: item.order === current ? `$(check) ${item.label}` : item.label,
+    })),
+    { placeHolder: "Sort search results by" }
+  );
+
+  if (pick) {
+    searchResultsProvider.setSortOrder(pick.order);
+  }
 }
 
 /**
  * Compute checksum command
  */
-async function computeChecksum(): Promise<void> {
-  const uri = await vscode.window.showOpenDialog({
+async function computeChecksum(uri?: unknown, uris?: unknown): Promise<void> {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return;
+  }
+
+  // Folders and multi-selections produce a manifest instead
+  const invoked = getInvokedUris(uri, uris);
+  if (invoked.length > 1 || invoked.some(isDirectory)) {
+    await createChecksumManifest(uri, uris);
+    return;
+  }
+
+  const selection = await resolveUris(invoked, {
     canSelectFiles: true,
     canSelectFolders: false,
     canSelectMany: false,
     openLabel: "Compute Checksum",
   });
 
-  if (!uri || uri.length === 0) {
+  if (selection.length === 0) {
+    return;
+  }
+  const file = selection[0];
+
+  const algorithm = await pickChecksumAlgorithm();
+  if (!algorithm) {
+    return;
+  }
+
+  try {
+    const result = await mcpClient.computeChecksum({
+      path: file.fsPath,
+      algorithm,
+    });
+    const choice = await vscode.window.showInformationMessage(
+      `${algorithm.toUpperCase()} of ${path.basename(file.fsPath)}: ${
+        result.checksum
+      }`,
+      "Copy"
+    );
+    if (choice === "Copy") {
+      await vscode.env.clipboard.writeText(result.checksum);
+    }
+  } catch (error: any) {
+    reportCommandError(
+      "ComputeChecksumError",
+      error,
+      "Failed to compute checksum",
+      { path: file.fsPath }
+    );
+  }
+  operationsTreeProvider.refresh();
+}
+
+/**
+ * Verify checksum command
+ */
+async function verifyChecksum(uri?: unknown): Promise<void> {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return;
+  }
+
+  const selection = await resolveUris(getInvokedUris(uri), {
+    canSelectFiles: true,
+    canSelectFolders: false,
+    canSelectMany: false,
+    openLabel: "Verify Checksum",
+  });
+
+  if (selection.length === 0) {
+    return;
+  }
+  const file = selection[0];
+
+  // Verifying a manifest checks every file it lists
+  if (isManifestFileName(file.fsPath)) {
+    await verifyChecksumManifest(file);
+    return;
+  }
+
+  const expected = await vscode.window.showInputBox({
+    prompt: "Expected checksum",
+    validateInput: (value) =>
+      /^[0-9a-fA-F]+$/.test(value.trim()) ? undefined : "Enter a hex digest",
+  });
+
+  if (!expected) {
+    return;
+  }
+
+  const algorithm = getAlgorithmForChecksum(expected);
+  try {
+    const result = await mcpClient.verifyChecksum({
+      path: file.fsPath,
+      checksum: expected.trim().toLowerCase(),
+      algorithm,
+    });
+    if (result.match) {
+      vscode.window.showInformationMessage(
+        `Checksum matches for ${path.basename(file.fsPath)}`
+      );
+    } else {
+      vscode.window.showWarningMessage(
+        `Checksum mismatch for ${path.basename(file.fsPath)}: got ${
+          result.actual
+        }`
+      );
+    }
+  } catch (error: any) {
+    reportCommandError(
+      "VerifyChecksumError",
+      error,
+      "Failed to verify checksum",
+      { path: file.fsPath }
+    );
+  }
+  operationsTreeProvider.refresh();
+}
+
+/**
+ * Create checksum manifest command
+ */
+async function createChecksumManifest(
+  uri?: unknown,
+  uris?: unknown
+): Promise<void> {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return;
+  }
+
+  const selection = await resolveUris(getInvokedUris(uri, uris), {
+    canSelectFiles: true,
+    canSelectFolders: true,
+    canSelectMany: true,
+    openLabel: "Create Manifest",
+  });
+
+  if (selection.length === 0) {
+    return;
+  }
+
+  const algorithm = await pickChecksumAlgorithm();
+  if (!algorithm) {
+    return;
+  }
+
+  const selected = selection.map((uri) => uri.fsPath);
+  // A missing entry fails when its files are collected, which reports it
+  const baseDir =
+    selected.length === 1 && (await statPath(selected[0]))?.type === "directory"
+      ? selected[0]
+      : getCommonDirectory(selected);
+
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(
+      path.join(
+        baseDir,
+        getManifestFileName(algorithm, path.basename(baseDir) || "checksums")
+      )
+    ),
+    saveLabel: "Save Manifest",
+  });
+
+  if (!target) {
+    return;
+  }
+
+  const client = mcpClient;
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "Computing checksums",
+      cancellable: true,
+    },
+    async (progress, token) => {
+      try {
+        const files = await collectFiles(selected, [target.fsPath]);
+        const entries = await computeManifestEntries(
+          client,
+          files,
+          path.dirname(target.fsPath),
+          algorithm,
+          progress,
+          token
+        );
+        if (token.isCancellationRequested) {
+          return;
+        }
+
+        await fs.promises.writeFile(target.fsPath, formatManifest(entries));
+        const choice = await vscode.window.showInformationMessage(
+          `Wrote ${entries.length} checksums to ${path.basename(
+            target.fsPath
+          )}`,
+          "Open"
+        );
+        if (choice === "Open") {
+          await vscode.window.showTextDocument(target);
+        }
+      } catch (error: any) {
+        reportCommandError(
+          "ChecksumManifestError",
+          error,
+          "Failed to create checksum manifest",
+          { path: target.fsPath }
+        );
+      }
+    }
+  );
+  operationsTreeProvider.refresh();
+}
+
+/**
+ * Verify checksum manifest command
+ */
+async function verifyChecksumManifest(uri?: unknown): Promise<void> {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return;
+  }
+
+  const selection = await resolveUris(getInvokedUris(uri), {
+    canSelectFiles: true,
+    canSelectFolders: false,
+    canSelectMany: false,
+    openLabel: "Verify Manifest",
+    filters: {
+      "Checksum manifests": ["md5", "sha1", "sha256", "sha512", "txt"],
+      "All files": ["*"],
+    },
+  });
+
+  if (selection.length === 0) {
+    return;
+  }
+
+  const manifestPath = selection[0].fsPath;
+  let manifest: ParsedManifest;
+  try {
+    manifest = parseManifest(
+      await fs.promises.readFile(manifestPath, "utf8"),
+      manifestPath
+    );
+  } catch (error: any) {
+    reportCommandError(
+      "ChecksumManifestError",
+      error,
+      "Failed to read checksum manifest",
+      { path: manifestPath }
+    );
+    return;
+  }
+
+  if (manifest.entries.length === 0) {
+    vscode.window.showWarningMessage(
+      `${path.basename(manifestPath)} contains no checksum entries`
+    );
     return;
   }
 
+  const client = mcpClient;
+  const results = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "Verifying checksums",
+      cancellable: true,
+    },
+    (progress, token) =>
+      verifyManifest(client, manifestPath, manifest, progress, token)
+  );
+
+  const panel = vscode.window.createWebviewPanel(
+    "checksumManifestResults",
+    `Verify: ${path.basename(manifestPath)}`,
+    vscode.ViewColumn.One,
+    {}
+  );
+  panel.webview.html = getManifestVerificationHTML(
+    manifestPath,
+    results,
+    manifest.invalidLines
+  );
+  operationsTreeProvider.refresh();
+}
+
+/**
+ * Ask for a checksum algorithm
+ */
+async function pickChecksumAlgorithm(): Promise<ChecksumAlgorithm | undefined> {
   const algorithm = await vscode.window.showQuickPick(
-    ["md5", "sha1", "sha256", "sha512"],
+    ["sha256", "sha512", "sha1", "md5"],
     {
       placeHolder: "Select hash algorithm",
     }
   );
+  return algorithm as ChecksumAlgorithm | undefined;
+}
 
-  if (!algorithm) {
+/**
+ * Analyze disk usage command
+ */
+async function analyzeDiskUsage(uri?: unknown, uris?: unknown): Promise<void> {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return;
+  }
+
+  const folders = (
+    await resolveUris(getInvokedUris(uri, uris), {
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      openLabel: "Analyze Disk Usage",
+    })
+  ).filter(isDirectory);
+
+  if (folders.length === 0) {
     return;
   }
 
-  vscode.window.showInformationMessage(
-    `Checksum computation - Use Copilot with @filesystem to compute ${algorithm} for ${uri[0].fsPath}`
+  const depthPick = await vscode.window.showQuickPick(
+    [
+      { label: "Unlimited", depth: undefined },
+      { label: "1 level", depth: 1 },
+      { label: "2 levels", depth: 2 },
+      { label: "3 levels", depth: 3 },
+      { label: "5 levels", depth: 5 },
+    ],
+    { placeHolder: "How deep should the analysis scan?" }
   );
+
+  if (!depthPick) {
+    return;
+  }
+
+  for (const folder of folders) {
+    const panel = new DiskUsagePanel(
+      mcpClient,
+      depthPick.depth,
+      settingsManager,
+      errorHandler
+    );
+    await panel.analyze(folder.fsPath);
+  }
+  operationsTreeProvider.refresh();
 }
 
 /**
- * Analyze disk usage command
+ * Ask for comma-separated exclusion patterns
+ * @returns The patterns, or undefined if cancelled
+ */
+async function promptExclusions(): Promise<string[] | undefined> {
+  const input = await vscode.window.showInputBox({
+    prompt: "Patterns to exclude (comma-separated, optional)",
+    placeHolder: "node_modules, *.log",
+  });
+
+  if (input === undefined) {
+    return undefined;
+  }
+
+  return input
+    .split(",")
+    .map((p) => p.trim())
+    .filter((p) => p.length > 0);
+}
+
+/**
+ * Copy directory command
  */
-async function analyzeDiskUsage(): Promise<void> {
-  const uri = await vscode.window.showOpenDialog({
+async function copyDirectory(uri?: unknown, uris?: unknown): Promise<void> {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return;
+  }
+
+  const sources = (
+    await resolveUris(getInvokedUris(uri, uris), {
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: true,
+      openLabel: "Copy Directory",
+    })
+  ).filter(isDirectory);
+
+  if (sources.length === 0) {
+    return;
+  }
+
+  const destination = await vscode.window.showOpenDialog({
     canSelectFiles: false,
     canSelectFolders: true,
-    canSelectMany: false,
-    openLabel: "Analyze Disk Usage",
+    canSelectMany: false,
+    openLabel: "Copy Into",
+  });
+
+  if (!destination || destination.length === 0) {
+    return;
+  }
+
+  const exclusions = await promptExclusions();
+  if (!exclusions) {
+    return;
+  }
+
+  const mode = await promptRunMode();
+  if (!mode) {
+    return;
+  }
+
+  const client = mcpClient;
+  const copies = sources.map((source) => ({
+    source: source.fsPath,
+    destination: path.join(destination[0].fsPath, path.basename(source.fsPath)),
+    preserveMetadata: true,
+    exclusions,
+  }));
+
+  const run = async () => {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Copying directories",
+      },
+      async (progress) => {
+        for (const params of copies) {
+          progress.report({ message: path.basename(params.source) });
+
+          try {
+            const result = await client.copyDirectory(params);
+            vscode.window.showInformationMessage(
+              `Copied ${result.filesCopied} files (${formatBytes(
+                result.bytesTransferred ?? 0
+              )}) to ${params.destination}`
+            );
+          } catch (error: any) {
+            reportCommandError(
+              "CopyDirectoryError",
+              error,
+              "Failed to copy directory",
+              { source: params.source, destination: params.destination }
+            );
+          }
+        }
+      }
+    );
+    operationsTreeProvider.refresh();
+  };
+
+  if (mode === "preview") {
+    await previewOperation(
+      `Copy ${copies.length} director${copies.length === 1 ? "y" : "ies"}`,
+      async () =>
+        mergePlans(
+          await Promise.all(
+            copies.map(
+              async (params) =>
+                (
+                  await client.copyDirectory({ ...params, dryRun: true })
+                ).plan
+            )
+          )
+        ),
+      run
+    );
+  } else {
+    await run();
+  }
+}
+
+/**
+ * Sync directory command
+ */
+async function syncDirectory(uri?: unknown, uris?: unknown): Promise<void> {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return;
+  }
+
+  const sources = (
+    await resolveUris(getInvokedUris(uri, uris), {
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: true,
+      openLabel: "Sync Directory",
+    })
+  ).filter(isDirectory);
+
+  if (sources.length === 0) {
+    return;
+  }
+
+  const destination = await vscode.window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    openLabel: sources.length === 1 ? "Sync To" : "Sync Into",
+  });
+
+  if (!destination || destination.length === 0) {
+    return;
+  }
+
+  const exclusions = await promptExclusions();
+  if (!exclusions) {
+    return;
+  }
+
+  const mode = await promptRunMode();
+  if (!mode) {
+    return;
+  }
+
+  const client = mcpClient;
+  const syncs = sources.map((source) => ({
+    source: source.fsPath,
+    // A single source mirrors into the chosen folder itself
+    destination:
+      sources.length === 1
+        ? destination[0].fsPath
+        : path.join(destination[0].fsPath, path.basename(source.fsPath)),
+    exclusions,
+  }));
+
+  const run = async () => {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Syncing directories",
+      },
+      async (progress) => {
+        for (const params of syncs) {
+          progress.report({ message: path.basename(params.source) });
+
+          try {
+            const result = await client.syncDirectory(params);
+            vscode.window.showInformationMessage(
+              `Synced ${params.source} to ${params.destination}: ${result.filesCopied} copied, ${result.filesSkipped} up to date`
+            );
+          } catch (error: any) {
+            reportCommandError(
+              "SyncDirectoryError",
+              error,
+              "Failed to sync directory",
+              { source: params.source, destination: params.destination }
+            );
+          }
+        }
+      }
+    );
+    operationsTreeProvider.refresh();
+  };
+
+  if (mode === "preview") {
+    await previewOperation(
+      `Sync ${syncs.length} director${syncs.length === 1 ? "y" : "ies"}`,
+      async () =>
+        mergePlans(
+          await Promise.all(
+            syncs.map(
+              async (params) =>
+                (
+                  await client.syncDirectory({ ...params, dryRun: true })
+                ).plan
+            )
+          )
+        ),
+      run
+    );
+  } else {
+    await run();
+  }
+}
+
+/**
+ * Ask whether to run an operation now or preview its changes first
+ */
+async function promptRunMode(): Promise<"run" | "preview" | undefined> {
+  const choice = await vscode.window.showQuickPick(
+    [
+      { label: "$(play) Run now", mode: "run" as const },
+      {
+        label: "$(eye) Preview changes",
+        description: "Dry run: list files to create, overwrite or skip",
+        mode: "preview" as const,
+      },
+    ],
+    { placeHolder: "Run the operation or preview it first" }
+  );
+  return choice?.mode;
+}
+
+/**
+ * Compute a dry-run plan and show it in a preview panel
+ * @param title - Operation being previewed
+ * @param getPlan - Computes the plan without changing any files
+ * @param apply - Runs the real operation when the user clicks Apply
+ */
+async function previewOperation(
+  title: string,
+  getPlan: () => Promise<OperationPlan>,
+  apply: () => Promise<void>
+): Promise<void> {
+  try {
+    const plan = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Planning: ${title}...`,
+      },
+      getPlan
+    );
+    new PlanPreviewPanel(title, plan, apply);
+  } catch (error: any) {
+    reportCommandError(
+      "OperationPreviewError",
+      error,
+      "Failed to preview operation",
+      { title }
+    );
+  }
+}
+
+/**
+ * Create symlink command
+ */
+async function createSymlink(uri?: unknown, uris?: unknown): Promise<void> {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return;
+  }
+
+  const targets = await resolveUris(getInvokedUris(uri, uris), {
+    canSelectFiles: true,
+    canSelectFolders: true,
+    canSelectMany: true,
+    openLabel: "Link To",
   });
 
-  if (!uri || uri.length === 0) {
+  if (targets.length === 0) {
     return;
   }
 
-  vscode.window.showInformationMessage(
-    `Disk usage analysis - Use Copilot with @filesystem to analyze ${uri[0].fsPath}`
-  );
+  // One target gets a chosen link path, several get links in one folder
+  let links: Array<{ linkPath: string; targetPath: string }>;
+  if (targets.length === 1) {
+    const targetPath = targets[0].fsPath;
+    const link = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(`${targetPath}-link`),
+      saveLabel: "Create Link",
+    });
+    if (!link) {
+      return;
+    }
+    links = [{ linkPath: link.fsPath, targetPath }];
+  } else {
+    const folder = await vscode.window.showOpenDialog({
+      canSelectFiles: false,
+      canSelectFolders: true,
+      canSelectMany: false,
+      openLabel: "Create Links In",
+    });
+    if (!folder || folder.length === 0) {
+      return;
+    }
+    links = targets.map((target) => ({
+      linkPath: path.join(folder[0].fsPath, path.basename(target.fsPath)),
+      targetPath: target.fsPath,
+    }));
+  }
+
+  for (const link of links) {
+    try {
+      await mcpClient.createSymlink(link);
+      vscode.window.showInformationMessage(
+        `Created ${link.linkPath} -> ${link.targetPath}`
+      );
+    } catch (error: any) {
+      reportCommandError(
+        "CreateSymlinkError",
+        error,
+        "Failed to create symlink",
+        link
+      );
+    }
+  }
+  operationsTreeProvider.refresh();
 }
 
 /**
@@ -249,6 +1345,51 @@ function showRestartNotification(): void {
     });
 }
 
+/**
+ * Set the context keys that hide disabled operation families from menus,
+ * the command palette and language model tools
+ */
+function updateOperationContext(): void {
+  if (!settingsManager) {
+    return;
+  }
+
+  const operations = settingsManager.getSettings().operations;
+  for (const family of OPERATION_FAMILIES) {
+    vscode.commands.executeCommand(
+      "setContext",
+      family.contextKey,
+      !operations[family.setting]
+    );
+  }
+}
+
+/**
+ * Hand the resolved security configuration to the client
+ * The server reads it when it starts; the client's own path checks use it
+ * immediately
+ */
+function applyServerConfig(client: MCPFilesystemClient): void {
+  if (!settingsManager) {
+    return;
+  }
+
+  const security = settingsManager.getSettings().security;
+  const config = createSecurityConfig(
+    security,
+    settingsManager.getFolderSecuritySettings(),
+    settingsManager.getVariableContext()
+  );
+  if (!config.roots?.length) {
+    outputChannel.appendLine(
+      `Could not resolve workspace root "${security.workspaceRoot}" - the server uses its default boundaries`
+    );
+    client.setServerConfig(undefined);
+    return;
+  }
+  client.setServerConfig(config);
+}
+
 /**
  * Restart the MCP server
  */
@@ -276,6 +1417,16 @@ async function restartServer(): Promise<void> {
       settingsManager,
       errorHandler
     );
+    if (historyStore) {
+      mcpClient.setHistoryStore(historyStore);
+    }
+    if (undoJournal) {
+      mcpClient.setUndoJournal(undoJournal);
+    }
+    if (auditLogger) {
+      mcpClient.setAuditLogger(auditLogger);
+    }
+    applyServerConfig(mcpClient);
     await mcpClient.start();
 
     // Restart language server
@@ -283,10 +1434,13 @@ async function restartServer(): Promise<void> {
     if (context) {
       languageServer = new FilesystemLanguageServer(context, outputChannel);
       await languageServer.start();
+      languageServer.setMCPClient(mcpClient);
     }
 
     // Update providers
     operationsTreeProvider.setMCPClient(mcpClient);
+    securityTreeProvider.setMCPClient(mcpClient);
+    watchSessionMonitor.setMCPClient(mcpClient);
 
     outputChannel.appendLine("MCP Filesystem server restarted successfully");
     vscode.window.showInformationMessage(
@@ -358,6 +1512,242 @@ async function viewOperationDetails(item: any): Promise<void> {
   panel.webview.html = getOperationDetailsHTML(op);
 }
 
+/**
+ * Undo operation command
+ * Undoes the clicked Operations tree item, or asks which operation to undo
+ */
+async function undoOperation(item?: any): Promise<void> {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP client not connected");
+    return;
+  }
+
+  const client = mcpClient;
+  let operation: FileOperation | undefined = item?.operation;
+  if (!operation) {
+    const undoable = client
+      .getOperations()
+      .filter((op) => client.canUndo(op.id));
+    if (undoable.length === 0) {
+      vscode.window.showInformationMessage("No operations can be undone");
+      return;
+    }
+
+    const selection = await vscode.window.showQuickPick(
+      undoable.map((op) => ({
+        label: `${op.type} - ${op.status}`,
+        description: op.timestamp.toLocaleString(),
+        detail: getOperationSummary(op),
+        operation: op,
+      })),
+      { placeHolder: "Select the operation to undo" }
+    );
+    operation = selection?.operation;
+  }
+  if (!operation) {
+    return;
+  }
+
+  if (settingsManager?.getSettings().ui.confirmDangerousOperations ?? true) {
+    const choice = await vscode.window.showWarningMessage(
+      `Undo ${
+        operation.type
+      } operation from ${operation.timestamp.toLocaleString()}? Files it created are removed and files it overwrote or deleted are restored.`,
+      { modal: true },
+      "Undo"
+    );
+    if (choice !== "Undo") {
+      return;
+    }
+  }
+
+  try {
+    const result = await client.undoOperation(operation.id);
+    vscode.window.showInformationMessage(
+      `Undid ${operation.type}: ${result.restored} restored, ${result.removed} removed`
+    );
+  } catch (error: any) {
+    reportCommandError(
+      "UndoOperationError",
+      error,
+      "Failed to undo operation",
+      {
+        operationId: operation.id,
+      }
+    );
+  }
+  operationsTreeProvider.refresh();
+}
+
+/**
+ * Open audit log command
+ * Asks for a filter, then shows the matching records
+ */
+async function openAuditLog(): Promise<void> {
+  if (!auditLogger) {
+    vscode.window.showErrorMessage("Audit log not initialized");
+    return;
+  }
+
+  const logger = auditLogger;
+  if (!logger.isEnabled()) {
+    vscode.window.showWarningMessage(
+      "Audit logging is disabled (mcp-filesystem.audit.enableAuditLog); showing previously recorded calls only."
+    );
+  }
+
+  const callers: Array<{ label: string; caller: AuditCaller }> = [
+    { label: "$(comment-discussion) @filesystem chat calls", caller: "chat" },
+    { label: "$(copilot) Language model tool calls", caller: "lm-tool" },
+    { label: "$(terminal) Command calls", caller: "command" },
+  ];
+  const choice = await vscode.window.showQuickPick(
+    [
+      { label: "$(list-flat) All records", filter: {} as AuditFilter },
+      {
+        label: "$(error) Failures only",
+        filter: { outcome: "failure" } as AuditFilter,
+      },
+      ...callers.map(({ label, caller }) => ({
+        label,
+        filter: { caller } as AuditFilter,
+      })),
+      { label: "$(tools) By tool...", filter: undefined, by: "tool" },
+      { label: "$(file) By path...", filter: undefined, by: "path" },
+      { label: "$(go-to-file) Open raw log file", filter: undefined },
+    ],
+    { placeHolder: "Filter audit records" }
+  );
+  if (!choice) {
+    return;
+  }
+
+  let filter = choice.filter;
+  let description = choice.label.replace(/^\$\([^)]+\)\s*/, "");
+  if (!filter && "by" in choice) {
+    if (choice.by === "tool") {
+      const tools = Array.from(
+        new Set((await logger.read()).map((record) => record.tool))
+      ).sort();
+      const tool = await vscode.window.showQuickPick(tools, {
+        placeHolder: "Select a tool",
+      });
+      if (!tool) {
+        return;
+      }
+      filter = { tool };
+      description = `Tool ${tool}`;
+    } else {
+      const target = await vscode.window.showInputBox({
+        prompt: "Show records affecting paths containing",
+        placeHolder: "src/config",
+      });
+      if (!target) {
+        return;
+      }
+      filter = { path: target };
+      description = `Paths containing "${target}"`;
+    }
+  }
+
+  if (!filter) {
+    if (!fs.existsSync(logger.getLogPath())) {
+      vscode.window.showInformationMessage("The audit log is empty");
+      return;
+    }
+    await vscode.window.showTextDocument(vscode.Uri.file(logger.getLogPath()));
+    return;
+  }
+
+  try {
+    const records = await logger.read(filter);
+    const panel = vscode.window.createWebviewPanel(
+      "auditLog",
+      "Audit Log",
+      vscode.ViewColumn.One,
+      {}
+    );
+    panel.webview.html = getAuditLogHTML(records.slice(-1000), description);
+  } catch (error: any) {
+    reportCommandError("AuditLogError", error, "Failed to read audit log", {
+      filter,
+    });
+  }
+}
+
+/**
+ * Test a path against policy command
+ * Runs every security rule against a path and explains which one decides
+ */
+async function testPathPolicy(uri?: unknown): Promise<void> {
+  if (!settingsManager) {
+    vscode.window.showErrorMessage("Settings not initialized");
+    return;
+  }
+
+  let target: string | undefined = getInvokedUris(uri)[0]?.fsPath;
+  if (!target) {
+    target = await vscode.window.showInputBox({
+      prompt: "Path to test against the security policy",
+      placeHolder: "src/config/secrets.json",
+      value: vscode.window.activeTextEditor?.document.uri.fsPath,
+    });
+    if (!target) {
+      return;
+    }
+  }
+
+  const policies = createPathPolicies(
+    settingsManager.getSettings().security,
+    settingsManager.getFolderSecuritySettings(),
+    settingsManager.getVariableContext()
+  );
+  const policy = path.isAbsolute(target)
+    ? selectPathPolicy(target, policies)
+    : policies[0];
+  if (!policy && policies.length > 1) {
+    vscode.window.showWarningMessage(
+      `Blocked: ${checkPathPolicies(target, policies)?.reason}`,
+      { modal: true, detail: target }
+    );
+    return;
+  }
+
+  const checks = explainPathPolicy(target, policy ?? policies[0]);
+  const detail = [
+    ...(policy?.name ? [`Workspace folder: ${policy.name}`] : []),
+    ...checks.map(
+      (check) => `${check.passed ? "✓" : "✗"} ${check.rule}: ${check.detail}`
+    ),
+  ].join("\n");
+  const failed = checks.find((check) => !check.passed);
+
+  if (failed?.violation) {
+    vscode.window.showWarningMessage(`Blocked: ${failed.violation.reason}`, {
+      modal: true,
+      detail: `${target}\n\n${detail}`,
+    });
+  } else {
+    vscode.window.showInformationMessage("Allowed by the security policy", {
+      modal: true,
+      detail: `${target}\n\n${detail}`,
+    });
+  }
+}
+
+/**
+ * Describe an operation's main paths in one line
+ */
+function getOperationSummary(operation: FileOperation): string {
+  const details = operation.details ?? {};
+  if (Array.isArray(details.operations)) {
+    return `${details.operations.length} batch operations`;
+  }
+  return details.source && details.destination
+    ? `${details.source} → ${details.destination}`
+    : details.path ?? "";
+}
+
 /**
  * Clear operation history
  */
@@ -368,7 +1758,7 @@ async function clearOperationHistory(): Promise<void> {
   }
 
   const choice = await vscode.window.showWarningMessage(
-    "Clear all operation history?",
+    "Clear all operation history? Undo snapshots are removed as well.",
     { modal: true },
     "Clear",
     "Cancel"
@@ -427,11 +1817,13 @@ function getOperationDetailsHTML(operation: any): string {
       </style>
     </head>
     <body>
-      <h1>${operation.type.toUpperCase()} - ${operation.status.toUpperCase()}</h1>
+      <h1>${escapeHtml(
+        `${operation.type} - ${operation.status}`.toUpperCase()
+      )}</h1>
       
       <div class="section">
         <div class="label">Operation ID:</div>
-        <div>${operation.id}</div>
+        <div>${escapeHtml(operation.id)}</div>
       </div>
 
       <div class="section">
@@ -439,9 +1831,20 @@ function getOperationDetailsHTML(operation: any): string {
         <div>${new Date(operation.timestamp).toLocaleString()}</div>
       </div>
 
+      ${
+        operation.duration !== undefined
+          ? `
+      <div class="section">
+        <div class="label">Duration:</div>
+        <div>${operation.duration} ms</div>
+      </div>
+      `
+          : ""
+      }
+
       <div class="section">
         <div class="label">Details:</div>
-        <pre>${JSON.stringify(operation.details, null, 2)}</pre>
+        <pre>${escapeHtml(JSON.stringify(operation.details, null, 2))}</pre>
       </div>
 
       ${
@@ -449,7 +1852,7 @@ function getOperationDetailsHTML(operation: any): string {
           ? `
       <div class="section">
         <div class="label">Result:</div>
-        <pre>${JSON.stringify(operation.result, null, 2)}</pre>
+        <pre>${escapeHtml(JSON.stringify(operation.result, null, 2))}</pre>
       </div>
       `
           : ""
@@ -460,7 +1863,7 @@ function getOperationDetailsHTML(operation: any): string {
           ? `
       <div class="section error">
         <div class="label">Error:</div>
-        <pre>${operation.error}</pre>
+        <pre>${escapeHtml(operation.error)}</pre>
       </div>
       `
           : ""
@@ -513,6 +1916,39 @@ export async function activate(context: vscode.ExtensionContext) {
     );
   }
 
+  // Hide the commands and tools of disabled operation families
+  updateOperationContext();
+  context.subscriptions.push(
+    settingsManager.onDidChange(() => updateOperationContext())
+  );
+
+  // Initialize operation history persistence
+  historyStore = new OperationHistoryStore(
+    context.workspaceState,
+    settingsManager
+  );
+
+  // Snapshots that let batch, copy and sync operations be undone
+  undoJournal = new UndoJournal(
+    path.join((context.storageUri ?? context.globalStorageUri).fsPath, "undo"),
+    settingsManager
+  );
+  await undoJournal.load().catch((error) => {
+    outputChannel.appendLine(`Failed to load undo journal: ${error}`);
+  });
+
+  // JSONL record of every tool call, honoring audit.enableAuditLog
+  auditLogger = new AuditLogger(
+    path.join((context.storageUri ?? context.globalStorageUri).fsPath, "audit"),
+    settingsManager
+  );
+
+  // Confirmation state for destructive language model tools
+  toolConfirmation = new ToolConfirmationManager(
+    context.workspaceState,
+    settingsManager
+  );
+
   // Check if we're running in test mode
   const isTestMode =
     process.env.VSCODE_TEST_MODE === "true" ||
@@ -526,47 +1962,13 @@ export async function activate(context: vscode.ExtensionContext) {
   }
 
   // Register chat participant for Copilot integration
+  const chatParticipant = new FilesystemChatParticipant(errorHandler);
   const participant = vscode.chat.createChatParticipant(
     "mcp-acs-filesystem.participant",
-    async (request, context, stream, token) => {
-      const prompt = request.prompt;
-      stream.markdown(`Processing: ${prompt}\n\n`);
-
-      if (
-        prompt.includes("batch") ||
-        prompt.includes("copy") ||
-        prompt.includes("move")
-      ) {
-        stream.markdown(
-          "Use batch operations for efficient file manipulation..."
-        );
-      } else if (prompt.includes("watch") || prompt.includes("monitor")) {
-        stream.markdown(
-          "Directory watching allows real-time file system monitoring..."
-        );
-      } else if (prompt.includes("search") || prompt.includes("find")) {
-        stream.markdown(
-          "File search supports name, content, and metadata queries..."
-        );
-      } else if (prompt.includes("checksum") || prompt.includes("hash")) {
-        stream.markdown(
-          "Checksum computation supports MD5, SHA-1, SHA-256, and SHA-512..."
-        );
-      } else if (
-        prompt.includes("disk") ||
-        prompt.includes("usage") ||
-        prompt.includes("size")
-      ) {
-        stream.markdown(
-          "Disk usage analysis provides detailed size breakdowns..."
-        );
-      } else {
-        stream.markdown(
-          "Available operations:\n- Batch file operations\n- Directory watching\n- File search\n- Checksum computation\n- Disk usage analysis"
-        );
-      }
-    }
+    (request, context, stream, token) =>
+      chatParticipant.handleRequest(request, context, stream, token)
   );
+  participant.iconPath = new vscode.ThemeIcon("files");
 
   context.subscriptions.push(participant);
 
@@ -592,9 +1994,17 @@ export async function activate(context: vscode.ExtensionContext) {
                 },
               },
               atomic: { type: "boolean" },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "Return the planned changes (files to create, overwrite, delete or skip) without modifying anything",
+              },
             },
             required: ["operations"],
           },
+          prepareInvocation: (
+            options: vscode.LanguageModelToolInvocationPrepareOptions<any>
+          ) => toolConfirmation.prepare("fs_batch_operations", options.input),
           invoke: async (
             options: vscode.LanguageModelToolInvocationOptions<any>,
             token: vscode.CancellationToken
@@ -866,9 +2276,17 @@ export async function activate(context: vscode.ExtensionContext) {
               destination: { type: "string" },
               preserveMetadata: { type: "boolean" },
               exclusions: { type: "array", items: { type: "string" } },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "Return the planned changes (files to create, overwrite, delete or skip) without modifying anything",
+              },
             },
             required: ["source", "destination"],
           },
+          prepareInvocation: (
+            options: vscode.LanguageModelToolInvocationPrepareOptions<any>
+          ) => toolConfirmation.prepare("fs_copy_directory", options.input),
           invoke: async (
             options: vscode.LanguageModelToolInvocationOptions<any>,
             token: vscode.CancellationToken
@@ -893,9 +2311,17 @@ export async function activate(context: vscode.ExtensionContext) {
               source: { type: "string" },
               destination: { type: "string" },
               exclusions: { type: "array", items: { type: "string" } },
+              dryRun: {
+                type: "boolean",
+                description:
+                  "Return the planned changes (files to create, overwrite, delete or skip) without modifying anything",
+              },
             },
             required: ["source", "destination"],
           },
+          prepareInvocation: (
+            options: vscode.LanguageModelToolInvocationPrepareOptions<any>
+          ) => toolConfirmation.prepare("fs_sync_directory", options.input),
           invoke: async (
             options: vscode.LanguageModelToolInvocationOptions<any>,
             token: vscode.CancellationToken
@@ -913,7 +2339,19 @@ export async function activate(context: vscode.ExtensionContext) {
     ];
 
     for (const { name, tool } of tools) {
-      context.subscriptions.push(vscode.lm.registerTool(name, tool));
+      context.subscriptions.push(
+        vscode.lm.registerTool(name, {
+          ...tool,
+          // Attribute the tool's MCP calls to @filesystem or another agent
+          invoke: (options: any, token: vscode.CancellationToken) =>
+            runWithAuditCaller(
+              chatParticipant.isOwnInvocation(name, options.input)
+                ? "chat"
+                : "lm-tool",
+              () => tool.invoke(options, token)
+            ),
+        })
+      );
     }
     outputChannel.appendLine(`Registered ${tools.length} language model tools`);
   } catch (error) {
@@ -932,6 +2370,10 @@ export async function activate(context: vscode.ExtensionContext) {
         settingsManager,
         errorHandler
       );
+      mcpClient.setHistoryStore(historyStore);
+      mcpClient.setUndoJournal(undoJournal);
+      mcpClient.setAuditLogger(auditLogger);
+      applyServerConfig(mcpClient);
       await mcpClient.start();
       outputChannel.appendLine("MCP Filesystem client started successfully");
     } catch (error: any) {
@@ -955,6 +2397,7 @@ export async function activate(context: vscode.ExtensionContext) {
     try {
       languageServer = new FilesystemLanguageServer(context, outputChannel);
       await languageServer.start();
+      languageServer.setMCPClient(mcpClient);
       outputChannel.appendLine(
         "Filesystem Language Server started successfully"
       );
@@ -982,12 +2425,18 @@ export async function activate(context: vscode.ExtensionContext) {
     settingsManager,
     errorHandler
   );
+  watchSessionMonitor = new WatchSessionMonitor();
+  searchResultsProvider = new SearchResultsTreeDataProvider(errorHandler);
   context.subscriptions.push(operationsTreeProvider);
+  context.subscriptions.push(searchResultsProvider);
   context.subscriptions.push(securityTreeProvider);
+  context.subscriptions.push(watchSessionMonitor);
 
   // Set MCP client in providers
   if (mcpClient) {
     operationsTreeProvider.setMCPClient(mcpClient);
+    securityTreeProvider.setMCPClient(mcpClient);
+    watchSessionMonitor.setMCPClient(mcpClient);
   }
 
   // Register tree views
@@ -1003,6 +2452,10 @@ export async function activate(context: vscode.ExtensionContext) {
       securityTreeProvider
     )
   );
+  searchResultsView = vscode.window.createTreeView("mcp-filesystem-search", {
+    treeDataProvider: searchResultsProvider,
+  });
+  context.subscriptions.push(searchResultsView);
 
   // Start auto-refresh for operations view
   startAutoRefresh();
@@ -1019,8 +2472,19 @@ export async function activate(context: vscode.ExtensionContext) {
 
         securityTreeProvider.refresh();
 
+        // The server only reads its configuration when it starts
+        const boundariesChanged =
+          e.affectsConfiguration("mcp-filesystem.security") ||
+          e.affectsConfiguration("mcp-filesystem.resources");
+        if (boundariesChanged && mcpClient) {
+          applyServerConfig(mcpClient);
+        }
+
         // Restart server if needed
-        if (e.affectsConfiguration("mcp-filesystem.server")) {
+        if (
+          e.affectsConfiguration("mcp-filesystem.server") ||
+          boundariesChanged
+        ) {
           showRestartNotification();
         }
 
@@ -1032,6 +2496,51 @@ export async function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // Each workspace folder has its own boundaries
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      // Policy files are read per folder
+      settingsManager?.reloadSettings();
+      if (mcpClient) {
+        applyServerConfig(mcpClient);
+      }
+      securityTreeProvider.refresh();
+    })
+  );
+
+  // Project policy files tighten the settings like a configuration change
+  const policyWatcher = vscode.workspace.createFileSystemWatcher(
+    "**/.mcprc{,.yaml,.yml}"
+  );
+  const reloadPolicyFiles = () => {
+    if (!settingsManager) {
+      return;
+    }
+    settingsManager.reloadSettings();
+    outputChannel.appendLine("Settings reloaded after a policy file changed");
+
+    const validation = settingsManager.validateSettings(
+      settingsManager.getSettings()
+    );
+    if (!validation.valid) {
+      const errorMsg = `Invalid configuration: ${validation.errors.join(", ")}`;
+      outputChannel.appendLine(errorMsg);
+      vscode.window.showErrorMessage(`MCP Filesystem: ${errorMsg}`);
+    }
+
+    securityTreeProvider.refresh();
+    if (mcpClient) {
+      applyServerConfig(mcpClient);
+    }
+    showRestartNotification();
+  };
+  context.subscriptions.push(
+    policyWatcher,
+    policyWatcher.onDidCreate(reloadPolicyFiles),
+    policyWatcher.onDidChange(reloadPolicyFiles),
+    policyWatcher.onDidDelete(reloadPolicyFiles)
+  );
+
   // Register commands
   context.subscriptions.push(
     vscode.commands.registerCommand(
@@ -1045,8 +2554,8 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "mcp-filesystem.watchDirectory",
-      async () => {
-        await watchDirectory();
+      async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        await watchDirectory(uri, uris);
       }
     )
   );
@@ -1059,9 +2568,25 @@ export async function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
-      "mcp-filesystem.computeChecksum",
+      "mcp-filesystem.sortSearchResults",
       async () => {
-        await computeChecksum();
+        await sortSearchResults();
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("mcp-filesystem.clearSearchResults", () => {
+      searchResultsProvider.clear();
+      searchResultsView.description = undefined;
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-filesystem.computeChecksum",
+      async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        await computeChecksum(uri, uris);
       }
     )
   );
@@ -1069,8 +2594,8 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "mcp-filesystem.analyzeDiskUsage",
-      async () => {
-        await analyzeDiskUsage();
+      async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        await analyzeDiskUsage(uri, uris);
       }
     )
   );
@@ -1138,23 +2663,43 @@ export async function activate(context: vscode.ExtensionContext) {
     )
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand("mcp-filesystem.openAuditLog", async () => {
+      await openAuditLog();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-filesystem.testPathPolicy",
+      async (uri) => {
+        await testPathPolicy(uri);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-filesystem.undoOperation",
+      async (item) => {
+        await undoOperation(item);
+      }
+    )
+  );
+
   // Register additional commands for MCP operations
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "mcp-filesystem.getWatchEvents",
-      async () => {
-        vscode.window.showInformationMessage(
-          "Get watch events - Use Copilot with @filesystem to retrieve watch events"
-        );
+      async (item) => {
+        await getWatchEvents(item);
       }
     )
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand("mcp-filesystem.stopWatch", async () => {
-      vscode.window.showInformationMessage(
-        "Stop watch - Use Copilot with @filesystem to stop watching"
-      );
+      await stopWatch();
     })
   );
 
@@ -1169,10 +2714,26 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "mcp-filesystem.verifyChecksum",
-      async () => {
-        vscode.window.showInformationMessage(
-          "Verify checksum - Use Copilot with @filesystem to verify checksums"
-        );
+      async (uri?: vscode.Uri) => {
+        await verifyChecksum(uri);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-filesystem.createChecksumManifest",
+      async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        await createChecksumManifest(uri, uris);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-filesystem.verifyChecksumManifest",
+      async (uri?: vscode.Uri) => {
+        await verifyChecksumManifest(uri);
       }
     )
   );
@@ -1180,10 +2741,8 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "mcp-filesystem.copyDirectory",
-      async () => {
-        vscode.window.showInformationMessage(
-          "Copy directory - Use Copilot with @filesystem to copy directories"
-        );
+      async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        await copyDirectory(uri, uris);
       }
     )
   );
@@ -1191,10 +2750,8 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "mcp-filesystem.syncDirectory",
-      async () => {
-        vscode.window.showInformationMessage(
-          "Sync directory - Use Copilot with @filesystem to sync directories"
-        );
+      async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        await syncDirectory(uri, uris);
       }
     )
   );
@@ -1202,9 +2759,28 @@ export async function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "mcp-filesystem.createSymlink",
+      async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+        await createSymlink(uri, uris);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-filesystem.clearOperations",
       async () => {
+        await clearOperationHistory();
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      ToolConfirmationManager.allowCommand,
+      async (toolName: string) => {
+        await toolConfirmation.allow(toolName);
         vscode.window.showInformationMessage(
-          "Create symlink - Use Copilot with @filesystem to create symbolic links"
+          `${toolName} will run without confirmation in this workspace`
         );
       }
     )
@@ -1212,9 +2788,12 @@ export async function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
-      "mcp-filesystem.clearOperations",
+      "mcp-filesystem.resetToolConfirmations",
       async () => {
-        await clearOperationHistory();
+        await toolConfirmation.reset();
+        vscode.window.showInformationMessage(
+          "Destructive tools will ask for confirmation again"
+        );
       }
     )
   );
@@ -0,0 +1,657 @@
+import * as path from "path";
+import * as ts from "typescript";
+
+/**
+ * Finds filesystem calls in JavaScript and TypeScript source with the
+ * TypeScript compiler API, so the language server only reports on strings
+ * that are actually passed to `fs`, `fs/promises` or `fs-extra`.
+ *
+ * Path arguments built from constants are resolved: string literals,
+ * templates and `+` of constants, `const` declarations, `__dirname`,
+ * `__filename`, `path.join` and `path.resolve`.
+ */
+
+/**
+ * Module a filesystem call goes through
+ */
+export type FsModule = "fs" | "fs/promises" | "fs-extra";
+
+/**
+ * A path argument of a filesystem call
+ */
+export interface FsPathArgument {
+  /** Offsets of the argument expression */
+  start: number;
+  end: number;
+  /** The path, when the argument is built from constants */
+  value?: string;
+  /** Whether the argument is a plain string literal */
+  isLiteral: boolean;
+}
+
+/**
+ * A call to a filesystem function
+ */
+export interface FsCall {
+  module: FsModule;
+  /** Function name, e.g. `readFileSync` */
+  method: string;
+  /** Callee as written, e.g. `fs.promises.readFile` */
+  callee: string;
+  /** Offsets of the call expression */
+  start: number;
+  end: number;
+  paths: FsPathArgument[];
+}
+
+/**
+ * Name a module namespace is reached by
+ */
+export interface NamespaceBinding {
+  name: string;
+  /** False when the module still has to be imported as `name` */
+  imported: boolean;
+}
+
+/**
+ * The string literal at a position
+ */
+export interface PathLiteral {
+  /** Offsets of the literal's contents, without the quotes */
+  start: number;
+  end: number;
+  /** The contents as written */
+  value: string;
+}
+
+const FS_MODULES: Record<string, FsModule> = {
+  fs: "fs",
+  "node:fs": "fs",
+  "fs/promises": "fs/promises",
+  "node:fs/promises": "fs/promises",
+  "fs-extra": "fs-extra",
+};
+
+const PATH_MODULES = new Set(["path", "node:path"]);
+
+/**
+ * Indices of the path arguments of each function, without the `Sync` suffix
+ */
+const PATH_ARGUMENTS: Record<string, number[]> = {
+  access: [0],
+  appendFile: [0],
+  chmod: [0],
+  chown: [0],
+  createReadStream: [0],
+  createWriteStream: [0],
+  exists: [0],
+  lchmod: [0],
+  lchown: [0],
+  lstat: [0],
+  lutimes: [0],
+  mkdir: [0],
+  mkdtemp: [0],
+  open: [0],
+  opendir: [0],
+  readdir: [0],
+  readFile: [0],
+  readlink: [0],
+  realpath: [0],
+  rm: [0],
+  rmdir: [0],
+  stat: [0],
+  statfs: [0],
+  truncate: [0],
+  unlink: [0],
+  unwatchFile: [0],
+  utimes: [0],
+  watch: [0],
+  watchFile: [0],
+  writeFile: [0],
+  copyFile: [0, 1],
+  cp: [0, 1],
+  link: [0, 1],
+  rename: [0, 1],
+  symlink: [0, 1],
+};
+
+/**
+ * Functions only fs-extra has
+ */
+const FS_EXTRA_PATH_ARGUMENTS: Record<string, number[]> = {
+  emptyDir: [0],
+  ensureDir: [0],
+  ensureFile: [0],
+  mkdirp: [0],
+  mkdirs: [0],
+  outputFile: [0],
+  outputJson: [0],
+  outputJSON: [0],
+  pathExists: [0],
+  readJson: [0],
+  readJSON: [0],
+  remove: [0],
+  writeJson: [0],
+  writeJSON: [0],
+  copy: [0, 1],
+  createLink: [0, 1],
+  createSymlink: [0, 1],
+  ensureLink: [0, 1],
+  ensureSymlink: [0, 1],
+  move: [0, 1],
+};
+
+/**
+ * Names the file binds to filesystem and path functions
+ */
+interface Bindings {
+  fsNamespaces: Map<string, FsModule>;
+  fsFunctions: Map<string, { module: FsModule; method: string }>;
+  pathNamespaces: Set<string>;
+  pathFunctions: Map<string, string>;
+  /** `const` initializers; undefined when a name is declared twice */
+  constants: Map<string, ts.Expression | undefined>;
+  declared: Set<string>;
+}
+
+/**
+ * Parse a document for analysis
+ * @param languageId - The document's language, to pick JSX parsing
+ */
+export function parseSource(
+  text: string,
+  fileName: string,
+  languageId?: string
+): ts.SourceFile {
+  const scriptKind =
+    languageId === "typescriptreact"
+      ? ts.ScriptKind.TSX
+      : languageId === "javascriptreact"
+      ? ts.ScriptKind.JSX
+      : languageId === "javascript"
+      ? ts.ScriptKind.JS
+      : ts.ScriptKind.TS;
+  return ts.createSourceFile(
+    fileName,
+    text,
+    ts.ScriptTarget.Latest,
+    true,
+    scriptKind
+  );
+}
+
+/**
+ * Find the filesystem calls in a source file
+ * @param source - Parsed with the document's absolute path as its file name,
+ * so `__dirname` can be resolved
+ */
+export function analyzeFsCalls(source: ts.SourceFile): FsCall[] {
+  const bindings = collectBindings(source);
+  const calls: FsCall[] = [];
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      const call = resolveFsCall(node, bindings, source);
+      if (call) {
+        calls.push(call);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return calls;
+}
+
+/**
+ * Find the string literal whose contents contain an offset
+ * Module specifiers are skipped; completing those is the TypeScript
+ * server's job
+ */
+export function findPathLiteral(
+  source: ts.SourceFile,
+  offset: number
+): PathLiteral | undefined {
+  let found: ts.StringLiteralLike | undefined;
+  const visit = (node: ts.Node) => {
+    if (node.getStart(source) >= offset || node.getEnd() < offset) {
+      return;
+    }
+    if (ts.isStringLiteralLike(node)) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(source, visit);
+
+  if (!found || isModuleSpecifier(found)) {
+    return undefined;
+  }
+  const start = found.getStart(source) + 1;
+  const quote = source.text[start - 1];
+  // Unterminated literals run to the end of the line
+  const end =
+    found.getEnd() > start && source.text[found.getEnd() - 1] === quote
+      ? found.getEnd() - 1
+      : found.getEnd();
+  return offset <= end
+    ? { start, end, value: source.text.slice(start, end) }
+    : undefined;
+}
+
+function isModuleSpecifier(node: ts.StringLiteralLike): boolean {
+  const parent = node.parent;
+  return (
+    ts.isImportDeclaration(parent) ||
+    ts.isExportDeclaration(parent) ||
+    ts.isExternalModuleReference(parent) ||
+    (ts.isCallExpression(parent) &&
+      (parent.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(parent.expression) &&
+          parent.expression.text === "require")))
+  );
+}
+
+/**
+ * Get the name a file reaches the `fs` or `path` namespace by
+ * @returns The imported name, or a free name to import the module as
+ */
+export function getNamespaceBinding(
+  source: ts.SourceFile,
+  module: "fs" | "path"
+): NamespaceBinding {
+  const bindings = collectBindings(source, false);
+  const names =
+    module === "path"
+      ? [...bindings.pathNamespaces]
+      : [...bindings.fsNamespaces]
+          .filter(([, target]) => target === "fs")
+          .map(([name]) => name);
+  if (names.length > 0) {
+    return { name: names[0], imported: true };
+  }
+
+  let name: string = module;
+  for (let i = 2; bindings.declared.has(name); i++) {
+    name = `${module}${i}`;
+  }
+  return { name, imported: false };
+}
+
+function resolveFsCall(
+  node: ts.CallExpression,
+  bindings: Bindings,
+  source: ts.SourceFile
+): FsCall | undefined {
+  const target = resolveCallee(node.expression, bindings);
+  if (!target) {
+    return undefined;
+  }
+
+  const indices = getPathArgumentIndices(target.module, target.method);
+  if (!indices) {
+    return undefined;
+  }
+
+  const paths = indices
+    .filter((index) => index < node.arguments.length)
+    .map((index) => {
+      const argument = node.arguments[index];
+      return {
+        start: argument.getStart(source),
+        end: argument.getEnd(),
+        value: evaluatePath(argument, bindings, source, new Set()),
+        isLiteral:
+          ts.isStringLiteral(argument) ||
+          ts.isNoSubstitutionTemplateLiteral(argument),
+      };
+    });
+
+  return {
+    ...target,
+    callee: node.expression.getText(source),
+    start: node.getStart(source),
+    end: node.getEnd(),
+    paths,
+  };
+}
+
+function resolveCallee(
+  callee: ts.Expression,
+  bindings: Bindings
+): { module: FsModule; method: string } | undefined {
+  if (ts.isIdentifier(callee)) {
+    return bindings.fsFunctions.get(callee.text);
+  }
+  if (!ts.isPropertyAccessExpression(callee)) {
+    return undefined;
+  }
+
+  const module = resolveFsNamespace(callee.expression, bindings);
+  return module ? { module, method: callee.name.text } : undefined;
+}
+
+/**
+ * Resolve `fs`, `fsp` or `fs.promises` to the module it refers to
+ */
+function resolveFsNamespace(
+  expression: ts.Expression,
+  bindings: Bindings
+): FsModule | undefined {
+  if (ts.isIdentifier(expression)) {
+    return bindings.fsNamespaces.get(expression.text);
+  }
+  if (
+    ts.isPropertyAccessExpression(expression) &&
+    expression.name.text === "promises" &&
+    resolveFsNamespace(expression.expression, bindings) === "fs"
+  ) {
+    return "fs/promises";
+  }
+  return undefined;
+}
+
+function getPathArgumentIndices(
+  module: FsModule,
+  method: string
+): number[] | undefined {
+  const base =
+    module !== "fs/promises" && method.endsWith("Sync")
+      ? method.slice(0, -"Sync".length)
+      : method;
+  if (Object.prototype.hasOwnProperty.call(PATH_ARGUMENTS, base)) {
+    return PATH_ARGUMENTS[base];
+  }
+  if (
+    module === "fs-extra" &&
+    Object.prototype.hasOwnProperty.call(FS_EXTRA_PATH_ARGUMENTS, base)
+  ) {
+    return FS_EXTRA_PATH_ARGUMENTS[base];
+  }
+  return undefined;
+}
+
+/**
+ * Evaluate a path argument built from constants
+ * @returns The path, or undefined if it depends on runtime values
+ */
+function evaluatePath(
+  node: ts.Expression,
+  bindings: Bindings,
+  source: ts.SourceFile,
+  seen: Set<string>
+): string | undefined {
+  const evaluate = (expression: ts.Expression) =>
+    evaluatePath(expression, bindings, source, seen);
+
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
+    return node.text;
+  }
+  if (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isNonNullExpression(node)
+  ) {
+    return evaluate(node.expression);
+  }
+  if (ts.isTemplateExpression(node)) {
+    let value = node.head.text;
+    for (const span of node.templateSpans) {
+      const part = evaluate(span.expression);
+      if (part === undefined) {
+        return undefined;
+      }
+      value += part + span.literal.text;
+    }
+    return value;
+  }
+  if (
+    ts.isBinaryExpression(node) &&
+    node.operatorToken.kind === ts.SyntaxKind.PlusToken
+  ) {
+    const left = evaluate(node.left);
+    const right = left === undefined ? undefined : evaluate(node.right);
+    return left === undefined || right === undefined ? undefined : left + right;
+  }
+  if (ts.isIdentifier(node)) {
+    return evaluateIdentifier(node.text, bindings, source, seen);
+  }
+  if (ts.isCallExpression(node)) {
+    const fn = resolvePathFunction(node.expression, bindings);
+    if (!fn) {
+      return undefined;
+    }
+    const parts: string[] = [];
+    for (const argument of node.arguments) {
+      const part = evaluate(argument);
+      if (part === undefined) {
+        return undefined;
+      }
+      parts.push(part);
+    }
+    if (fn === "join") {
+      return path.join(...parts);
+    }
+    // Relative results of resolve depend on the process's cwd
+    return parts.some((part) => path.isAbsolute(part))
+      ? path.resolve(...parts)
+      : undefined;
+  }
+  return undefined;
+}
+
+function evaluateIdentifier(
+  name: string,
+  bindings: Bindings,
+  source: ts.SourceFile,
+  seen: Set<string>
+): string | undefined {
+  const isAbsoluteFile = path.isAbsolute(source.fileName);
+  if (name === "__dirname" && !bindings.declared.has(name)) {
+    return isAbsoluteFile ? path.dirname(source.fileName) : undefined;
+  }
+  if (name === "__filename" && !bindings.declared.has(name)) {
+    return isAbsoluteFile ? source.fileName : undefined;
+  }
+
+  const initializer = bindings.constants.get(name);
+  if (!initializer || seen.has(name)) {
+    return undefined;
+  }
+  seen.add(name);
+  const value = evaluatePath(initializer, bindings, source, seen);
+  seen.delete(name);
+  return value;
+}
+
+/**
+ * Resolve `path.join`, `path.resolve` or an imported `join` / `resolve`
+ */
+function resolvePathFunction(
+  callee: ts.Expression,
+  bindings: Bindings
+): string | undefined {
+  if (ts.isIdentifier(callee)) {
+    return bindings.pathFunctions.get(callee.text);
+  }
+  if (
+    ts.isPropertyAccessExpression(callee) &&
+    ts.isIdentifier(callee.expression) &&
+    bindings.pathNamespaces.has(callee.expression.text) &&
+    (callee.name.text === "join" || callee.name.text === "resolve")
+  ) {
+    return callee.name.text;
+  }
+  return undefined;
+}
+
+/**
+ * Collect the names bound to fs, path and constants anywhere in the file
+ * Scopes are not tracked; a name declared twice is not treated as constant
+ */
+function collectBindings(source: ts.SourceFile, withGlobals = true): Bindings {
+  const bindings: Bindings = {
+    fsNamespaces: new Map(),
+    fsFunctions: new Map(),
+    pathNamespaces: new Set(),
+    pathFunctions: new Map(),
+    constants: new Map(),
+    declared: new Set(),
+  };
+
+  const bindNamespace = (local: string, specifier: string) => {
+    if (PATH_MODULES.has(specifier)) {
+      bindings.pathNamespaces.add(local);
+    } else if (FS_MODULES[specifier]) {
+      bindings.fsNamespaces.set(local, FS_MODULES[specifier]);
+    }
+  };
+  const bindNamed = (local: string, imported: string, specifier: string) => {
+    const module = FS_MODULES[specifier];
+    if (PATH_MODULES.has(specifier)) {
+      if (imported === "join" || imported === "resolve") {
+        bindings.pathFunctions.set(local, imported);
+      } else if (imported === "default") {
+        bindings.pathNamespaces.add(local);
+      }
+    } else if (imported === "default") {
+      bindNamespace(local, specifier);
+    } else if (module === "fs" && imported === "promises") {
+      bindings.fsNamespaces.set(local, "fs/promises");
+    } else if (module) {
+      bindings.fsFunctions.set(local, { module, method: imported });
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isImportDeclaration(node) &&
+      ts.isStringLiteral(node.moduleSpecifier)
+    ) {
+      const specifier = node.moduleSpecifier.text;
+      const clause = node.importClause;
+      if (clause?.name) {
+        bindings.declared.add(clause.name.text);
+        bindNamespace(clause.name.text, specifier);
+      }
+      const named = clause?.namedBindings;
+      if (named && ts.isNamespaceImport(named)) {
+        bindings.declared.add(named.name.text);
+        bindNamespace(named.name.text, specifier);
+      } else if (named) {
+        for (const element of named.elements) {
+          bindings.declared.add(element.name.text);
+          bindNamed(
+            element.name.text,
+            (element.propertyName ?? element.name).text,
+            specifier
+          );
+        }
+      }
+    } else if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference) &&
+      ts.isStringLiteral(node.moduleReference.expression)
+    ) {
+      bindings.declared.add(node.name.text);
+      bindNamespace(node.name.text, node.moduleReference.expression.text);
+    } else if (ts.isVariableDeclaration(node)) {
+      collectVariable(node, bindings, bindNamespace, bindNamed);
+    } else if (
+      (ts.isFunctionDeclaration(node) ||
+        ts.isClassDeclaration(node) ||
+        ts.isParameter(node)) &&
+      node.name &&
+      ts.isIdentifier(node.name)
+    ) {
+      bindings.declared.add(node.name.text);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  // Snippets often use `fs` and `path` without importing them
+  if (!withGlobals) {
+    return bindings;
+  }
+  if (!bindings.declared.has("fs")) {
+    bindings.fsNamespaces.set("fs", "fs");
+  }
+  if (!bindings.declared.has("path")) {
+    bindings.pathNamespaces.add("path");
+  }
+  return bindings;
+}
+
+function collectVariable(
+  node: ts.VariableDeclaration,
+  bindings: Bindings,
+  bindNamespace: (local: string, specifier: string) => void,
+  bindNamed: (local: string, imported: string, specifier: string) => void
+): void {
+  const initializer = node.initializer;
+  const specifier = initializer && getRequiredModule(initializer);
+
+  if (ts.isObjectBindingPattern(node.name)) {
+    for (const element of node.name.elements) {
+      if (!ts.isIdentifier(element.name)) {
+        continue;
+      }
+      bindings.declared.add(element.name.text);
+      const imported =
+        element.propertyName && ts.isIdentifier(element.propertyName)
+          ? element.propertyName.text
+          : element.name.text;
+      if (specifier) {
+        bindNamed(element.name.text, imported, specifier);
+      }
+    }
+    return;
+  }
+  if (!ts.isIdentifier(node.name)) {
+    return;
+  }
+
+  const name = node.name.text;
+  const redeclared = bindings.declared.has(name);
+  bindings.declared.add(name);
+  if (specifier) {
+    bindNamespace(name, specifier);
+  } else if (
+    initializer &&
+    ts.isPropertyAccessExpression(initializer) &&
+    initializer.name.text === "promises" &&
+    resolveFsNamespace(initializer.expression, bindings) === "fs"
+  ) {
+    bindings.fsNamespaces.set(name, "fs/promises");
+  } else if (
+    initializer &&
+    ts.getCombinedNodeFlags(node) & ts.NodeFlags.Const
+  ) {
+    bindings.constants.set(name, redeclared ? undefined : initializer);
+  }
+}
+
+/**
+ * Get the module of `require("x")` or `require("x").promises`
+ */
+function getRequiredModule(node: ts.Expression): string | undefined {
+  if (
+    ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "require" &&
+    node.arguments.length === 1 &&
+    ts.isStringLiteral(node.arguments[0])
+  ) {
+    return node.arguments[0].text;
+  }
+  if (
+    ts.isPropertyAccessExpression(node) &&
+    node.name.text === "promises" &&
+    FS_MODULES[getRequiredModule(node.expression) ?? ""] === "fs"
+  ) {
+    return "fs/promises";
+  }
+  return undefined;
+}
@@ -0,0 +1,587 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as ts from "typescript";
+import {
+  FsCall,
+  FsModule,
+  FsPathArgument,
+  getNamespaceBinding,
+} from "./fsCallAnalyzer";
+
+/**
+ * Edits behind the language server's quick fixes
+ * Computed on the parsed document and returned as offsets, so the server
+ * only has to convert them to ranges
+ */
+
+/**
+ * Replacement of a span of the document
+ */
+export interface SourceEdit {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+/**
+ * A quick fix and the edits that apply it
+ */
+export interface QuickFix {
+  title: string;
+  edits: SourceEdit[];
+}
+
+/**
+ * fs functions that `fs.promises` has an equivalent for
+ */
+const PROMISE_METHODS = new Set([
+  "access",
+  "appendFile",
+  "chmod",
+  "chown",
+  "copyFile",
+  "cp",
+  "lchown",
+  "link",
+  "lstat",
+  "lutimes",
+  "mkdir",
+  "mkdtemp",
+  "open",
+  "opendir",
+  "readdir",
+  "readFile",
+  "readlink",
+  "realpath",
+  "rename",
+  "rm",
+  "rmdir",
+  "stat",
+  "statfs",
+  "symlink",
+  "truncate",
+  "unlink",
+  "utimes",
+  "writeFile",
+]);
+
+/**
+ * Find the workspace file an absolute path outside the workspace most
+ * likely meant: the longest trailing part of it that exists under the root
+ */
+export function findWorkspaceTarget(
+  target: string,
+  root: string
+): string | undefined {
+  const segments = target.split(/[\\/]+/).filter((segment) => segment);
+  for (let i = 0; i < segments.length; i++) {
+    const candidate = path.join(root, ...segments.slice(i));
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Rewrite a path outside the workspace to the workspace file it refers to,
+ * either relative to the root (the working directory of workspace tools) or
+ * to the document with `path.join(__dirname, ...)`
+ */
+export function getWorkspacePathFixes(
+  source: ts.SourceFile,
+  argument: FsPathArgument,
+  root: string
+): QuickFix[] {
+  const target =
+    argument.value !== undefined
+      ? findWorkspaceTarget(argument.value, root)
+      : undefined;
+  if (!target) {
+    return [];
+  }
+
+  const quote = getQuote(source, argument);
+  const fixes: QuickFix[] = [
+    {
+      title: "Use workspace-relative path",
+      edits: [
+        {
+          start: argument.start,
+          end: argument.end,
+          newText: quote(toPosix(path.relative(root, target)) || "."),
+        },
+      ],
+    },
+  ];
+
+  // __dirname only exists in CommonJS files on disk
+  if (path.isAbsolute(source.fileName) && !/\.m[jt]s$/.test(source.fileName)) {
+    const fromFile = path.relative(path.dirname(source.fileName), target);
+    const pathModule = getNamespaceBinding(source, "path");
+    const edits: SourceEdit[] = [
+      {
+        start: argument.start,
+        end: argument.end,
+        newText: `${pathModule.name}.join(__dirname, ${quote(
+          toPosix(fromFile) || "."
+        )})`,
+      },
+    ];
+    if (!pathModule.imported) {
+      edits.unshift(getImportEdit(source, pathModule.name, "path"));
+    }
+    fixes.push({ title: "Use path relative to this file", edits });
+  }
+
+  return fixes;
+}
+
+/**
+ * Remove the statement a call is made in, when the call is all it does
+ */
+export function getRemoveCallFix(
+  source: ts.SourceFile,
+  call: FsCall
+): QuickFix | undefined {
+  let node: ts.Node | undefined = findCallNode(source, call);
+  while (
+    node &&
+    (ts.isAwaitExpression(node.parent) ||
+      ts.isVoidExpression(node.parent) ||
+      ts.isParenthesizedExpression(node.parent))
+  ) {
+    node = node.parent;
+  }
+
+  const statement = node?.parent;
+  if (
+    !statement ||
+    !ts.isExpressionStatement(statement) ||
+    !(
+      ts.isBlock(statement.parent) ||
+      ts.isSourceFile(statement.parent) ||
+      ts.isModuleBlock(statement.parent) ||
+      ts.isCaseOrDefaultClause(statement.parent)
+    )
+  ) {
+    return undefined;
+  }
+
+  return {
+    title: "Remove blocked path reference",
+    edits: [getRemoveLinesEdit(source, statement)],
+  };
+}
+
+/**
+ * Replace a sync call with the awaited `fs.promises` equivalent
+ */
+export function getAsyncCallFix(
+  source: ts.SourceFile,
+  call: FsCall
+): QuickFix | undefined {
+  const edits = getAsyncConversionEdits(source, [call]);
+  return edits && { title: "Convert to async operation", edits };
+}
+
+/**
+ * Convert every sync call in the file that can be converted
+ * @returns The fix, or undefined when fewer than two calls can be converted
+ */
+export function getAsyncFileFix(
+  source: ts.SourceFile,
+  calls: FsCall[]
+): QuickFix | undefined {
+  const convertible = calls.filter((call) => planAsyncCall(source, call));
+  const edits =
+    convertible.length > 1
+      ? getAsyncConversionEdits(source, convertible)
+      : undefined;
+  return (
+    edits && {
+      title: "Convert all sync filesystem calls in file to async",
+      edits,
+    }
+  );
+}
+
+/**
+ * A sync call and the function it has to be awaited in
+ */
+interface AsyncCall {
+  node: ts.CallExpression;
+  module: FsModule;
+  /** Name of the `fs.promises` equivalent */
+  method: string;
+  fn: ts.SignatureDeclaration;
+}
+
+/**
+ * Await each call's promise equivalent, mark the functions they are made in
+ * async and import fs when the file uses it without an import
+ * Calls that cannot be converted safely are left alone
+ */
+function getAsyncConversionEdits(
+  source: ts.SourceFile,
+  calls: FsCall[]
+): SourceEdit[] | undefined {
+  const planned = calls
+    .map((call) => planAsyncCall(source, call))
+    .filter((call): call is AsyncCall => !!call);
+  if (planned.length === 0) {
+    return undefined;
+  }
+
+  const fsModule = getNamespaceBinding(source, "fs");
+  const edits: SourceEdit[] = [];
+  const marked = new Set<ts.SignatureDeclaration>();
+  let importFs = false;
+
+  for (const { node, module, method, fn } of planned) {
+    const expression = node.expression;
+    let callee: string;
+    if (
+      ts.isPropertyAccessExpression(expression) &&
+      !(
+        module === "fs" &&
+        ts.isIdentifier(expression.expression) &&
+        !fsModule.imported
+      )
+    ) {
+      const namespace = expression.expression.getText(source);
+      // fs-extra returns a promise when no callback is passed
+      callee =
+        module === "fs-extra"
+          ? `${namespace}.${method}`
+          : `${namespace}.promises.${method}`;
+    } else {
+      callee = `${fsModule.name}.promises.${method}`;
+      importFs = !fsModule.imported;
+    }
+
+    const parent = node.parent;
+    const needsParens =
+      (ts.isPropertyAccessExpression(parent) ||
+        ts.isElementAccessExpression(parent) ||
+        ts.isCallExpression(parent)) &&
+      parent.expression === node;
+    edits.push({
+      start: expression.getStart(source),
+      end: expression.getEnd(),
+      newText: `${needsParens ? "(" : ""}await ${callee}`,
+    });
+    if (needsParens) {
+      edits.push({ start: node.getEnd(), end: node.getEnd(), newText: ")" });
+    }
+
+    if (!isAsyncFunction(fn) && !marked.has(fn)) {
+      marked.add(fn);
+      edits.push(...getMarkAsyncEdits(source, fn));
+    }
+  }
+
+  if (importFs) {
+    // Goes first so it stays above an `async` inserted at the same offset
+    edits.unshift(getImportEdit(source, fsModule.name, "fs"));
+  }
+  return edits;
+}
+
+function planAsyncCall(
+  source: ts.SourceFile,
+  call: FsCall
+): AsyncCall | undefined {
+  const method = call.method.replace(/Sync$/, "");
+  if (
+    call.module === "fs/promises" ||
+    method === call.method ||
+    !PROMISE_METHODS.has(method)
+  ) {
+    return undefined;
+  }
+
+  const node = findCallNode(source, call);
+  const fn = node && ts.findAncestor(node.parent, ts.isFunctionLike);
+  // await is not allowed in parameter defaults
+  const body =
+    fn && "body" in fn ? (fn.body as ts.Node | undefined) : undefined;
+  if (
+    !node ||
+    !fn ||
+    !body ||
+    node.getStart(source) < body.getStart(source) ||
+    !(isAsyncFunction(fn) || canMarkAsync(source, fn))
+  ) {
+    return undefined;
+  }
+  return { node, module: call.module, method, fn };
+}
+
+/**
+ * A function can be made async without breaking its callers when it can
+ * be async, returns no value and every caller already awaits it
+ * Only named functions and variables that are not exported qualify: the
+ * callers of methods, callbacks and exports cannot all be found
+ */
+function canMarkAsync(
+  source: ts.SourceFile,
+  fn: ts.SignatureDeclaration
+): boolean {
+  if (
+    !(
+      ts.isFunctionDeclaration(fn) ||
+      ts.isFunctionExpression(fn) ||
+      ts.isArrowFunction(fn)
+    ) ||
+    !fn.body ||
+    !ts.isBlock(fn.body) ||
+    (!ts.isArrowFunction(fn) && fn.asteriskToken) ||
+    returnsValue(fn.body)
+  ) {
+    return false;
+  }
+
+  const declaration = ts.isFunctionDeclaration(fn)
+    ? fn
+    : ts.isVariableDeclaration(fn.parent) && fn.parent.initializer === fn
+    ? fn.parent
+    : undefined;
+  const name = declaration?.name;
+  if (
+    !declaration ||
+    !name ||
+    !ts.isIdentifier(name) ||
+    ts.getCombinedModifierFlags(declaration) &
+      (ts.ModifierFlags.Export | ts.ModifierFlags.Default)
+  ) {
+    return false;
+  }
+  return findReferences(source, name).every(
+    (reference) =>
+      isWithin(reference, fn) ||
+      (ts.isCallExpression(reference.parent) &&
+        reference.parent.expression === reference &&
+        ts.isAwaitExpression(reference.parent.parent))
+  );
+}
+
+/**
+ * Find the identifiers in a file that may refer to a binding, other than
+ * its declaration; property names never do
+ */
+function findReferences(
+  source: ts.SourceFile,
+  name: ts.Identifier
+): ts.Identifier[] {
+  const references: ts.Identifier[] = [];
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isIdentifier(node) &&
+      node !== name &&
+      node.text === name.text &&
+      !isPropertyName(node)
+    ) {
+      references.push(node);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+  return references;
+}
+
+function isPropertyName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (
+    (ts.isPropertyAccessExpression(parent) ||
+      ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isMethodDeclaration(parent)) &&
+    parent.name === node
+  );
+}
+
+function isWithin(node: ts.Node, ancestor: ts.Node): boolean {
+  return !!ts.findAncestor(node, (candidate) => candidate === ancestor);
+}
+
+function returnsValue(body: ts.Block): boolean {
+  let found = false;
+  const visit = (node: ts.Node) => {
+    if (found || ts.isFunctionLike(node) || ts.isClassLike(node)) {
+      return;
+    }
+    if (ts.isReturnStatement(node) && node.expression) {
+      found = true;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(body, visit);
+  return found;
+}
+
+/**
+ * Add `async` to a function, wrapping a declared return type in a Promise
+ */
+function getMarkAsyncEdits(
+  source: ts.SourceFile,
+  fn: ts.SignatureDeclaration
+): SourceEdit[] {
+  let start: number;
+  if (ts.isArrowFunction(fn)) {
+    start = fn.getStart(source);
+  } else if (ts.isMethodDeclaration(fn)) {
+    start = fn.name.getStart(source);
+  } else {
+    // After `export` and `default`
+    const keyword = fn
+      .getChildren(source)
+      .find((child) => child.kind === ts.SyntaxKind.FunctionKeyword);
+    start = keyword ? keyword.getStart(source) : fn.getStart(source);
+  }
+
+  const edits: SourceEdit[] = [{ start, end: start, newText: "async " }];
+  if (fn.type) {
+    edits.push({
+      start: fn.type.getStart(source),
+      end: fn.type.getEnd(),
+      newText: `Promise<${fn.type.getText(source)}>`,
+    });
+  }
+  return edits;
+}
+
+/**
+ * Import a module namespace after the last import, using `require` in
+ * CommonJS scripts
+ */
+export function getImportEdit(
+  source: ts.SourceFile,
+  name: string,
+  module: string
+): SourceEdit {
+  const statements = source.statements;
+  const isEsModule =
+    /\.[cm]?tsx?$/.test(source.fileName) ||
+    statements.some(
+      (statement) =>
+        ts.isImportDeclaration(statement) || ts.isExportDeclaration(statement)
+    );
+  const text = isEsModule
+    ? `import * as ${name} from "${module}";`
+    : `const ${name} = require("${module}");`;
+
+  const imports = statements.filter(
+    (statement) =>
+      ts.isImportDeclaration(statement) ||
+      ts.isImportEqualsDeclaration(statement) ||
+      isRequireStatement(source, statement)
+  );
+  const last = imports[imports.length - 1];
+  if (last) {
+    return { start: last.getEnd(), end: last.getEnd(), newText: `\n${text}` };
+  }
+
+  // Keep directives such as "use strict" first
+  const first = statements[0];
+  if (
+    first &&
+    ts.isExpressionStatement(first) &&
+    ts.isStringLiteral(first.expression)
+  ) {
+    return { start: first.getEnd(), end: first.getEnd(), newText: `\n${text}` };
+  }
+  const start = first ? first.getStart(source) : 0;
+  return { start, end: start, newText: `${text}\n` };
+}
+
+/**
+ * Find the call expression an analyzed call was made at
+ */
+function findCallNode(
+  source: ts.SourceFile,
+  call: FsCall
+): ts.CallExpression | undefined {
+  let found: ts.CallExpression | undefined;
+  const visit = (node: ts.Node) => {
+    if (
+      found ||
+      node.getStart(source) > call.start ||
+      node.getEnd() < call.end
+    ) {
+      return;
+    }
+    if (
+      ts.isCallExpression(node) &&
+      node.getStart(source) === call.start &&
+      node.getEnd() === call.end
+    ) {
+      found = node;
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(source, visit);
+  return found;
+}
+
+function isAsyncFunction(node: ts.Node | undefined): boolean {
+  return (
+    !!node &&
+    !!ts.canHaveModifiers(node) &&
+    !!ts
+      .getModifiers(node)
+      ?.some((modifier) => modifier.kind === ts.SyntaxKind.AsyncKeyword)
+  );
+}
+
+function isRequireStatement(
+  source: ts.SourceFile,
+  statement: ts.Statement
+): boolean {
+  return (
+    ts.isVariableStatement(statement) &&
+    statement.declarationList.declarations.some(
+      (declaration) =>
+        !!declaration.initializer &&
+        /^require\(/.test(declaration.initializer.getText(source))
+    )
+  );
+}
+
+/**
+ * Delete a node, with its whole line when nothing else is on it
+ */
+function getRemoveLinesEdit(source: ts.SourceFile, node: ts.Node): SourceEdit {
+  const text = source.text;
+  let start = node.getStart(source);
+  let end = node.getEnd();
+
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const lineEnd = text.indexOf("\n", end);
+  const after = lineEnd === -1 ? text.length : lineEnd;
+  if (!text.slice(lineStart, start).trim() && !text.slice(end, after).trim()) {
+    start = lineStart;
+    end = lineEnd === -1 ? after : lineEnd + 1;
+  }
+  return { start, end, newText: "" };
+}
+
+/**
+ * Quote a path the way the argument was quoted
+ */
+function getQuote(
+  source: ts.SourceFile,
+  argument: FsPathArgument
+): (value: string) => string {
+  const quote = source.text[argument.start] === "'" ? "'" : '"';
+  return (value) =>
+    quote +
+    value.replace(/\\/g, "\\\\").split(quote).join(`\\${quote}`) +
+    quote;
+}
+
+function toPosix(value: string): string {
+  return value.split(path.sep).join("/");
+}
@@ -0,0 +1,138 @@
+/**
+ * Glob matching shared by the client, the language server and the Security
+ * view, so every part of the extension agrees on what a pattern blocks.
+ *
+ * Patterns follow .gitignore conventions:
+ * - `*` matches within one path segment, `**` across segments
+ * - `?` matches one character, `[abc]`, `[a-z]` and `[!abc]` one of a set
+ * - A pattern without a slash matches any segment of the path; one with a
+ *   slash matches the whole path (a leading slash is optional)
+ * - A pattern starting with `!` re-allows paths an earlier pattern matched;
+ *   the last matching pattern decides
+ */
+
+/**
+ * The pattern that decided whether a path is blocked
+ */
+export interface PatternMatch {
+  pattern: string;
+  blocked: boolean;
+}
+
+/**
+ * Options for converting a glob to a regex
+ */
+export interface GlobOptions {
+  /** Match case-insensitively; defaults to true on Windows */
+  caseInsensitive?: boolean;
+  /** Also match paths inside a matching directory */
+  matchDescendants?: boolean;
+}
+
+/**
+ * Convert a glob to an anchored regex
+ * @throws If the glob has an unterminated character class
+ */
+export function globToRegExp(glob: string, options: GlobOptions = {}): RegExp {
+  const pattern = toForwardSlashes(glob);
+  let source = "";
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      i++;
+      if (pattern[i + 1] === "/") {
+        i++;
+        source += "(?:.*/)?";
+      } else {
+        source += ".*";
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 2);
+      if (end === -1) {
+        throw new Error(`Unterminated character class in pattern: ${glob}`);
+      }
+      let set = pattern.slice(i + 1, end);
+      const negated = set.startsWith("!") || set.startsWith("^");
+      if (negated) {
+        set = set.slice(1);
+      }
+      source += `[${negated ? "^/" : ""}${set.replace(/[\\\]^]/g, "\\$&")}]`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  const caseInsensitive =
+    options.caseInsensitive ?? process.platform === "win32";
+  return new RegExp(
+    `^${source}${options.matchDescendants ? "(?:/.*)?" : ""}$`,
+    caseInsensitive ? "i" : ""
+  );
+}
+
+/**
+ * Check whether a glob is well formed
+ * @returns An error message, or undefined if the glob is valid
+ */
+export function validateGlob(glob: string): string | undefined {
+  const body = glob.startsWith("!") ? glob.slice(1) : glob;
+  if (!body.trim()) {
+    return "Pattern is empty";
+  }
+  try {
+    globToRegExp(body);
+    return undefined;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+/**
+ * Check whether a path matches a single glob, ignoring `!`
+ * @param target - Path relative to the workspace root, or absolute
+ */
+export function matchesGlob(target: string, glob: string): boolean {
+  const body = toForwardSlashes(glob.startsWith("!") ? glob.slice(1) : glob);
+  const normalized = toForwardSlashes(target).replace(/\/+$/, "");
+
+  if (body.includes("/")) {
+    const regex = globToRegExp(body.replace(/^\//, ""), {
+      matchDescendants: true,
+    });
+    return regex.test(normalized.replace(/^\//, ""));
+  }
+
+  const regex = globToRegExp(body);
+  return normalized
+    .split("/")
+    .filter(Boolean)
+    .some((segment) => regex.test(segment));
+}
+
+/**
+ * Find the pattern that decides whether a path is blocked
+ * Invalid patterns never match
+ * @returns The last matching pattern, or undefined if none match
+ */
+export function findMatchingPattern(
+  target: string,
+  patterns: string[]
+): PatternMatch | undefined {
+  let match: PatternMatch | undefined;
+  for (const pattern of patterns) {
+    if (validateGlob(pattern) === undefined && matchesGlob(target, pattern)) {
+      match = { pattern, blocked: !pattern.startsWith("!") };
+    }
+  }
+  return match;
+}
+
+function toForwardSlashes(value: string): string {
+  return value.replace(/\\/g, "/");
+}
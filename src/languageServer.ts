@@ -13,18 +13,82 @@ import {
   DiagnosticSeverity,
   CodeAction,
   CodeActionKind,
+  WorkspaceFolder,
 } from "vscode-languageserver/node";
+import { homedir } from "os";
+import { isAbsolute, join, resolve } from "path";
+import { SourceFile } from "typescript";
+import { fileURLToPath } from "url";
 
 import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  FsCall,
+  PathLiteral,
+  analyzeFsCalls,
+  findPathLiteral,
+  parseSource,
+} from "./fsCallAnalyzer";
+import {
+  QuickFix,
+  getAsyncCallFix,
+  getAsyncFileFix,
+  getRemoveCallFix,
+  getWorkspacePathFixes,
+} from "./fsQuickFixes";
+import {
+  applyPolicyBoundaries,
+  applyPolicyOperations,
+  loadPolicyFile,
+} from "./policyFile";
+import { OperationSetting, isToolEnabled } from "./operationToggles";
+import {
+  CHECKSUM_NOTIFICATION,
+  ComputedChecksum,
+  describePathEntry,
+  isWithinRoot,
+  listDirectory,
+  statPath,
+} from "./pathInfo";
+import {
+  PathPolicy,
+  PathPolicyViolation,
+  checkPathPolicies,
+  createPathPolicy,
+  explainPathPolicy,
+  selectPathPolicy,
+} from "./pathPolicy";
+import { VariableContext } from "./variableResolver";
 
 const connection = createConnection(ProposedFeatures.all);
 const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 
 let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
-let workspaceRoot: string = "";
+// Window-level security settings, used when a folder has no settings of its
+// own and for documents outside every folder
+let workspaceRoot = "${workspaceFolder}";
+let allowedSubdirectories: string[] = [];
 let blockedPaths: string[] = [];
 let blockedPatterns: string[] = [];
+let workspaceFolders: WorkspaceFolder[] = [];
+
+// Settings are resource scoped, so each workspace folder is fetched once
+// and cached until the configuration, the folders or a policy file change
+const folderPolicies = new Map<string, Promise<PathPolicy>>();
+
+/**
+ * A checksum computed by the extension and the file state it applies to
+ */
+interface CachedChecksum {
+  algorithm: string;
+  checksum: string;
+  size?: number;
+  mtimeMs: number;
+}
+
+// Checksums by absolute path; a hover only shows one while the file's size
+// and modification time are unchanged
+const checksums = new Map<string, CachedChecksum>();
 
 connection.onInitialize((params: InitializeParams) => {
   const capabilities = params.capabilities;
@@ -36,9 +100,7 @@ connection.onInitialize((params: InitializeParams) => {
     capabilities.workspace && !!capabilities.workspace.workspaceFolders
   );
 
-  if (params.workspaceFolders && params.workspaceFolders.length > 0) {
-    workspaceRoot = params.workspaceFolders[0].uri;
-  }
+  workspaceFolders = params.workspaceFolders ?? [];
 
   const result: InitializeResult = {
     capabilities: {
@@ -49,7 +111,10 @@ connection.onInitialize((params: InitializeParams) => {
         triggerCharacters: ["/", ".", '"', "'"],
       },
       codeActionProvider: {
-        codeActionKinds: [CodeActionKind.QuickFix],
+        codeActionKinds: [
+          CodeActionKind.QuickFix,
+          CodeActionKind.RefactorRewrite,
+        ],
       },
     },
   };
@@ -73,9 +138,43 @@ connection.onInitialized(() => {
     );
   }
 
+  if (hasWorkspaceFolderCapability) {
+    connection.workspace.onDidChangeWorkspaceFolders((event) => {
+      workspaceFolders = workspaceFolders
+        .filter((folder) => !event.removed.some((r) => r.uri === folder.uri))
+        .concat(event.added);
+      folderPolicies.clear();
+      documents.all().forEach(validateTextDocument);
+    });
+  }
+
   connection.console.log("MCP Filesystem Language Server initialized");
 });
 
+// Policy files are watched by the client
+connection.onDidChangeWatchedFiles(() => {
+  folderPolicies.clear();
+  documents.all().forEach(validateTextDocument);
+});
+
+connection.onNotification(
+  CHECKSUM_NOTIFICATION,
+  async (params: ComputedChecksum) => {
+    if (!isAbsolute(params.path)) {
+      return;
+    }
+    const stats = await statPath(params.path);
+    if (stats) {
+      checksums.set(params.path, {
+        algorithm: params.algorithm,
+        checksum: params.checksum,
+        size: stats.size,
+        mtimeMs: stats.mtime.getTime(),
+      });
+    }
+  }
+);
+
 // Configuration change handler
 connection.onDidChangeConfiguration(async (change) => {
   if (hasConfigurationCapability) {
@@ -85,10 +184,12 @@ connection.onDidChangeConfiguration(async (change) => {
     });
 
     if (config) {
+      workspaceRoot = config.security?.workspaceRoot || "${workspaceFolder}";
+      allowedSubdirectories = config.security?.allowedSubdirectories || [];
       blockedPaths = config.security?.blockedPaths || [];
       blockedPatterns = config.security?.blockedPatterns || [];
-      workspaceRoot = config.security?.workspaceRoot || workspaceRoot;
     }
+    folderPolicies.clear();
 
     // Revalidate all open documents
     documents.all().forEach(validateTextDocument);
@@ -107,88 +208,211 @@ documents.onDidClose((event: any) => {
   connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
 });
 
+/**
+ * Find the workspace folder that owns a document; the deepest folder wins
+ * when folders are nested
+ */
+function findOwningFolder(uri: string): WorkspaceFolder | undefined {
+  let owner: WorkspaceFolder | undefined;
+  for (const folder of workspaceFolders) {
+    const prefix = folder.uri.endsWith("/") ? folder.uri : `${folder.uri}/`;
+    if (
+      (uri === folder.uri || uri.startsWith(prefix)) &&
+      (!owner || folder.uri.length > owner.uri.length)
+    ) {
+      owner = folder;
+    }
+  }
+  return owner;
+}
+
+/**
+ * Get the policy of the folder that owns a document
+ */
+function getDocumentPolicy(uri: string): Promise<PathPolicy> {
+  const folder = findOwningFolder(uri);
+  return folder ? getFolderPolicy(folder) : Promise.resolve(getWindowPolicy());
+}
+
+/**
+ * Get the resolved policy of every workspace folder, or of the window when
+ * no folder is open
+ */
+async function getWorkspacePolicies(): Promise<PathPolicy[]> {
+  return workspaceFolders.length > 0
+    ? Promise.all(workspaceFolders.map(getFolderPolicy))
+    : [getWindowPolicy()];
+}
+
+/**
+ * Get the policy of the window-level settings
+ */
+function getWindowPolicy(): PathPolicy {
+  return createPathPolicy(
+    { workspaceRoot, allowedSubdirectories, blockedPaths, blockedPatterns },
+    getVariableContext()
+  );
+}
+
+/**
+ * Get the policies a document's paths are checked against: its own folder's
+ * first, then every other folder's, as the client checks tool calls
+ */
+async function getDocumentPolicies(uri: string): Promise<PathPolicy[]> {
+  const owner = findOwningFolder(uri);
+  return Promise.all([
+    getDocumentPolicy(uri),
+    ...workspaceFolders
+      .filter((folder) => folder !== owner)
+      .map(getFolderPolicy),
+  ]);
+}
+
+function getFolderPolicy(folder: WorkspaceFolder): Promise<PathPolicy> {
+  let policy = folderPolicies.get(folder.uri);
+  if (!policy) {
+    policy = loadFolderPolicy(folder);
+    folderPolicies.set(folder.uri, policy);
+  }
+  return policy;
+}
+
+/**
+ * Load a folder's policy from its scoped settings and policy file, with
+ * variables resolved in the root and in every path setting
+ */
+async function loadFolderPolicy(folder: WorkspaceFolder): Promise<PathPolicy> {
+  const folderPath = folder.uri.startsWith("file:")
+    ? fileURLToPath(folder.uri)
+    : undefined;
+  const config = hasConfigurationCapability
+    ? await connection.workspace.getConfiguration({
+        scopeUri: folder.uri,
+        section: "mcp-filesystem",
+      })
+    : undefined;
+
+  const settings = applyPolicyBoundaries(
+    {
+      workspaceRoot: config?.security?.workspaceRoot || workspaceRoot,
+      allowedSubdirectories:
+        config?.security?.allowedSubdirectories || allowedSubdirectories,
+      blockedPaths: config?.security?.blockedPaths || blockedPaths,
+      blockedPatterns: config?.security?.blockedPatterns || blockedPatterns,
+    },
+    folderPath ? loadPolicyFile(folderPath)?.policy : undefined
+  );
+  const resolved = createPathPolicy(settings, getVariableContext(folderPath));
+  return {
+    ...resolved,
+    name: folder.name,
+    workspaceRoot: resolved.workspaceRoot ?? folderPath,
+  };
+}
+
+/**
+ * Get the values of variables in settings
+ * @param folderPath - Folder the settings apply to, for `${workspaceFolder}`
+ */
+function getVariableContext(folderPath?: string): VariableContext {
+  return {
+    workspaceFolder: folderPath,
+    workspaceFolders: workspaceFolders
+      .filter((folder) => folder.uri.startsWith("file:"))
+      .map((folder) => ({
+        name: folder.name,
+        path: fileURLToPath(folder.uri),
+      })),
+    userHome: homedir(),
+    env: process.env,
+  };
+}
+
+/**
+ * Get the operation toggles, tightened by the policy file of every folder
+ */
+async function loadOperations(): Promise<Record<OperationSetting, boolean>> {
+  const config = hasConfigurationCapability
+    ? await connection.workspace.getConfiguration({ section: "mcp-filesystem" })
+    : undefined;
+  let operations: Record<OperationSetting, boolean> = {
+    enableBatch: config?.operations?.enableBatch ?? true,
+    enableWatch: config?.operations?.enableWatch ?? true,
+    enableSearch: config?.operations?.enableSearch ?? true,
+    enableChecksum: config?.operations?.enableChecksum ?? true,
+  };
+
+  for (const folder of workspaceFolders) {
+    if (folder.uri.startsWith("file:")) {
+      operations = applyPolicyOperations(
+        operations,
+        loadPolicyFile(fileURLToPath(folder.uri))?.policy
+      );
+    }
+  }
+  return operations;
+}
+
+/**
+ * Parse a document for fs call analysis
+ */
+function parseDocument(textDocument: TextDocument) {
+  return parseSource(
+    textDocument.getText(),
+    textDocument.uri.startsWith("file:")
+      ? fileURLToPath(textDocument.uri)
+      : textDocument.uri,
+    textDocument.languageId
+  );
+}
+
+/**
+ * Resolve a path from a document the way the client resolves tool call
+ * paths, so diagnostics, hovers and completions agree on what it names
+ * @param policies - The document's policies, its own folder's first
+ * @returns The absolute path, or the path as is when no root is resolved
+ */
+function resolveDocumentPath(value: string, policies: PathPolicy[]): string {
+  const root = policies[0].workspaceRoot;
+  return root ? resolve(root, value) : value;
+}
+
 /**
  * Validate text document for filesystem-related issues
+ * Only the path arguments of real fs calls are checked, resolved through
+ * constants and path.join/resolve where possible
  */
 async function validateTextDocument(textDocument: TextDocument): Promise<void> {
   try {
     const diagnostics: Diagnostic[] = [];
-    const text = textDocument.getText();
-    const lines = text.split("\n");
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      // Check for paths outside workspace root
-      const pathMatches = line.matchAll(/['"]([^'"]*\/[^'"]*)['"]/g);
-      for (const match of pathMatches) {
-        if (match[1]) {
-          const path = match[1];
-
-          // Check if path appears to be outside workspace
-          if (path.startsWith("/") && !path.includes("workspace")) {
-            diagnostics.push({
-              severity: DiagnosticSeverity.Warning,
-              range: {
-                start: { line: i, character: match.index || 0 },
-                end: {
-                  line: i,
-                  character: (match.index || 0) + match[0].length,
-                },
-              },
-              message:
-                "Path may be outside workspace root. Ensure filesystem operations are confined to workspace.",
-              source: "mcp-filesystem",
-            });
-          }
-
-          // Check for blocked paths
-          for (const blocked of blockedPaths) {
-            if (path.includes(blocked)) {
-              diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: {
-                  start: { line: i, character: match.index || 0 },
-                  end: {
-                    line: i,
-                    character: (match.index || 0) + match[0].length,
-                  },
-                },
-                message: `Path contains blocked directory: ${blocked}`,
-                source: "mcp-filesystem",
-              });
-            }
-          }
-
-          // Check for blocked patterns
-          for (const pattern of blockedPatterns) {
-            const regex = new RegExp(pattern.replace(/\*/g, ".*"));
-            if (regex.test(path)) {
-              diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: {
-                  start: { line: i, character: match.index || 0 },
-                  end: {
-                    line: i,
-                    character: (match.index || 0) + match[0].length,
-                  },
-                },
-                message: `Path matches blocked pattern: ${pattern}`,
-                source: "mcp-filesystem",
-              });
-            }
-          }
+    const policies = await getDocumentPolicies(textDocument.uri);
+    const source = parseDocument(textDocument);
+    const toRange = (start: number, end: number) => ({
+      start: textDocument.positionAt(start),
+      end: textDocument.positionAt(end),
+    });
+
+    for (const call of analyzeFsCalls(source)) {
+      for (const argument of call.paths) {
+        if (argument.value === undefined) {
+          continue;
+        }
+        const path = resolveDocumentPath(argument.value, policies);
+        const violation = checkPathPolicies(path, policies);
+        if (violation) {
+          diagnostics.push({
+            ...getViolationDiagnostic(violation),
+            range: toRange(argument.start, argument.end),
+            source: "mcp-filesystem",
+          });
         }
       }
 
       // Check for dangerous filesystem operations
-      if (line.includes("fs.unlinkSync") || line.includes("fs.rmdirSync")) {
+      if (call.method === "unlinkSync" || call.method === "rmdirSync") {
         diagnostics.push({
           severity: DiagnosticSeverity.Warning,
-          range: {
-            start: { line: i, character: 0 },
-            end: { line: i, character: line.length },
-          },
+          range: toRange(call.start, call.end),
           message:
             "Consider using async filesystem operations for better performance and error handling.",
           source: "mcp-filesystem",
@@ -196,13 +420,10 @@ async function validateTextDocument(textDocument: TextDocument): Promise<void> {
       }
 
       // Check for symlink operations
-      if (line.includes("fs.symlink") || line.includes("fs.symlinkSync")) {
+      if (call.method === "symlink" || call.method === "symlinkSync") {
         diagnostics.push({
           severity: DiagnosticSeverity.Information,
-          range: {
-            start: { line: i, character: 0 },
-            end: { line: i, character: line.length },
-          },
+          range: toRange(call.start, call.end),
           message:
             "Symlink operations should be validated to ensure they stay within workspace boundaries.",
           source: "mcp-filesystem",
@@ -219,6 +440,21 @@ async function validateTextDocument(textDocument: TextDocument): Promise<void> {
   }
 }
 
+/**
+ * Describe a policy violation: boundary violations are warnings, blocked
+ * paths and patterns errors
+ */
+function getViolationDiagnostic(
+  violation: PathPolicyViolation
+): Pick<Diagnostic, "severity" | "message"> {
+  return violation.boundary
+    ? {
+        severity: DiagnosticSeverity.Warning,
+        message: `${violation.reason}. Ensure filesystem operations are confined to the workspace.`,
+      }
+    : { severity: DiagnosticSeverity.Error, message: violation.reason };
+}
+
 /**
  * Provide hover information for filesystem paths
  */
@@ -231,28 +467,19 @@ connection.onHover(async (params: any): Promise<Hover | null> => {
 
     const text = document.getText();
     const offset = document.offsetAt(params.position);
-    const line = text.split("\n")[params.position.line];
 
     // Check if hovering over a filesystem path
-    const pathMatch = line.match(/['"]([^'"]*\/[^'"]*)['"]/);
-    if (pathMatch && pathMatch[1]) {
-      const path = pathMatch[1];
-
+    const source = parseDocument(document);
+    const target = findHoveredPath(source, offset);
+    if (target) {
       return {
         contents: {
           kind: "markdown",
-          value: [
-            `**Filesystem Path**`,
-            "",
-            `Path: \`${path}\``,
-            "",
-            "**MCP ACS Filesystem Manager** provides secure file operations:",
-            "- All operations confined to workspace root",
-            "- Blocked paths and patterns enforced",
-            "- Audit logging enabled",
-            "",
-            "Use `@filesystem` in Copilot for AI-assisted file operations.",
-          ].join("\n"),
+          value: await describeHoveredPath(document, target.value),
+        },
+        range: {
+          start: document.positionAt(target.start),
+          end: document.positionAt(target.end),
         },
       };
     }
@@ -296,6 +523,84 @@ connection.onHover(async (params: any): Promise<Hover | null> => {
   }
 });
 
+/**
+ * Find the path under the cursor: an fs call argument, resolved through
+ * constants, or else a string literal that looks like a path
+ */
+function findHoveredPath(
+  source: SourceFile,
+  offset: number
+): { start: number; end: number; value: string } | undefined {
+  const argument = analyzeFsCalls(source)
+    .flatMap((call) => call.paths)
+    .find((p) => p.value !== undefined && p.start <= offset && offset <= p.end);
+  if (argument?.value !== undefined) {
+    return { start: argument.start, end: argument.end, value: argument.value };
+  }
+
+  const literal = findPathLiteral(source, offset);
+  return literal && literal.value.includes("/") ? literal : undefined;
+}
+
+/**
+ * Describe a path's metadata, the rule that allows or denies it and its
+ * checksum, when the extension has computed one for the current contents
+ */
+async function describeHoveredPath(
+  document: TextDocument,
+  value: string
+): Promise<string> {
+  const policies = await getDocumentPolicies(document.uri);
+  const resolved = resolveDocumentPath(value, policies);
+
+  const lines = [`**Filesystem Path** \`${value}\``, ""];
+  if (resolved !== value) {
+    lines.push(`Resolves to \`${resolved}\``, "");
+  }
+  if (!isAbsolute(resolved)) {
+    lines.push("Relative to an unknown workspace root; open a folder.");
+    return lines.join("\n");
+  }
+
+  const stats = await statPath(resolved);
+  lines.push(
+    stats
+      ? `**Exists:** ${describePathEntry(
+          stats
+        )} · modified ${stats.mtime.toLocaleString()}`
+      : "**Exists:** No"
+  );
+
+  // The same checks, in the same order, as the client runs on tool calls
+  const checks = explainPathPolicy(
+    resolved,
+    selectPathPolicy(resolved, policies) ?? policies[0]
+  );
+  const denied = checks.find((check) => !check.passed);
+  lines.push(
+    "",
+    denied
+      ? `**Policy:** Denied by ${denied.rule} (${denied.detail})`
+      : `**Policy:** Allowed (${checks
+          .map((check) => check.detail)
+          .join("; ")})`
+  );
+
+  const checksum = checksums.get(resolved);
+  if (
+    checksum &&
+    stats &&
+    checksum.size === stats.size &&
+    checksum.mtimeMs === stats.mtime.getTime()
+  ) {
+    lines.push(
+      "",
+      `**${checksum.algorithm.toUpperCase()}:** \`${checksum.checksum}\``
+    );
+  }
+  return lines.join("\n");
+}
+
 /**
  * Provide completion suggestions for filesystem paths
  */
@@ -382,33 +687,16 @@ connection.onCompletion(async (params: any): Promise<CompletionItem[]> => {
       );
     }
 
-    // Suggest common filesystem paths
-    if (line.includes('"') || line.includes("'")) {
+    // Suggest the entries of the directory a path literal points into
+    const source = parseDocument(document);
+    const offset = document.offsetAt(position);
+    const literal = findPathLiteral(source, offset);
+    if (literal) {
+      const isFsArgument = analyzeFsCalls(source).some((call) =>
+        call.paths.some((p) => p.start === literal.start - 1)
+      );
       completions.push(
-        {
-          label: "./",
-          kind: CompletionItemKind.Folder,
-          detail: "Current directory",
-          insertText: "./",
-        },
-        {
-          label: "../",
-          kind: CompletionItemKind.Folder,
-          detail: "Parent directory",
-          insertText: "../",
-        },
-        {
-          label: "src/",
-          kind: CompletionItemKind.Folder,
-          detail: "Source directory",
-          insertText: "src/",
-        },
-        {
-          label: "dist/",
-          kind: CompletionItemKind.Folder,
-          detail: "Distribution directory",
-          insertText: "dist/",
-        }
+        ...(await getPathCompletions(document, literal, offset, isFsArgument))
       );
     }
 
@@ -419,6 +707,60 @@ connection.onCompletion(async (params: any): Promise<CompletionItem[]> => {
   }
 });
 
+/**
+ * Complete the path segment before the cursor from the directory the rest of
+ * the literal names, relative to the document or, for paths starting with
+ * `/`, the workspace root
+ * Other strings only get completions once they look like a path
+ */
+async function getPathCompletions(
+  document: TextDocument,
+  literal: PathLiteral,
+  offset: number,
+  isFsArgument: boolean
+): Promise<CompletionItem[]> {
+  const prefix = literal.value.slice(0, offset - literal.start);
+  const directoryPart = prefix.slice(0, prefix.lastIndexOf("/") + 1);
+  if (!isFsArgument && !directoryPart) {
+    return [];
+  }
+
+  const policies = await getDocumentPolicies(document.uri);
+  const root = policies[0].workspaceRoot;
+  let directory: string | undefined;
+  if (directoryPart.startsWith("/")) {
+    directory =
+      root && isWithinRoot(directoryPart, root)
+        ? directoryPart
+        : root && join(root, directoryPart);
+  } else {
+    directory = root && resolveDocumentPath(directoryPart, policies);
+  }
+  if (!directory) {
+    return [];
+  }
+
+  const range = {
+    start: document.positionAt(literal.start + directoryPart.length),
+    end: document.positionAt(offset),
+  };
+  const entries = await listDirectory(directory, policies);
+  return entries.map((entry) => {
+    const isDirectory = entry.type === "directory";
+    return {
+      label: entry.name,
+      kind: isDirectory ? CompletionItemKind.Folder : CompletionItemKind.File,
+      detail: describePathEntry(entry),
+      sortText: `${isDirectory ? 0 : 1}${entry.name}`,
+      textEdit: { range, newText: isDirectory ? `${entry.name}/` : entry.name },
+      // Continue into the directory after inserting the slash
+      command: isDirectory
+        ? { title: "Suggest", command: "editor.action.triggerSuggest" }
+        : undefined,
+    };
+  });
+}
+
 /**
  * Provide code actions for quick fixes
  */
@@ -431,45 +773,58 @@ connection.onCodeAction(async (params: any): Promise<CodeAction[]> => {
 
     const codeActions: CodeAction[] = [];
     const diagnostics = params.context.diagnostics;
+    const source = parseDocument(document);
+    const calls = analyzeFsCalls(source);
+    const root = (await getDocumentPolicy(document.uri)).workspaceRoot;
+    const asyncDiagnostics: Diagnostic[] = [];
+    const converted = new Set<FsCall>();
+    const toAction = (fix: QuickFix, diagnostic?: Diagnostic): CodeAction => ({
+      title: fix.title,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: diagnostic ? [diagnostic] : undefined,
+      edit: {
+        changes: {
+          [document.uri]: fix.edits.map((edit) => ({
+            range: {
+              start: document.positionAt(edit.start),
+              end: document.positionAt(edit.end),
+            },
+            newText: edit.newText,
+          })),
+        },
+      },
+    });
 
     for (const diagnostic of diagnostics) {
+      // Diagnostics cover either a call or one of its path arguments
+      const start = document.offsetAt(diagnostic.range.start);
+      const end = document.offsetAt(diagnostic.range.end);
+      const argument = calls
+        .flatMap((call) => call.paths)
+        .find((p) => p.start === start && p.end === end);
+      const call = calls.find(
+        (c) =>
+          (c.start === start && c.end === end) ||
+          (argument && c.paths.includes(argument))
+      );
+
       // Quick fix for paths outside workspace
-      if (diagnostic.message.includes("outside workspace")) {
-        codeActions.push({
-          title: "Use workspace-relative path",
-          kind: CodeActionKind.QuickFix,
-          diagnostics: [diagnostic],
-          edit: {
-            changes: {
-              [params.textDocument.uri]: [
-                {
-                  range: diagnostic.range,
-                  newText:
-                    "// TODO: Update path to be relative to workspace root",
-                },
-              ],
-            },
-          },
-        });
+      if (
+        /outside (the|every) workspace root/.test(diagnostic.message) &&
+        argument &&
+        root
+      ) {
+        for (const fix of getWorkspacePathFixes(source, argument, root)) {
+          codeActions.push(toAction(fix, diagnostic));
+        }
       }
 
       // Quick fix for blocked paths
       if (diagnostic.message.includes("blocked")) {
-        codeActions.push({
-          title: "Remove blocked path reference",
-          kind: CodeActionKind.QuickFix,
-          diagnostics: [diagnostic],
-          edit: {
-            changes: {
-              [params.textDocument.uri]: [
-                {
-                  range: diagnostic.range,
-                  newText: "// TODO: Remove reference to blocked path",
-                },
-              ],
-            },
-          },
-        });
+        const fix = call && getRemoveCallFix(source, call);
+        if (fix) {
+          codeActions.push(toAction(fix, diagnostic));
+        }
 
         codeActions.push({
           title: "Configure security settings",
@@ -484,25 +839,44 @@ connection.onCodeAction(async (params: any): Promise<CodeAction[]> => {
 
       // Quick fix for sync operations
       if (diagnostic.message.includes("async")) {
-        codeActions.push({
-          title: "Convert to async operation",
-          kind: CodeActionKind.QuickFix,
-          diagnostics: [diagnostic],
-          edit: {
-            changes: {
-              [params.textDocument.uri]: [
-                {
-                  range: diagnostic.range,
-                  newText:
-                    "// TODO: Convert to async filesystem operation (e.g., fs.promises)",
-                },
-              ],
-            },
-          },
-        });
+        const fix = call && getAsyncCallFix(source, call);
+        if (fix) {
+          codeActions.push(toAction(fix, diagnostic));
+          asyncDiagnostics.push(diagnostic);
+          converted.add(call);
+        }
+      }
+    }
+
+    // Other sync calls at the cursor can be converted as a refactoring
+    const rangeStart = document.offsetAt(params.range.start);
+    const rangeEnd = document.offsetAt(params.range.end);
+    for (const call of calls) {
+      if (
+        !converted.has(call) &&
+        call.start <= rangeEnd &&
+        rangeStart <= call.end
+      ) {
+        const fix = getAsyncCallFix(source, call);
+        if (fix) {
+          codeActions.push({
+            ...toAction(fix),
+            kind: CodeActionKind.RefactorRewrite,
+          });
+          converted.add(call);
+        }
       }
     }
 
+    const fileFix = converted.size > 0 && getAsyncFileFix(source, calls);
+    if (fileFix) {
+      codeActions.push(
+        asyncDiagnostics.length > 0
+          ? { ...toAction(fileFix), diagnostics: asyncDiagnostics }
+          : { ...toAction(fileFix), kind: CodeActionKind.RefactorRewrite }
+      );
+    }
+
     return codeActions;
   } catch (error) {
     connection.console.error(`Error in code action provider: ${error}`);
@@ -532,53 +906,79 @@ function getWordAtPosition(text: string, offset: number): string | null {
  */
 connection.onRequest("copilot/getContext", async (): Promise<any> => {
   try {
+    const operations = await loadOperations();
+    const roots = (await getWorkspacePolicies()).map((policy) => ({
+      name: policy.name,
+      workspaceRoot: policy.workspaceRoot,
+      allowedSubdirectories: policy.allowedSubdirectories,
+      blockedPaths: policy.blockedPaths,
+      blockedPatterns: policy.blockedPatterns,
+    }));
+    const filesystemTools = [
+      {
+        name: "batchOperations",
+        description: "Execute multiple filesystem operations atomically",
+        capabilities: ["copy", "move", "delete"],
+      },
+      {
+        name: "watchDirectory",
+        description: "Watch directory for filesystem changes",
+        capabilities: ["recursive", "filters", "event-accumulation"],
+      },
+      {
+        name: "searchFiles",
+        description: "Search for files by name, content, or metadata",
+        capabilities: ["name-search", "content-search", "metadata-filters"],
+      },
+      {
+        name: "computeChecksum",
+        description: "Compute file checksums",
+        capabilities: ["md5", "sha1", "sha256", "sha512"],
+      },
+      {
+        name: "analyzeDiskUsage",
+        description: "Analyze disk usage and directory sizes",
+        capabilities: ["recursive", "type-grouping", "size-breakdown"],
+      },
+      {
+        name: "createSymlink",
+        description: "Create symbolic links",
+        capabilities: ["workspace-validation"],
+      },
+      {
+        name: "copyDirectory",
+        description: "Copy directory recursively",
+        capabilities: ["metadata-preservation", "exclusions"],
+      },
+      {
+        name: "syncDirectory",
+        description: "Sync directories",
+        capabilities: ["incremental", "exclusions"],
+      },
+    ];
+    // MCP tool behind each entry, for the operation toggles
+    const mcpTools: Record<string, string> = {
+      batchOperations: "fs_batch_operations",
+      watchDirectory: "fs_watch_directory",
+      searchFiles: "fs_search_files",
+      computeChecksum: "fs_compute_checksum",
+      copyDirectory: "fs_copy_directory",
+      syncDirectory: "fs_sync_directory",
+    };
+
     return {
-      filesystemTools: [
-        {
-          name: "batchOperations",
-          description: "Execute multiple filesystem operations atomically",
-          capabilities: ["copy", "move", "delete"],
-        },
-        {
-          name: "watchDirectory",
-          description: "Watch directory for filesystem changes",
-          capabilities: ["recursive", "filters", "event-accumulation"],
-        },
-        {
-          name: "searchFiles",
-          description: "Search for files by name, content, or metadata",
-          capabilities: ["name-search", "content-search", "metadata-filters"],
-        },
-        {
-          name: "computeChecksum",
-          description: "Compute file checksums",
-          capabilities: ["md5", "sha1", "sha256", "sha512"],
-        },
-        {
-          name: "analyzeDiskUsage",
-          description: "Analyze disk usage and directory sizes",
-          capabilities: ["recursive", "type-grouping", "size-breakdown"],
-        },
-        {
-          name: "createSymlink",
-          description: "Create symbolic links",
-          capabilities: ["workspace-validation"],
-        },
-        {
-          name: "copyDirectory",
-          description: "Copy directory recursively",
-          capabilities: ["metadata-preservation", "exclusions"],
-        },
-        {
-          name: "syncDirectory",
-          description: "Sync directories",
-          capabilities: ["incremental", "exclusions"],
-        },
-      ],
+      // Disabled operation families are not offered to Copilot
+      filesystemTools: filesystemTools.filter(
+        (tool) =>
+          !mcpTools[tool.name] || isToolEnabled(mcpTools[tool.name], operations)
+      ),
       securityBoundaries: {
-        workspaceRoot: workspaceRoot,
-        blockedPaths: blockedPaths,
-        blockedPatterns: blockedPatterns,
+        // The first root, as in the server configuration
+        workspaceRoot: roots[0].workspaceRoot,
+        allowedSubdirectories: roots[0].allowedSubdirectories,
+        blockedPaths: roots[0].blockedPaths,
+        blockedPatterns: roots[0].blockedPatterns,
+        roots,
         restrictions: [
           "All operations confined to workspace root",
           "System directories are blocked",
@@ -587,13 +987,13 @@ connection.onRequest("copilot/getContext", async (): Promise<any> => {
         ],
       },
       features: {
-        batchOperations: true,
-        directoryWatching: true,
-        fileSearch: true,
-        checksumComputation: true,
+        batchOperations: operations.enableBatch,
+        directoryWatching: operations.enableWatch,
+        fileSearch: operations.enableSearch,
+        checksumComputation: operations.enableChecksum,
         diskUsageAnalysis: true,
         symbolicLinks: true,
-        directorySync: true,
+        directorySync: operations.enableBatch,
       },
     };
   } catch (error) {
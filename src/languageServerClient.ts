@@ -6,6 +6,8 @@ import {
   ServerOptions,
   TransportKind,
 } from "vscode-languageclient/node";
+import { MCPFilesystemClient } from "./mcpClient";
+import { CHECKSUM_NOTIFICATION } from "./pathInfo";
 
 /**
  * Filesystem Language Server Client
@@ -15,6 +17,7 @@ export class FilesystemLanguageServer {
   private client: LanguageClient | undefined;
   private context: vscode.ExtensionContext;
   private outputChannel: vscode.LogOutputChannel;
+  private checksumSubscription: vscode.Disposable | undefined;
 
   constructor(
     context: vscode.ExtensionContext,
@@ -64,8 +67,10 @@ export class FilesystemLanguageServer {
           { scheme: "untitled", language: "typescriptreact" },
         ],
         synchronize: {
-          // Notify the server about file changes to configuration files
-          fileEvents: vscode.workspace.createFileSystemWatcher("**/.mcprc"),
+          // Notify the server about changes to project policy files
+          fileEvents: vscode.workspace.createFileSystemWatcher(
+            "**/.mcprc{,.yaml,.yml}"
+          ),
         },
         outputChannel: this.outputChannel,
       };
@@ -92,10 +97,28 @@ export class FilesystemLanguageServer {
     }
   }
 
+  /**
+   * Forward the checksums an MCP client computes, so hovers can show them
+   */
+  setMCPClient(mcpClient: MCPFilesystemClient | undefined): void {
+    this.checksumSubscription?.dispose();
+    this.checksumSubscription = mcpClient?.onDidComputeChecksum((checksum) => {
+      this.client
+        ?.sendNotification(CHECKSUM_NOTIFICATION, checksum)
+        .catch((error) => {
+          this.outputChannel.appendLine(
+            `Failed to send checksum to Language Server: ${error}`
+          );
+        });
+    });
+  }
+
   /**
    * Stop the language server
    */
   async stop(): Promise<void> {
+    this.checksumSubscription?.dispose();
+    this.checksumSubscription = undefined;
     try {
       if (this.client) {
         this.outputChannel.appendLine("Stopping Filesystem Language Server...");
@@ -5,16 +5,64 @@ import {
   LogOutputChannel,
 } from "@ai-capabilities-suite/mcp-client-base";
 import { SettingsManager } from "./settingsManager";
-import { ErrorHandler, ErrorCategory } from "./errorHandling";
+import {
+  ErrorHandler,
+  ErrorCategory,
+  FilesystemError,
+  createPathPolicyError,
+} from "./errorHandling";
+import { OperationHistoryStore } from "./operationHistoryStore";
+import {
+  OperationPlan,
+  planBatch,
+  planCopyDirectory,
+  planSyncDirectory,
+} from "./operationPlanner";
+import { UndoJournal, UndoResult } from "./undoJournal";
+import { AuditLogger, getAuditCaller } from "./auditLog";
+import { RateLimiter, RateLimitUsage } from "./rateLimiter";
+import {
+  PathPolicy,
+  checkPathPolicies,
+  createPathPolicies,
+  createPathPolicy,
+  getToolArgumentPaths,
+} from "./pathPolicy";
+import { getToolFamily, isToolEnabled } from "./operationToggles";
+import { ComputedChecksum } from "./pathInfo";
 
 export interface FileOperation {
   id: string;
-  type: "batch" | "watch" | "search" | "checksum" | "disk_usage";
+  type:
+    | "batch"
+    | "watch"
+    | "search"
+    | "index"
+    | "symlink"
+    | "checksum"
+    | "verify_checksum"
+    | "disk_usage"
+    | "copy"
+    | "sync"
+    | "undo";
   status: "pending" | "running" | "completed" | "failed";
   timestamp: Date;
   details: any;
   result?: any;
   error?: string;
+  duration?: number;
+}
+
+export interface BatchOperation {
+  type: "copy" | "move" | "delete";
+  source: string;
+  destination?: string;
+}
+
+export interface BatchOperationResult {
+  operation: BatchOperation;
+  success: boolean;
+  error?: string;
 }
 
 export interface WatchSession {
@@ -26,8 +74,33 @@ export interface WatchSession {
   startTime: Date;
 }
 
+export interface WatchEvent {
+  type: "create" | "modify" | "delete" | "rename";
+  path: string;
+  timestamp: string;
+  oldPath?: string;
+}
+
+export interface WatchEventsReceived {
+  session: WatchSession;
+  events: WatchEvent[];
+}
+
+/**
+ * Security boundaries of one workspace root
+ */
+export interface SecurityRoot {
+  name: string;
+  workspaceRoot: string;
+  allowedSubdirectories: string[];
+  blockedPaths: string[];
+  blockedPatterns: string[];
+}
+
 export interface SecurityConfig {
   workspaceRoot: string;
+  /** Every root of a multi-root workspace; workspaceRoot is the first */
+  roots?: SecurityRoot[];
   allowedSubdirectories: string[];
   blockedPaths: string[];
   blockedPatterns: string[];
@@ -43,10 +116,46 @@ export interface SecurityConfig {
 export class MCPFilesystemClient extends BaseMCPClient {
   private operations: Map<string, FileOperation> = new Map();
   private watchSessions: Map<string, WatchSession> = new Map();
+  private watchPollers: Map<string, NodeJS.Timeout> = new Map();
+  private watchPollsInFlight: Set<string> = new Set();
+  private readonly watchPollInterval = 2000; // 2 seconds
+  private readonly watchEventsEmitter =
+    new vscode.EventEmitter<WatchEventsReceived>();
+  private readonly watchStoppedEmitter =
+    new vscode.EventEmitter<WatchSession>();
+  private readonly checksumEmitter =
+    new vscode.EventEmitter<ComputedChecksum>();
   private settingsManager?: SettingsManager;
   private errorHandler?: ErrorHandler;
   private settingsSubscription?: vscode.Disposable;
   private serverConfig?: SecurityConfig;
+  private historyStore?: OperationHistoryStore;
+  private undoJournal?: UndoJournal;
+  private auditLogger?: AuditLogger;
+  private readonly rateLimiter: RateLimiter;
+
+  /**
+   * Event fired when polling delivers new events for a watch session
+   */
+  public readonly onDidReceiveWatchEvents: vscode.Event<WatchEventsReceived> =
+    this.watchEventsEmitter.event;
+
+  /**
+   * Event fired when a watch session ends
+   */
+  public readonly onDidStopWatchSession: vscode.Event<WatchSession> =
+    this.watchStoppedEmitter.event;
+
+  /**
+   * Event fired when a checksum has been computed
+   */
+  public readonly onDidComputeChecksum: vscode.Event<ComputedChecksum> =
+    this.checksumEmitter.event;
+
+  /**
+   * Event fired when rate limiter usage changes
+   */
+  public readonly onDidChangeRateLimitUsage: vscode.Event<RateLimitUsage>;
 
   constructor(
     outputChannel: LogOutputChannel,
@@ -56,6 +165,13 @@ export class MCPFilesystemClient extends BaseMCPClient {
     super("Filesystem", outputChannel);
     this.settingsManager = settingsManager;
     this.errorHandler = errorHandler;
+    // Watch sessions poll for events every few seconds; limiting each poll
+    // would use up the budget of the calls that actually touch files
+    this.rateLimiter = new RateLimiter(
+      settingsManager?.getSettings().security.maxOperationsPerMinute ?? 100,
+      { exemptTools: ["fs_get_watch_events"] }
+    );
+    this.onDidChangeRateLimitUsage = this.rateLimiter.onDidChangeUsage;
 
     // Subscribe to settings changes
     if (this.settingsManager) {
@@ -69,12 +185,41 @@ export class MCPFilesystemClient extends BaseMCPClient {
 
   /**
    * Set the server configuration to be passed via IPC
-   * @param config The SecurityConfig to pass to the server
+   * @param config The SecurityConfig to pass to the server, or undefined to
+   * let the server use its defaults
    */
-  public setServerConfig(config: SecurityConfig): void {
+  public setServerConfig(config: SecurityConfig | undefined): void {
     this.serverConfig = config;
   }
 
+  /**
+   * Set the store used to persist operation history
+   * Previously persisted operations are loaded immediately
+   * @param store The OperationHistoryStore to load from and save to
+   */
+  public setHistoryStore(store: OperationHistoryStore): void {
+    this.historyStore = store;
+    for (const operation of store.load()) {
+      this.operations.set(operation.id, operation);
+    }
+  }
+
+  /**
+   * Set the journal used to snapshot files so operations can be undone
+   * @param journal The UndoJournal to record into
+   */
+  public setUndoJournal(journal: UndoJournal): void {
+    this.undoJournal = journal;
+  }
+
+  /**
+   * Set the logger that records every tool call
+   * @param logger The AuditLogger to write to
+   */
+  public setAuditLogger(logger: AuditLogger): void {
+    this.auditLogger = logger;
+  }
+
   async connect(): Promise<void> {
     return this.start();
   }
@@ -179,7 +324,14 @@ export class MCPFilesystemClient extends BaseMCPClient {
 
   // Override stop to add cleanup
   override stop(): void {
+    // Only the in-memory copy is dropped - persisted history is kept
     this.operations.clear();
+
+    // End watch sessions locally - the server drops them with the process
+    for (const session of this.watchSessions.values()) {
+      this.stopWatchPolling(session.id);
+      this.watchStoppedEmitter.fire(session);
+    }
     this.watchSessions.clear();
 
     // Unsubscribe from settings changes
@@ -188,6 +340,9 @@ export class MCPFilesystemClient extends BaseMCPClient {
       this.settingsSubscription = undefined;
     }
 
+    // Queued calls would never reach the stopped server
+    this.rateLimiter.dispose();
+
     // Call parent stop
     super.stop();
   }
@@ -209,25 +364,31 @@ export class MCPFilesystemClient extends BaseMCPClient {
       `Max operations per minute: ${settings.security.maxOperationsPerMinute}`
     );
 
-    // Note: In a real implementation, we might need to reconnect to the server
-    // or update rate limiters based on new settings
+    this.rateLimiter.configure(settings.security.maxOperationsPerMinute);
+
+    // Watch sessions would keep polling a disabled watch family
+    if (!settings.operations.enableWatch) {
+      for (const session of this.getWatchSessions()) {
+        this.log("info", `Directory watching disabled, stopping ${session.id}`);
+        this.stopWatch(session.id).catch((error) => {
+          this.log("warn", `Failed to stop watch session: ${error}`);
+        });
+      }
+    }
+  }
+
+  /**
+   * Get the client-side rate limiter usage
+   */
+  getRateLimitUsage(): RateLimitUsage {
+    return this.rateLimiter.getUsage();
   }
 
   /**
    * Record a batch operation
    */
   recordBatchOperation(operations: any[], atomic: boolean = true): string {
-    const operationId = this.generateOperationId();
-    const operation: FileOperation = {
-      id: operationId,
-      type: "batch",
-      status: "completed",
-      timestamp: new Date(),
-      details: { operations, atomic },
-    };
-
-    this.operations.set(operationId, operation);
-    return operationId;
+    return this.recordOperation("batch", { operations, atomic });
   }
 
   /**
@@ -236,9 +397,9 @@ export class MCPFilesystemClient extends BaseMCPClient {
   recordWatchSession(
     path: string,
     recursive: boolean = false,
-    filters: string[] = []
+    filters: string[] = [],
+    sessionId: string = this.generateOperationId()
   ): string {
-    const sessionId = this.generateOperationId();
     const session: WatchSession = {
       id: sessionId,
       path,
@@ -254,8 +415,10 @@ export class MCPFilesystemClient extends BaseMCPClient {
 
   /**
    * Stop watching a directory
+   * The local session is removed immediately; the server-side watcher is
+   * stopped afterwards when the server is running
    */
-  stopWatch(sessionId: string): void {
+  async stopWatch(sessionId: string): Promise<void> {
     try {
       const session = this.watchSessions.get(sessionId);
       if (!session) {
@@ -272,7 +435,22 @@ export class MCPFilesystemClient extends BaseMCPClient {
         return;
       }
       this.watchSessions.delete(sessionId);
+      this.stopWatchPolling(sessionId);
+      this.watchStoppedEmitter.fire(session);
       this.log("info", `Watch session stopped: ${sessionId}`);
+
+      if (this.isRunning()) {
+        try {
+          await this.callTool("fs_stop_watch", { sessionId });
+        } catch (error: any) {
+          this.log(
+            "warn",
+            `Server failed to stop watch session ${sessionId}: ${
+              error.message || error
+            }`
+          );
+        }
+      }
     } catch (error: any) {
       // Log error but don't throw - handle gracefully
       this.log(
@@ -299,17 +477,7 @@ export class MCPFilesystemClient extends BaseMCPClient {
     searchType: "name" | "content" | "both" = "name",
     fileTypes?: string[]
   ): string {
-    const operationId = this.generateOperationId();
-    const operation: FileOperation = {
-      id: operationId,
-      type: "search",
-      status: "completed",
-      timestamp: new Date(),
-      details: { query, searchType, fileTypes },
-    };
-
-    this.operations.set(operationId, operation);
-    return operationId;
+    return this.recordOperation("search", { query, searchType, fileTypes });
   }
 
   /**
@@ -319,17 +487,7 @@ export class MCPFilesystemClient extends BaseMCPClient {
     path: string,
     algorithm: "md5" | "sha1" | "sha256" | "sha512" = "sha256"
   ): string {
-    const operationId = this.generateOperationId();
-    const operation: FileOperation = {
-      id: operationId,
-      type: "checksum",
-      status: "completed",
-      timestamp: new Date(),
-      details: { path, algorithm },
-    };
-
-    this.operations.set(operationId, operation);
-    return operationId;
+    return this.recordOperation("checksum", { path, algorithm });
   }
 
   /**
@@ -340,19 +498,57 @@ export class MCPFilesystemClient extends BaseMCPClient {
     depth?: number,
     groupByType: boolean = false
   ): string {
+    return this.recordOperation("disk_usage", { path, depth, groupByType });
+  }
+
+  /**
+   * Record an operation as running
+   * @returns The id used to complete or fail the operation later
+   */
+  recordOperation(type: FileOperation["type"], details: any): string {
     const operationId = this.generateOperationId();
     const operation: FileOperation = {
       id: operationId,
-      type: "disk_usage",
-      status: "completed",
+      type,
+      status: "running",
       timestamp: new Date(),
-      details: { path, depth, groupByType },
+      details,
     };
 
     this.operations.set(operationId, operation);
+    this.persistOperations();
     return operationId;
   }
 
+  /**
+   * Mark an operation as completed with its result
+   */
+  completeOperation(operationId: string, result?: any): void {
+    const operation = this.operations.get(operationId);
+    if (!operation) {
+      return;
+    }
+    operation.status = "completed";
+    operation.result = result;
+    operation.duration = Date.now() - operation.timestamp.getTime();
+    this.persistOperations();
+  }
+
+  /**
+   * Mark an operation as failed with its error text
+   */
+  failOperation(operationId: string, error: string, result?: any): void {
+    const operation = this.operations.get(operationId);
+    if (!operation) {
+      return;
+    }
+    operation.status = "failed";
+    operation.error = error;
+    operation.result = result;
+    operation.duration = Date.now() - operation.timestamp.getTime();
+    this.persistOperations();
+  }
+
   /**
    * Get all operations
    */
@@ -381,25 +577,88 @@ export class MCPFilesystemClient extends BaseMCPClient {
    */
   clearOperations(): void {
     this.operations.clear();
+    if (this.historyStore) {
+      this.historyStore.clear().catch((error) => {
+        this.log("warn", `Failed to clear operation history: ${error}`);
+      });
+    }
+    if (this.undoJournal) {
+      this.undoJournal.clear().catch((error) => {
+        this.log("warn", `Failed to clear undo journal: ${error}`);
+      });
+    }
+  }
+
+  /**
+   * Save the operation history to the history store, if any
+   * Entries dropped by retention are removed from memory as well
+   */
+  private persistOperations(): void {
+    if (!this.historyStore) {
+      return;
+    }
+
+    const retained = new Set(
+      this.historyStore
+        .applyRetention(Array.from(this.operations.values()))
+        .map((op) => op.id)
+    );
+    for (const id of this.operations.keys()) {
+      if (!retained.has(id)) {
+        this.operations.delete(id);
+      }
+    }
+
+    this.historyStore.save(this.getOperations()).catch((error) => {
+      this.log("warn", `Failed to persist operation history: ${error}`);
+    });
   }
 
   // ========== Filesystem-Specific Methods ==========
 
   /**
    * Execute batch operations
+   * With dryRun, returns the plan without touching any files
    */
   async batchOperations(params: {
-    operations: any[];
+    operations: BatchOperation[];
     atomic?: boolean;
+    dryRun?: boolean;
   }): Promise<any> {
+    const { dryRun, ...request } = params;
+    if (dryRun) {
+      this.log("info", "Planning batch operations (dry run)");
+      this.assertToolEnabled("fs_batch_operations");
+      this.assertPathsAllowed(request);
+      return this.getDryRunResult(await planBatch(request));
+    }
+
     const operationId = this.recordBatchOperation(
       params.operations,
       params.atomic ?? true
     );
     this.log("info", `Batch operations recorded: ${operationId}`);
 
-    const result = await this.callTool("fs_batch_operations", params);
-    return result;
+    return this.trackOperation(
+      operationId,
+      () =>
+        this.callJournaledTool(
+          operationId,
+          "fs_batch_operations",
+          request,
+          () => planBatch(request)
+        ),
+      (result) => {
+        // Non-atomic batches report per-operation failures in the result
+        const results: BatchOperationResult[] = Array.isArray(result?.results)
+          ? result.results
+          : [];
+        const failed = results.filter((r) => !r.success).length;
+        return failed > 0
+          ? `${failed} of ${results.length} operations failed`
+          : undefined;
+      }
+    );
   }
 
   /**
@@ -410,14 +669,23 @@ export class MCPFilesystemClient extends BaseMCPClient {
     recursive?: boolean;
     filters?: string[];
   }): Promise<any> {
+    const recursive = params.recursive ?? false;
+    const filters = params.filters ?? [];
+
+    // The server owns the session id - later event and stop calls must use it
+    const result = (await this.callTool("fs_watch_directory", {
+      ...params,
+      recursive,
+    })) as any;
     const sessionId = this.recordWatchSession(
       params.path,
-      params.recursive ?? false,
-      params.filters ?? []
+      recursive,
+      filters,
+      result?.sessionId
     );
     this.log("info", `Watch session started: ${sessionId}`);
 
-    const result = await this.callTool("fs_watch_directory", params);
+    this.startWatchPolling(sessionId);
     return { ...result, sessionId };
   }
 
@@ -440,8 +708,7 @@ export class MCPFilesystemClient extends BaseMCPClient {
         throw error;
       }
 
-      const result = await this.callTool("fs_get_watch_events", params);
-      return result;
+      return await this.fetchWatchEvents(session);
     } catch (error: any) {
       if (this.errorHandler && !error.category) {
         this.errorHandler.handleError({
@@ -475,8 +742,9 @@ export class MCPFilesystemClient extends BaseMCPClient {
     );
     this.log("info", `Search operation recorded: ${operationId}`);
 
-    const result = await this.callTool("fs_search_files", params);
-    return result;
+    return this.trackOperation(operationId, () =>
+      this.callTool("fs_search_files", params)
+    );
   }
 
   /**
@@ -486,9 +754,12 @@ export class MCPFilesystemClient extends BaseMCPClient {
     path: string;
     includeContent?: boolean;
   }): Promise<any> {
+    const operationId = this.recordOperation("index", params);
     this.log("info", `Building index for: ${params.path}`);
-    const result = await this.callTool("fs_build_index", params);
-    return result;
+
+    return this.trackOperation(operationId, () =>
+      this.callTool("fs_build_index", params)
+    );
   }
 
   /**
@@ -502,8 +773,11 @@ export class MCPFilesystemClient extends BaseMCPClient {
       "info",
       `Creating symlink: ${params.linkPath} -> ${params.targetPath}`
     );
-    const result = await this.callTool("fs_create_symlink", params);
-    return result;
+    const operationId = this.recordOperation("symlink", params);
+
+    return this.trackOperation(operationId, () =>
+      this.callTool("fs_create_symlink", params)
+    );
   }
 
   /**
@@ -513,13 +787,20 @@ export class MCPFilesystemClient extends BaseMCPClient {
     path: string;
     algorithm?: "md5" | "sha1" | "sha256" | "sha512";
   }): Promise<any> {
-    const operationId = this.recordChecksumOperation(
-      params.path,
-      params.algorithm ?? "sha256"
-    );
+    const algorithm = params.algorithm ?? "sha256";
+    const operationId = this.recordChecksumOperation(params.path, algorithm);
     this.log("info", `Checksum operation recorded: ${operationId}`);
 
-    const result = await this.callTool("fs_compute_checksum", params);
+    const result = await this.trackOperation(operationId, () =>
+      this.callTool("fs_compute_checksum", params)
+    );
+    if (typeof result?.checksum === "string") {
+      this.checksumEmitter.fire({
+        path: params.path,
+        algorithm,
+        checksum: result.checksum,
+      });
+    }
     return result;
   }
 
@@ -531,9 +812,17 @@ export class MCPFilesystemClient extends BaseMCPClient {
     checksum: string;
     algorithm?: "md5" | "sha1" | "sha256" | "sha512";
   }): Promise<any> {
+    const operationId = this.recordOperation("verify_checksum", params);
     this.log("info", `Verifying checksum for: ${params.path}`);
-    const result = await this.callTool("fs_verify_checksum", params);
-    return result;
+
+    return this.trackOperation(
+      operationId,
+      () => this.callTool("fs_verify_checksum", params),
+      (result) =>
+        result?.match === false
+          ? `Checksum mismatch: expected ${result.expected}, got ${result.actual}`
+          : undefined
+    );
   }
 
   /**
@@ -551,43 +840,264 @@ export class MCPFilesystemClient extends BaseMCPClient {
     );
     this.log("info", `Disk usage operation recorded: ${operationId}`);
 
-    const result = await this.callTool("fs_analyze_disk_usage", params);
-    return result;
+    return this.trackOperation(operationId, () =>
+      this.callTool("fs_analyze_disk_usage", params)
+    );
   }
 
   /**
    * Copy directory
+   * With dryRun, returns the plan without touching any files
    */
   async copyDirectory(params: {
     source: string;
     destination: string;
     preserveMetadata?: boolean;
     exclusions?: string[];
+    dryRun?: boolean;
   }): Promise<any> {
+    const { dryRun, ...request } = params;
+    if (dryRun) {
+      this.log(
+        "info",
+        `Planning directory copy (dry run): ${params.source} -> ${params.destination}`
+      );
+      this.assertToolEnabled("fs_copy_directory");
+      this.assertPathsAllowed(request);
+      return this.getDryRunResult(await planCopyDirectory(request));
+    }
+
     this.log(
       "info",
       `Copying directory: ${params.source} -> ${params.destination}`
     );
-    const result = await this.callTool("fs_copy_directory", params);
-    return result;
+    const operationId = this.recordOperation("copy", request);
+
+    return this.trackOperation(operationId, () =>
+      this.callJournaledTool(operationId, "fs_copy_directory", request, () =>
+        planCopyDirectory(request)
+      )
+    );
   }
 
   /**
    * Sync directory
+   * With dryRun, returns the plan without touching any files
    */
   async syncDirectory(params: {
     source: string;
     destination: string;
     exclusions?: string[];
+    dryRun?: boolean;
   }): Promise<any> {
+    const { dryRun, ...request } = params;
+    if (dryRun) {
+      this.log(
+        "info",
+        `Planning directory sync (dry run): ${params.source} -> ${params.destination}`
+      );
+      this.assertToolEnabled("fs_sync_directory");
+      this.assertPathsAllowed(request);
+      return this.getDryRunResult(await planSyncDirectory(request));
+    }
+
     this.log(
       "info",
       `Syncing directory: ${params.source} -> ${params.destination}`
     );
-    const result = await this.callTool("fs_sync_directory", params);
+    const operationId = this.recordOperation("sync", request);
+
+    return this.trackOperation(operationId, () =>
+      this.callJournaledTool(operationId, "fs_sync_directory", request, () =>
+        planSyncDirectory(request)
+      )
+    );
+  }
+
+  /**
+   * Check whether an operation has undo snapshots
+   */
+  canUndo(operationId: string): boolean {
+    return this.undoJournal?.has(operationId) ?? false;
+  }
+
+  /**
+   * Undo an operation from its journal snapshots
+   * Files it created are removed and files it overwrote or deleted restored
+   */
+  async undoOperation(operationId: string): Promise<UndoResult> {
+    const journal = this.undoJournal;
+    if (!journal?.has(operationId)) {
+      throw new Error(`Operation ${operationId} cannot be undone`);
+    }
+
+    this.log("info", `Undoing operation: ${operationId}`);
+    const undoId = this.recordOperation("undo", { operationId });
+    return this.trackOperation(undoId, () => journal.undo(operationId));
+  }
+
+  /**
+   * Call a tool that changes files, snapshotting them for undo once the call
+   * has passed the security checks and the rate limiter
+   * The snapshots are dropped again if the call fails
+   */
+  private async callJournaledTool(
+    operationId: string,
+    name: string,
+    args: unknown,
+    getPlan: () => Promise<OperationPlan>
+  ): Promise<unknown> {
+    try {
+      return await this.runToolCall(name, args, () =>
+        this.journalOperation(operationId, getPlan)
+      );
+    } catch (error) {
+      if (this.undoJournal?.has(operationId)) {
+        await this.undoJournal.discard(operationId).catch((discardError) => {
+          this.log(
+            "warn",
+            `Failed to discard undo snapshot of ${operationId}: ${discardError}`
+          );
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Snapshot the files an operation will change before it runs
+   * Journaling failures are logged and never block the operation
+   */
+  private async journalOperation(
+    operationId: string,
+    getPlan: () => Promise<OperationPlan>
+  ): Promise<void> {
+    if (!this.undoJournal?.isEnabled()) {
+      return;
+    }
+    try {
+      const entry = await this.undoJournal.record(operationId, await getPlan());
+      this.log(
+        "info",
+        `Undo snapshot recorded for ${operationId}: ${entry.files.length} files`
+      );
+    } catch (error: any) {
+      this.log(
+        "warn",
+        `Operation ${operationId} cannot be undone: ${error.message || error}`
+      );
+    }
+  }
+
+  /**
+   * Wrap a dry-run plan in the shape of a tool result
+   */
+  private getDryRunResult(plan: OperationPlan): any {
+    return { status: "success", dryRun: true, plan };
+  }
+
+  /**
+   * Run a tool call for a recorded operation
+   * Completes or fails the operation with the actual outcome and rethrows
+   * errors so callers still see them
+   * @param getFailure - Optional check for failures reported inside a result
+   */
+  private async trackOperation(
+    operationId: string,
+    run: () => Promise<unknown>,
+    getFailure?: (result: any) => string | undefined
+  ): Promise<any> {
+    let result: any;
+    try {
+      result = await run();
+    } catch (error: any) {
+      this.failOperation(operationId, error.message || String(error));
+      throw error;
+    }
+
+    // Some tools report failure through the response status instead of isError
+    const failure =
+      result?.status === "error"
+        ? result.message || "Tool reported an error"
+        : getFailure?.(result);
+
+    if (failure) {
+      this.failOperation(operationId, failure, result);
+    } else {
+      this.completeOperation(operationId, result);
+    }
     return result;
   }
 
+  /**
+   * Fetch pending events for a session from the server
+   * Updates the session event count and notifies listeners
+   */
+  private async fetchWatchEvents(session: WatchSession): Promise<any> {
+    const result = (await this.callTool("fs_get_watch_events", {
+      sessionId: session.id,
+    })) as any;
+
+    const events: WatchEvent[] = Array.isArray(result?.events)
+      ? result.events
+      : [];
+
+    // Session may have been stopped while the request was in flight
+    if (events.length > 0 && this.watchSessions.has(session.id)) {
+      session.eventCount += events.length;
+      this.watchEventsEmitter.fire({ session, events });
+    }
+
+    return result;
+  }
+
+  /**
+   * Start polling the server for events of a watch session
+   */
+  private startWatchPolling(sessionId: string): void {
+    this.stopWatchPolling(sessionId);
+
+    const timer = setInterval(async () => {
+      const session = this.watchSessions.get(sessionId);
+      if (!session) {
+        this.stopWatchPolling(sessionId);
+        return;
+      }
+
+      // Skip this tick if the previous poll has not returned yet
+      if (this.watchPollsInFlight.has(sessionId)) {
+        return;
+      }
+
+      this.watchPollsInFlight.add(sessionId);
+      try {
+        await this.fetchWatchEvents(session);
+      } catch (error: any) {
+        this.log(
+          "warn",
+          `Failed to poll watch events for ${sessionId}: ${
+            error.message || error
+          }`
+        );
+      } finally {
+        this.watchPollsInFlight.delete(sessionId);
+      }
+    }, this.watchPollInterval);
+
+    this.watchPollers.set(sessionId, timer);
+  }
+
+  /**
+   * Stop polling a watch session
+   */
+  private stopWatchPolling(sessionId: string): void {
+    const timer = this.watchPollers.get(sessionId);
+    if (timer) {
+      clearInterval(timer);
+      this.watchPollers.delete(sessionId);
+    }
+  }
+
   private generateOperationId(): string {
     return `op_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -597,6 +1107,128 @@ export class MCPFilesystemClient extends BaseMCPClient {
     name: string,
     args: unknown
   ): Promise<unknown> {
+    return this.runToolCall(name, args);
+  }
+
+  /**
+   * Check, rate limit, send and audit a tool call
+   * @param beforeSend - Runs once the call has passed every check, just
+   * before it is sent
+   */
+  private async runToolCall(
+    name: string,
+    args: unknown,
+    beforeSend?: () => Promise<void>
+  ): Promise<unknown> {
+    const caller = getAuditCaller();
+    const start = Date.now();
+    try {
+      // Defence in depth: enforce the security settings, the operation
+      // toggles and maxOperationsPerMinute even if the server does not
+      this.assertToolEnabled(name);
+      this.assertPathsAllowed(args);
+      await this.rateLimiter.acquire(name);
+      await beforeSend?.();
+      const result = await this.sendToolCall(name, args);
+      this.writeAuditRecord({
+        tool: name,
+        args,
+        caller,
+        outcome: (result as any)?.status === "error" ? "failure" : "success",
+        error:
+          (result as any)?.status === "error"
+            ? (result as any).message
+            : undefined,
+        durationMs: Date.now() - start,
+      });
+      return result;
+    } catch (error: any) {
+      this.writeAuditRecord({
+        tool: name,
+        args,
+        caller,
+        outcome: "failure",
+        error: error.message || String(error),
+        durationMs: Date.now() - start,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reject a call to a tool whose operation family is disabled
+   * @throws A CONFIGURATION_ERROR naming the setting that disables the tool
+   */
+  private assertToolEnabled(name: string): void {
+    const family = getToolFamily(name);
+    if (
+      !family ||
+      !this.settingsManager ||
+      isToolEnabled(name, this.settingsManager.getSettings().operations)
+    ) {
+      return;
+    }
+
+    this.log("warn", `Refused ${name}: operations.${family.setting} is off`);
+    const error = new Error(
+      `${name} is disabled by mcp-filesystem.operations.${family.setting} or the project policy file`
+    ) as FilesystemError;
+    error.name = "OperationDisabledError";
+    error.category = ErrorCategory.CONFIGURATION_ERROR;
+    error.context = { tool: name, setting: family.setting };
+    throw error;
+  }
+
+  /**
+   * Reject a tool call whose paths violate the security settings
+   * @throws A SECURITY_ERROR naming the path and the boundary, blocked path
+   * or pattern it violates
+   */
+  private assertPathsAllowed(args: unknown): void {
+    const policies = this.getPathPolicies();
+    const paths = getToolArgumentPaths(args, policies[0].workspaceRoot);
+    for (const target of paths) {
+      const violation = checkPathPolicies(target, policies);
+      if (violation) {
+        this.log("warn", `Blocked ${target}: ${violation.reason}`);
+        throw createPathPolicyError(violation);
+      }
+    }
+  }
+
+  /**
+   * Get one policy per workspace root
+   */
+  private getPathPolicies(): PathPolicy[] {
+    // The server config is already resolved
+    if (this.serverConfig?.roots?.length) {
+      return this.serverConfig.roots.map((root) => ({
+        ...createPathPolicy(root),
+        name: root.name,
+      }));
+    }
+    if (this.serverConfig) {
+      return [createPathPolicy(this.serverConfig)];
+    }
+    if (this.settingsManager) {
+      return createPathPolicies(
+        this.settingsManager.getSettings().security,
+        this.settingsManager.getFolderSecuritySettings(),
+        this.settingsManager.getVariableContext()
+      );
+    }
+    return [
+      { allowedSubdirectories: [], blockedPaths: [], blockedPatterns: [] },
+    ];
+  }
+
+  private writeAuditRecord(record: Parameters<AuditLogger["log"]>[0]): void {
+    this.auditLogger?.log(record).catch((error) => {
+      this.log("warn", `Failed to write audit record: ${error}`);
+    });
+  }
+
+  private async sendToolCall(name: string, args: unknown): Promise<unknown> {
     const result = (await this.sendRequest("tools/call", {
       name,
       arguments: args,
@@ -0,0 +1,126 @@
+import * as vscode from "vscode";
+import { FileOperation } from "./mcpClient";
+import { HistorySettings, SettingsManager } from "./settingsManager";
+
+/**
+ * Operation as stored in workspace state (dates serialized as ISO strings)
+ */
+interface StoredOperation extends Omit<FileOperation, "timestamp"> {
+  timestamp: string;
+}
+
+/**
+ * Operation History Store
+ * Persists the operation history in workspace state so it survives reloads
+ * and server restarts, applying the configured retention limits
+ */
+export class OperationHistoryStore {
+  static readonly storageKey = "mcp-filesystem.operationHistory";
+  private readonly maxResultSize = 64 * 1024; // 64 KB of JSON per result
+  private readonly storage: vscode.Memento;
+  private readonly settingsManager?: SettingsManager;
+
+  /**
+   * Create a new Operation History Store
+   * @param storage - Memento to persist into (usually workspaceState)
+   * @param settingsManager - Optional settings manager for retention limits
+   */
+  constructor(storage: vscode.Memento, settingsManager?: SettingsManager) {
+    this.storage = storage;
+    this.settingsManager = settingsManager;
+  }
+
+  /**
+   * Load persisted operations
+   * Operations that were still running when the history was saved are
+   * reported as failed, since their outcome is unknown
+   */
+  load(): FileOperation[] {
+    if (!this.getHistorySettings().persist) {
+      return [];
+    }
+
+    const stored = this.storage.get<StoredOperation[]>(
+      OperationHistoryStore.storageKey,
+      []
+    );
+
+    const operations = stored.map((op): FileOperation => {
+      const operation: FileOperation = {
+        ...op,
+        timestamp: new Date(op.timestamp),
+      };
+      if (operation.status === "running" || operation.status === "pending") {
+        operation.status = "failed";
+        operation.error = "Interrupted before completion";
+      }
+      return operation;
+    });
+
+    return this.applyRetention(operations);
+  }
+
+  /**
+   * Persist operations, applying retention limits
+   */
+  async save(operations: FileOperation[]): Promise<void> {
+    if (!this.getHistorySettings().persist) {
+      return;
+    }
+
+    const stored = this.applyRetention(operations).map(
+      (op): StoredOperation => ({
+        ...op,
+        timestamp: op.timestamp.toISOString(),
+        result: this.limitResult(op.result),
+      })
+    );
+
+    await this.storage.update(OperationHistoryStore.storageKey, stored);
+  }
+
+  /**
+   * Remove all persisted operations
+   */
+  async clear(): Promise<void> {
+    await this.storage.update(OperationHistoryStore.storageKey, undefined);
+  }
+
+  /**
+   * Keep the newest operations within the configured count and age limits
+   */
+  applyRetention(operations: FileOperation[]): FileOperation[] {
+    const { maxEntries, maxAgeDays } = this.getHistorySettings();
+    const cutoff =
+      maxAgeDays > 0 ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+
+    return [...operations]
+      .filter((op) => op.timestamp.getTime() >= cutoff)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, Math.max(maxEntries, 0));
+  }
+
+  /**
+   * Replace oversized results so the workspace state stays small
+   */
+  private limitResult(result: any): any {
+    if (result === undefined) {
+      return undefined;
+    }
+    try {
+      const size = JSON.stringify(result).length;
+      return size > this.maxResultSize
+        ? { truncated: true, originalSize: size }
+        : result;
+    } catch {
+      return { truncated: true };
+    }
+  }
+
+  private getHistorySettings(): HistorySettings {
+    if (this.settingsManager) {
+      return this.settingsManager.getSettings().history;
+    }
+    return { persist: true, maxEntries: 500, maxAgeDays: 30 };
+  }
+}
@@ -0,0 +1,267 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BatchOperation } from "./mcpClient";
+
+/**
+ * What an operation would do to a single file
+ */
+export type PlanAction = "create" | "overwrite" | "delete" | "skip";
+
+/**
+ * Planned change to a single file
+ */
+export interface PlanEntry {
+  action: PlanAction;
+  path: string;
+  source?: string;
+  size: number;
+  reason?: string;
+}
+
+/**
+ * Dry-run plan for a batch, copy or sync operation
+ */
+export interface OperationPlan {
+  operation: "batch" | "copy" | "sync";
+  entries: PlanEntry[];
+  totals: {
+    create: number;
+    overwrite: number;
+    delete: number;
+    skip: number;
+    bytesWritten: number;
+    bytesDeleted: number;
+  };
+}
+
+/**
+ * Plan a batch without executing it
+ * Mirrors the server: copy/move replace existing destinations and directory
+ * sources are applied file by file
+ */
+export async function planBatch(params: {
+  operations: BatchOperation[];
+}): Promise<OperationPlan> {
+  const entries: PlanEntry[] = [];
+
+  for (const operation of params.operations) {
+    const files = await listFiles(operation.source);
+    if (files.length === 0) {
+      entries.push({
+        action: "skip",
+        path: operation.source,
+        size: 0,
+        reason: "source not found",
+      });
+      continue;
+    }
+
+    for (const file of files) {
+      if (operation.type !== "delete" && operation.destination) {
+        const destination =
+          file.relative === ""
+            ? operation.destination
+            : path.join(operation.destination, file.relative);
+        entries.push({
+          action: fs.existsSync(destination) ? "overwrite" : "create",
+          path: destination,
+          source: file.path,
+          size: file.size,
+        });
+      }
+      if (operation.type !== "copy") {
+        entries.push({ action: "delete", path: file.path, size: file.size });
+      }
+    }
+  }
+
+  return createPlan("batch", entries);
+}
+
+/**
+ * Plan a directory copy without executing it
+ */
+export async function planCopyDirectory(params: {
+  source: string;
+  destination: string;
+  exclusions?: string[];
+}): Promise<OperationPlan> {
+  const entries = await planTree(
+    params.source,
+    params.destination,
+    compileExclusions(params.exclusions),
+    () => undefined
+  );
+  return createPlan("copy", entries);
+}
+
+/**
+ * Plan a directory sync without executing it
+ * Files whose destination is at least as new as the source are skipped
+ */
+export async function planSyncDirectory(params: {
+  source: string;
+  destination: string;
+  exclusions?: string[];
+}): Promise<OperationPlan> {
+  const entries = await planTree(
+    params.source,
+    params.destination,
+    compileExclusions(params.exclusions),
+    (sourceStats, destStats) =>
+      sourceStats.mtime <= destStats.mtime ? "up to date" : undefined
+  );
+  return createPlan("sync", entries);
+}
+
+/**
+ * Combine the plans of several operations of the same kind
+ */
+export function mergePlans(plans: OperationPlan[]): OperationPlan {
+  return createPlan(
+    plans[0]?.operation ?? "batch",
+    plans.flatMap((plan) => plan.entries)
+  );
+}
+
+/**
+ * Compile exclusion globs the way the server does: a simplified
+ * glob-to-regex conversion matched against the entry name
+ */
+export function compileExclusions(exclusions: string[] = []): RegExp[] {
+  return exclusions.map(
+    (glob) =>
+      new RegExp(
+        glob.replace(/\./g, "\\.").replace(/\*/g, ".*").replace(/\?/g, ".")
+      )
+  );
+}
+
+/**
+ * Walk a source tree and plan each file against the destination
+ * @param getSkipReason - Returns a reason when an existing destination file
+ * should be left alone
+ */
+async function planTree(
+  source: string,
+  destination: string,
+  exclusions: RegExp[],
+  getSkipReason: (
+    sourceStats: fs.Stats,
+    destStats: fs.Stats
+  ) => string | undefined
+): Promise<PlanEntry[]> {
+  const entries: PlanEntry[] = [];
+
+  const visit = async (sourceDir: string, destDir: string): Promise<void> => {
+    const children = await fs.promises.readdir(sourceDir, {
+      withFileTypes: true,
+    });
+
+    for (const child of children) {
+      const sourcePath = path.join(sourceDir, child.name);
+      const destPath = path.join(destDir, child.name);
+
+      if (exclusions.some((pattern) => pattern.test(child.name))) {
+        entries.push({
+          action: "skip",
+          path: destPath,
+          source: sourcePath,
+          size: 0,
+          reason: "excluded",
+        });
+        continue;
+      }
+
+      if (child.isDirectory()) {
+        await visit(sourcePath, destPath);
+      } else if (child.isFile()) {
+        const sourceStats = await fs.promises.stat(sourcePath);
+        const destStats = await statOrUndefined(destPath);
+        const reason = destStats
+          ? getSkipReason(sourceStats, destStats)
+          : undefined;
+
+        entries.push({
+          action: reason ? "skip" : destStats ? "overwrite" : "create",
+          path: destPath,
+          source: sourcePath,
+          size: sourceStats.size,
+          reason,
+        });
+      }
+    }
+  };
+
+  await visit(source, destination);
+  return entries;
+}
+
+/**
+ * List the files under a path (the path itself if it is a file)
+ */
+async function listFiles(
+  target: string
+): Promise<Array<{ path: string; relative: string; size: number }>> {
+  const stats = await statOrUndefined(target);
+  if (!stats) {
+    return [];
+  }
+  if (!stats.isDirectory()) {
+    return [{ path: target, relative: "", size: stats.size }];
+  }
+
+  const files: Array<{ path: string; relative: string; size: number }> = [];
+  const visit = async (dir: string): Promise<void> => {
+    for (const child of await fs.promises.readdir(dir, {
+      withFileTypes: true,
+    })) {
+      const childPath = path.join(dir, child.name);
+      if (child.isDirectory()) {
+        await visit(childPath);
+      } else {
+        const childStats = await fs.promises.lstat(childPath);
+        files.push({
+          path: childPath,
+          relative: path.relative(target, childPath),
+          size: childStats.size,
+        });
+      }
+    }
+  };
+  await visit(target);
+  return files;
+}
+
+async function statOrUndefined(target: string): Promise<fs.Stats | undefined> {
+  try {
+    return await fs.promises.stat(target);
+  } catch {
+    return undefined;
+  }
+}
+
+function createPlan(
+  operation: OperationPlan["operation"],
+  entries: PlanEntry[]
+): OperationPlan {
+  const totals = {
+    create: 0,
+    overwrite: 0,
+    delete: 0,
+    skip: 0,
+    bytesWritten: 0,
+    bytesDeleted: 0,
+  };
+
+  for (const entry of entries) {
+    totals[entry.action]++;
+    if (entry.action === "create" || entry.action === "overwrite") {
+      totals.bytesWritten += entry.size;
+    } else if (entry.action === "delete") {
+      totals.bytesDeleted += entry.size;
+    }
+  }
+
+  return { operation, entries, totals };
+}
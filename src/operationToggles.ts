@@ -0,0 +1,104 @@
+/**
+ * Operation families switched on and off by `mcp-filesystem.operations.*`
+ * Shared by the client, the extension and the language server, so a
+ * disabled family is refused, hidden and left out of Copilot's context alike
+ */
+
+/**
+ * A setting that enables an operation family
+ */
+export type OperationSetting =
+  | "enableBatch"
+  | "enableWatch"
+  | "enableSearch"
+  | "enableChecksum";
+
+/**
+ * The tools and commands an operation setting controls
+ */
+export interface OperationFamily {
+  setting: OperationSetting;
+  label: string;
+  /** Context key set while the family is disabled, for `when` clauses */
+  contextKey: string;
+  tools: string[];
+  commands: string[];
+}
+
+/**
+ * Every operation family
+ * `fs_stop_watch` is not part of the watch family, so sessions can always
+ * be stopped
+ */
+export const OPERATION_FAMILIES: OperationFamily[] = [
+  {
+    setting: "enableBatch",
+    label: "Batch operations",
+    contextKey: "mcp-filesystem.batchDisabled",
+    tools: ["fs_batch_operations", "fs_copy_directory", "fs_sync_directory"],
+    commands: [
+      "mcp-filesystem.batchOperations",
+      "mcp-filesystem.copyDirectory",
+      "mcp-filesystem.syncDirectory",
+    ],
+  },
+  {
+    setting: "enableWatch",
+    label: "Directory watching",
+    contextKey: "mcp-filesystem.watchDisabled",
+    tools: ["fs_watch_directory", "fs_get_watch_events"],
+    commands: [
+      "mcp-filesystem.watchDirectory",
+      "mcp-filesystem.getWatchEvents",
+    ],
+  },
+  {
+    setting: "enableSearch",
+    label: "File search",
+    contextKey: "mcp-filesystem.searchDisabled",
+    tools: ["fs_search_files", "fs_build_index"],
+    commands: ["mcp-filesystem.searchFiles", "mcp-filesystem.buildIndex"],
+  },
+  {
+    setting: "enableChecksum",
+    label: "Checksum operations",
+    contextKey: "mcp-filesystem.checksumDisabled",
+    tools: ["fs_compute_checksum", "fs_verify_checksum"],
+    commands: [
+      "mcp-filesystem.computeChecksum",
+      "mcp-filesystem.verifyChecksum",
+      "mcp-filesystem.createChecksumManifest",
+      "mcp-filesystem.verifyChecksumManifest",
+    ],
+  },
+];
+
+/**
+ * Find the operation family a tool belongs to
+ * @returns The family, or undefined for tools that cannot be disabled
+ */
+export function getToolFamily(toolName: string): OperationFamily | undefined {
+  return OPERATION_FAMILIES.find((family) => family.tools.includes(toolName));
+}
+
+/**
+ * Check whether a tool may be called
+ */
+export function isToolEnabled(
+  toolName: string,
+  operations: Record<OperationSetting, boolean>
+): boolean {
+  const family = getToolFamily(toolName);
+  return !family || operations[family.setting];
+}
+
+/**
+ * Check whether a command may be run
+ */
+export function isCommandEnabled(
+  commandId: string,
+  operations: Record<OperationSetting, boolean>
+): boolean {
+  const family = OPERATION_FAMILIES.find((f) => f.commands.includes(commandId));
+  return !family || operations[family.setting];
+}
@@ -2,6 +2,7 @@ import * as vscode from "vscode";
 import { MCPFilesystemClient, FileOperation, WatchSession } from "./mcpClient";
 import { SettingsManager } from "./settingsManager";
 import { ErrorHandler, ErrorCategory } from "./errorHandling";
+import { isCommandEnabled } from "./operationToggles";
 
 /**
  * Operations Tree Data Provider
@@ -21,6 +22,7 @@ export class OperationsTreeDataProvider
   private settingsManager?: SettingsManager;
   private errorHandler?: ErrorHandler;
   private settingsSubscription?: vscode.Disposable;
+  private clientSubscriptions: vscode.Disposable[] = [];
 
   /**
    * Create a new Operations Tree Data Provider
@@ -44,7 +46,17 @@ export class OperationsTreeDataProvider
    * @param client - The MCP filesystem client to use for operations
    */
   setMCPClient(client: MCPFilesystemClient | undefined): void {
+    this.disposeClientSubscriptions();
     this.mcpClient = client;
+
+    // Keep watch session event counts current
+    if (client) {
+      this.clientSubscriptions.push(
+        client.onDidReceiveWatchEvents(() => this.refresh()),
+        client.onDidStopWatchSession(() => this.refresh())
+      );
+    }
+
     this.refresh();
   }
 
@@ -64,9 +76,17 @@ export class OperationsTreeDataProvider
     if (this.settingsSubscription) {
       this.settingsSubscription.dispose();
     }
+    this.disposeClientSubscriptions();
     this._onDidChangeTreeData.dispose();
   }
 
+  private disposeClientSubscriptions(): void {
+    for (const subscription of this.clientSubscriptions) {
+      subscription.dispose();
+    }
+    this.clientSubscriptions = [];
+  }
+
   /**
    * Get tree item representation
    * @param element - The operation item to convert to a tree item
@@ -145,7 +165,8 @@ export class OperationsTreeDataProvider
 
       // Handle children based on category
       if (element.categoryId === "quick-actions") {
-        return Promise.resolve([
+        const operations = this.settingsManager?.getSettings().operations;
+        const actions = [
           new OperationItem(
             "Batch Operations",
             "Execute multiple file operations",
@@ -181,7 +202,18 @@ export class OperationsTreeDataProvider
             "disk",
             "mcp-filesystem.analyzeDiskUsage"
           ),
-        ]);
+        ];
+
+        // Disabled operation families have no quick action
+        return Promise.resolve(
+          operations
+            ? actions.filter(
+                (action) =>
+                  !action.commandId ||
+                  isCommandEnabled(action.commandId, operations)
+              )
+            : actions
+        );
       }
 
       if (element.categoryId === "watch-sessions" && this.mcpClient) {
@@ -220,7 +252,8 @@ export class OperationsTreeDataProvider
 
       if (element.categoryId === "recent-operations" && this.mcpClient) {
         try {
-          const operations = this.mcpClient.getRecentOperations(5);
+          const client = this.mcpClient;
+          const operations = client.getRecentOperations(5);
           return Promise.resolve(
             operations.map(
               (op) =>
@@ -232,7 +265,8 @@ export class OperationsTreeDataProvider
                   undefined,
                   undefined,
                   undefined,
-                  op
+                  op,
+                  client.canUndo(op.id)
                 )
             )
           );
@@ -278,7 +312,8 @@ class OperationItem extends vscode.TreeItem {
     public readonly commandId?: string,
     public readonly categoryId?: string,
     public readonly watchSession?: WatchSession,
-    public readonly operation?: FileOperation
+    public readonly operation?: FileOperation,
+    public readonly undoable = false
   ) {
     super(label, collapsibleState);
     this.description = description;
@@ -294,9 +329,15 @@ class OperationItem extends vscode.TreeItem {
       this.tooltip = `Type: ${operation.type}\nStatus: ${
         operation.status
       }\nTime: ${operation.timestamp.toLocaleString()}`;
+      if (operation.duration !== undefined) {
+        this.tooltip += `\nDuration: ${operation.duration} ms`;
+      }
       if (operation.error) {
         this.tooltip += `\nError: ${operation.error}`;
       }
+      if (undoable) {
+        this.tooltip += "\nCan be undone";
+      }
     } else {
       this.tooltip = description;
     }
@@ -312,7 +353,7 @@ class OperationItem extends vscode.TreeItem {
     if (watchSession) {
       this.contextValue = "watchSession";
     } else if (operation) {
-      this.contextValue = "operation";
+      this.contextValue = undoable ? "operation.undoable" : "operation";
     }
 
     // Set icon based on operation type
@@ -0,0 +1,188 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  PathPolicy,
+  checkPathPolicies,
+  explainPathPolicy,
+  selectPathPolicy,
+} from "./pathPolicy";
+import { formatBytes } from "./utils";
+
+/**
+ * Facts about workspace paths for the language server: directory entries,
+ * their types and sizes and the checksums the extension computed
+ */
+
+/**
+ * Kind of a filesystem entry
+ */
+export type PathType = "file" | "directory" | "other";
+
+/**
+ * An entry of a directory
+ */
+export interface PathEntry {
+  name: string;
+  /** Type of the entry, or of its target for symlinks */
+  type: PathType;
+  isSymlink: boolean;
+  /** Size in bytes, for files */
+  size?: number;
+}
+
+/**
+ * Metadata of an existing path
+ */
+export interface PathStats extends PathEntry {
+  mtime: Date;
+}
+
+/**
+ * A checksum the extension computed, sent to the language server
+ */
+export interface ComputedChecksum {
+  path: string;
+  algorithm: string;
+  checksum: string;
+}
+
+/**
+ * Notification the extension sends the language server with each
+ * checksum computed through the MCP client
+ */
+export const CHECKSUM_NOTIFICATION = "mcp-filesystem/checksumComputed";
+
+// Directories such as node_modules can be huge; completion only needs a few
+const MAX_DIRECTORY_ENTRIES = 500;
+
+/**
+ * Check whether an absolute path is the root or inside it
+ */
+export function isWithinRoot(target: string, root: string): boolean {
+  const fromRoot = path.relative(root, target);
+  return (
+    fromRoot === "" ||
+    (fromRoot !== ".." &&
+      !fromRoot.startsWith("../") &&
+      !fromRoot.startsWith("..\\") &&
+      !path.isAbsolute(fromRoot))
+  );
+}
+
+/**
+ * Check whether the policies let the agent reach a path: the path is
+ * allowed, or it is a directory on the way to an allowed subdirectory
+ */
+function isReachable(
+  target: string,
+  isDirectory: boolean,
+  policies: PathPolicy[]
+): boolean {
+  if (!checkPathPolicies(target, policies)) {
+    return true;
+  }
+  const policy = selectPathPolicy(target, policies) ?? policies[0];
+  const root = policy?.workspaceRoot;
+  return (
+    isDirectory &&
+    !!root &&
+    explainPathPolicy(target, policy)
+      .filter((check) => !check.passed)
+      .every((check) => check.rule === "Allowed subdirectories") &&
+    policy.allowedSubdirectories.some((dir) =>
+      isWithinRoot(path.resolve(root, dir), target)
+    )
+  );
+}
+
+/**
+ * Get the metadata of a path, following symlinks
+ * @returns The metadata, or undefined if nothing exists at the path
+ */
+export async function statPath(target: string): Promise<PathStats | undefined> {
+  const link = await fs.promises.lstat(target).catch(() => undefined);
+  if (!link) {
+    return undefined;
+  }
+  const stats = link.isSymbolicLink()
+    ? await fs.promises.stat(target).catch(() => undefined)
+    : link;
+  return {
+    name: path.basename(target),
+    type: getPathType(stats),
+    isSymlink: link.isSymbolicLink(),
+    size: stats?.isFile() ? stats.size : undefined,
+    mtime: (stats ?? link).mtime,
+  };
+}
+
+/**
+ * List a directory, leaving out entries the policies do not let the agent
+ * reach
+ * @param policies - Policies of the workspace folders, the document's first
+ * @returns The entries, or an empty list if the directory cannot be read
+ */
+export async function listDirectory(
+  directory: string,
+  policies: PathPolicy[]
+): Promise<PathEntry[]> {
+  let dirents: fs.Dirent[];
+  try {
+    dirents = await fs.promises.readdir(directory, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const visible = dirents
+    .filter((dirent) =>
+      isReachable(
+        path.join(directory, dirent.name),
+        dirent.isDirectory(),
+        policies
+      )
+    )
+    .slice(0, MAX_DIRECTORY_ENTRIES);
+  return Promise.all(
+    visible.map(async (dirent) => {
+      const stats = await fs.promises
+        .stat(path.join(directory, dirent.name))
+        .catch(() => undefined);
+      return {
+        name: dirent.name,
+        type: getPathType(stats),
+        isSymlink: dirent.isSymbolicLink(),
+        size: stats?.isFile() ? stats.size : undefined,
+      };
+    })
+  );
+}
+
+/**
+ * Get the type of an entry from its stats
+ */
+export function getPathType(stats: fs.Stats | undefined): PathType {
+  if (stats?.isDirectory()) {
+    return "directory";
+  }
+  return stats?.isFile() ? "file" : "other";
+}
+
+/**
+ * Describe an entry's type and size for display, e.g. `File · 1.2 KB`
+ */
+export function describePathEntry(entry: PathEntry): string {
+  const type =
+    entry.type === "directory"
+      ? "Directory"
+      : entry.type === "file"
+      ? "File"
+      : "Special file";
+  const label = entry.isSymlink
+    ? entry.type === "other"
+      ? "Symbolic link"
+      : `Symbolic link to ${type.toLowerCase()}`
+    : type;
+  return entry.size !== undefined
+    ? `${label} · ${formatBytes(entry.size)}`
+    : label;
+}
@@ -0,0 +1,410 @@
+import * as os from "os";
+import * as path from "path";
+import { PlatformDetection } from "./platformDetection";
+import { findMatchingPattern } from "./globMatcher";
+import { FolderSecuritySettings, SecuritySettings } from "./settingsManager";
+import { SecurityConfig } from "./mcpClient";
+import {
+  VariableContext,
+  expandVariables,
+  getUnresolvedVariables,
+} from "./variableResolver";
+
+/**
+ * Security settings a path is checked against
+ */
+export interface PathPolicy {
+  name?: string;
+  workspaceRoot?: string;
+  allowedSubdirectories: string[];
+  blockedPaths: string[];
+  blockedPatterns: string[];
+}
+
+/**
+ * Outcome of one policy rule for a path
+ */
+export interface PathPolicyCheck {
+  rule: string;
+  passed: boolean;
+  detail: string;
+  violation?: PathPolicyViolation;
+}
+
+/**
+ * Why a path was rejected
+ */
+export interface PathPolicyViolation {
+  path: string;
+  reason: string;
+  boundary?: string;
+  blockedPath?: string;
+  pattern?: string;
+}
+
+/**
+ * Tool argument keys whose values are paths
+ */
+const pathArgumentKeys = new Set(["path", "linkPath", "source", "destination"]);
+
+/**
+ * Resolve the configured workspace root
+ * @param workspaceRoot - Configured root, possibly containing variables
+ * @param context - Values for variables; without it the root is used as is
+ * @returns The absolute root, or undefined if it cannot be resolved
+ */
+export function resolveWorkspaceRoot(
+  workspaceRoot: string,
+  context?: VariableContext
+): string | undefined {
+  const resolved = context
+    ? expandVariables(workspaceRoot.trim(), context)
+    : workspaceRoot.trim();
+
+  if (
+    !resolved ||
+    getUnresolvedVariables(resolved).length > 0 ||
+    !path.isAbsolute(resolved)
+  ) {
+    return undefined;
+  }
+  return path.normalize(resolved);
+}
+
+/**
+ * Collect the paths a tool call would touch, resolved against the workspace
+ * root. Symlink targets are resolved against the link's directory. Relative
+ * paths are returned as given when there is no root to resolve them against
+ */
+export function getToolArgumentPaths(
+  args: unknown,
+  workspaceRoot?: string,
+  found: string[] = []
+): string[] {
+  const resolve = (...segments: string[]) =>
+    workspaceRoot
+      ? path.resolve(workspaceRoot, ...segments)
+      : path.join(...segments);
+
+  if (Array.isArray(args)) {
+    for (const item of args) {
+      getToolArgumentPaths(item, workspaceRoot, found);
+    }
+  } else if (args && typeof args === "object") {
+    const record = args as Record<string, unknown>;
+    for (const [key, value] of Object.entries(record)) {
+      if (typeof value === "string" && pathArgumentKeys.has(key)) {
+        found.push(resolve(value));
+      } else if (typeof value === "string" && key === "targetPath") {
+        const linkDir =
+          typeof record.linkPath === "string"
+            ? path.dirname(record.linkPath)
+            : "";
+        found.push(resolve(linkDir, value));
+      } else if (typeof value === "object") {
+        getToolArgumentPaths(value, workspaceRoot, found);
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Build the policy for the configured security settings
+ * @param security - Security settings or server configuration
+ * @param context - Values for variables in path settings; without it the
+ * settings are taken as already resolved
+ */
+export function createPathPolicy(
+  security: Omit<PathPolicy, "workspaceRoot"> & { workspaceRoot: string },
+  context?: VariableContext
+): PathPolicy {
+  const expand = (value: string) =>
+    context ? expandVariables(value, context) : value;
+  return {
+    workspaceRoot: resolveWorkspaceRoot(security.workspaceRoot, context),
+    allowedSubdirectories: security.allowedSubdirectories.map(expand),
+    blockedPaths: security.blockedPaths.map(expand),
+    blockedPatterns: security.blockedPatterns,
+  };
+}
+
+/**
+ * Build one policy per workspace folder, or a single policy from the
+ * window-level settings when no folder is open
+ * @param security - Window-level security settings
+ * @param folders - Security settings of each workspace folder
+ * @param context - Values for variables; `${workspaceFolder}` is set to
+ * each folder in turn
+ */
+export function createPathPolicies(
+  security: Omit<PathPolicy, "workspaceRoot"> & { workspaceRoot: string },
+  folders: FolderSecuritySettings[],
+  context?: VariableContext
+): PathPolicy[] {
+  if (folders.length === 0) {
+    return [createPathPolicy(security, context)];
+  }
+  return folders.map((folder) => ({
+    ...createPathPolicy(
+      folder,
+      context && { ...context, workspaceFolder: folder.folderPath }
+    ),
+    name: folder.name,
+  }));
+}
+
+/**
+ * Build the resolved configuration passed to the server
+ * @returns The configuration, with every root whose path could be resolved
+ */
+export function createSecurityConfig(
+  security: SecuritySettings,
+  folders: FolderSecuritySettings[],
+  context: VariableContext
+): SecurityConfig {
+  const policies = createPathPolicies(security, folders, context);
+  const roots = policies
+    .filter((policy) => policy.workspaceRoot)
+    .map((policy) => ({
+      name: policy.name ?? path.basename(policy.workspaceRoot!),
+      workspaceRoot: policy.workspaceRoot!,
+      allowedSubdirectories: policy.allowedSubdirectories,
+      blockedPaths: policy.blockedPaths,
+      blockedPatterns: policy.blockedPatterns,
+    }));
+  const primary = roots[0] ?? {
+    ...createPathPolicy(security, context),
+    workspaceRoot: expandVariables(security.workspaceRoot, context),
+  };
+
+  return {
+    workspaceRoot: primary.workspaceRoot,
+    roots,
+    allowedSubdirectories: primary.allowedSubdirectories,
+    blockedPaths: primary.blockedPaths,
+    blockedPatterns: primary.blockedPatterns,
+    maxFileSize: security.maxFileSize,
+    maxBatchSize: security.maxBatchSize,
+    maxOperationsPerMinute: security.maxOperationsPerMinute,
+  };
+}
+
+/**
+ * Find the policy of the root that owns a path; the deepest root wins when
+ * roots are nested
+ * @returns The owning policy, or undefined if no root contains the path
+ */
+export function selectPathPolicy(
+  targetPath: string,
+  policies: PathPolicy[]
+): PathPolicy | undefined {
+  let owner: PathPolicy | undefined;
+  for (const policy of policies) {
+    const root = policy.workspaceRoot;
+    if (
+      root &&
+      isWithin(path.resolve(root, targetPath), root) &&
+      (!owner?.workspaceRoot || root.length > owner.workspaceRoot.length)
+    ) {
+      owner = policy;
+    }
+  }
+  return owner;
+}
+
+/**
+ * Check a path against the policy of the root that owns it
+ * Relative paths belong to the first root
+ * @returns The first violation, or undefined if the path is allowed
+ */
+export function checkPathPolicies(
+  targetPath: string,
+  policies: PathPolicy[]
+): PathPolicyViolation | undefined {
+  const roots = policies
+    .map((policy) => policy.workspaceRoot)
+    .filter((root): root is string => !!root);
+  const owner = path.isAbsolute(targetPath)
+    ? selectPathPolicy(targetPath, policies)
+    : policies[0];
+
+  if (!owner && roots.length > 1) {
+    const boundary = roots.join(", ");
+    return {
+      path: targetPath,
+      reason: `Path is outside every workspace root: ${boundary}`,
+      boundary,
+    };
+  }
+  return checkPathPolicy(targetPath, owner ?? policies[0]);
+}
+
+/**
+ * Check a path against the workspace boundary, allowed subdirectories,
+ * blocked paths and patterns, and the platform block list
+ * @returns The first violation, or undefined if the path is allowed
+ */
+export function checkPathPolicy(
+  targetPath: string,
+  policy: PathPolicy
+): PathPolicyViolation | undefined {
+  return explainPathPolicy(targetPath, policy).find((check) => !check.passed)
+    ?.violation;
+}
+
+/**
+ * Run every policy rule against a path, in the order they are enforced
+ */
+export function explainPathPolicy(
+  targetPath: string,
+  policy: PathPolicy
+): PathPolicyCheck[] {
+  const root = policy.workspaceRoot;
+  const resolved = root
+    ? path.resolve(root, targetPath)
+    : path.normalize(targetPath);
+  const checks: PathPolicyCheck[] = [];
+
+  if (!root) {
+    checks.push({
+      rule: "Workspace root",
+      passed: true,
+      detail: "No workspace root resolved; boundary not checked",
+    });
+  } else if (!isWithin(resolved, root)) {
+    checks.push({
+      rule: "Workspace root",
+      passed: false,
+      detail: `Outside ${root}`,
+      violation: {
+        path: targetPath,
+        reason: `Path is outside the workspace root: ${root}`,
+        boundary: root,
+      },
+    });
+  } else {
+    checks.push({
+      rule: "Workspace root",
+      passed: true,
+      detail: `Inside ${root}`,
+    });
+  }
+
+  if (root && policy.allowedSubdirectories.length > 0) {
+    const boundary = policy.allowedSubdirectories.join(", ");
+    const allowed = policy.allowedSubdirectories.find((dir) =>
+      isWithin(resolved, path.resolve(root, dir))
+    );
+    checks.push(
+      allowed
+        ? {
+            rule: "Allowed subdirectories",
+            passed: true,
+            detail: `Inside ${allowed}`,
+          }
+        : {
+            rule: "Allowed subdirectories",
+            passed: false,
+            detail: `Not inside any of ${boundary}`,
+            violation: {
+              path: targetPath,
+              reason: `Path is outside the allowed subdirectories: ${boundary}`,
+              boundary,
+            },
+          }
+    );
+  } else {
+    checks.push({
+      rule: "Allowed subdirectories",
+      passed: true,
+      detail: "None configured; whole workspace allowed",
+    });
+  }
+
+  const blockedPath = policy.blockedPaths.find((blocked) => {
+    const expanded = blocked.replace(/^~(?=$|[/\\])/, os.homedir());
+    if (!path.isAbsolute(expanded) && !root) {
+      return false;
+    }
+    return isWithin(resolved, path.resolve(root ?? "", expanded));
+  });
+  checks.push(
+    blockedPath
+      ? {
+          rule: "Blocked paths",
+          passed: false,
+          detail: `Within ${blockedPath}`,
+          violation: {
+            path: targetPath,
+            reason: `Path is within blocked path: ${blockedPath}`,
+            blockedPath,
+          },
+        }
+      : {
+          rule: "Blocked paths",
+          passed: true,
+          detail: "Not within any blocked path",
+        }
+  );
+
+  const match = findMatchingPattern(
+    root ? path.relative(root, resolved) : resolved,
+    policy.blockedPatterns
+  );
+  if (match?.blocked) {
+    checks.push({
+      rule: "Blocked patterns",
+      passed: false,
+      detail: `Matches ${match.pattern}`,
+      violation: {
+        path: targetPath,
+        reason: `Path matches blocked pattern: ${match.pattern}`,
+        pattern: match.pattern,
+      },
+    });
+  } else {
+    checks.push({
+      rule: "Blocked patterns",
+      passed: true,
+      detail: match
+        ? `Re-allowed by ${match.pattern}`
+        : "Matches no blocked pattern",
+    });
+  }
+
+  const platform = PlatformDetection.validatePathSecurity(resolved);
+  checks.push(
+    platform.allowed
+      ? {
+          rule: "Platform block list",
+          passed: true,
+          detail: "Not a protected system path",
+        }
+      : {
+          rule: "Platform block list",
+          passed: false,
+          detail: platform.reason || "Blocked on this platform",
+          violation: {
+            path: targetPath,
+            reason: platform.reason || "Path is blocked on this platform",
+            blockedPath: platform.blockedPath,
+          },
+        }
+  );
+
+  return checks;
+}
+
+/**
+ * Check whether a path is a directory or inside it
+ */
+function isWithin(targetPath: string, dir: string): boolean {
+  const relative = path.relative(dir, targetPath);
+  return (
+    relative === "" ||
+    (relative !== ".." &&
+      !relative.startsWith(".." + path.sep) &&
+      !path.isAbsolute(relative))
+  );
+}
@@ -0,0 +1,183 @@
+import * as vscode from "vscode";
+import { OperationPlan, PlanAction } from "./operationPlanner";
+import { escapeHtml, formatBytes } from "./utils";
+import { getNonce } from "./diskUsagePanel";
+
+/**
+ * Diff-style marker shown for each planned action
+ */
+const actionMarkers: Record<PlanAction, string> = {
+  create: "+",
+  overwrite: "~",
+  delete: "-",
+  skip: "=",
+};
+
+/**
+ * Plan Preview Panel
+ * Shows a dry-run plan as a diff-like list of changes with an Apply button
+ * that runs the real operation
+ */
+export class PlanPreviewPanel implements vscode.Disposable {
+  private readonly panel: vscode.WebviewPanel;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  /**
+   * Create a new Plan Preview Panel
+   * @param title - Panel title describing the operation
+   * @param plan - Dry-run plan to show
+   * @param apply - Runs the real operation when the user clicks Apply
+   */
+  constructor(
+    title: string,
+    plan: OperationPlan,
+    private readonly apply: () => Promise<void>
+  ) {
+    this.panel = vscode.window.createWebviewPanel(
+      "planPreview",
+      `Preview: ${title}`,
+      vscode.ViewColumn.One,
+      { enableScripts: true }
+    );
+    this.panel.webview.html = getPlanPreviewHTML(title, plan, getNonce());
+
+    this.disposables.push(
+      this.panel.webview.onDidReceiveMessage(
+        async (message: { command: string }) => {
+          if (message.command === "apply") {
+            this.dispose();
+            await this.apply();
+          } else if (message.command === "cancel") {
+            this.dispose();
+          }
+        }
+      ),
+      this.panel.onDidDispose(() => this.dispose())
+    );
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    while (this.disposables.length > 0) {
+      this.disposables.pop()?.dispose();
+    }
+    this.panel.dispose();
+  }
+}
+
+/**
+ * Get plan preview HTML
+ * @param title - Operation being previewed
+ * @param plan - Dry-run plan
+ * @param nonce - Nonce allowing the inline script
+ * @param maxEntries - Stop listing entries after this many
+ */
+export function getPlanPreviewHTML(
+  title: string,
+  plan: OperationPlan,
+  nonce: string,
+  maxEntries = 2000
+): string {
+  const { totals } = plan;
+  const changes = totals.create + totals.overwrite + totals.delete;
+
+  const lines = plan.entries
+    .slice(0, maxEntries)
+    .map(
+      (entry) =>
+        `<div class="${entry.action}">${
+          actionMarkers[entry.action]
+        } ${escapeHtml(entry.path)}${
+          entry.source && entry.action !== "delete"
+            ? ` <span class="detail">← ${escapeHtml(entry.source)}</span>`
+            : ""
+        }${
+          entry.reason
+            ? ` <span class="detail">(${escapeHtml(entry.reason)})</span>`
+            : entry.action !== "skip"
+            ? ` <span class="detail">${formatBytes(entry.size)}</span>`
+            : ""
+        }</div>`
+    )
+    .join("\n");
+  const more =
+    plan.entries.length > maxEntries
+      ? `<div class="detail">…and ${
+          plan.entries.length - maxEntries
+        } more</div>`
+      : "";
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <style>
+        body {
+          font-family: var(--vscode-font-family);
+          padding: 20px;
+          color: var(--vscode-foreground);
+        }
+        .summary span {
+          margin-right: 16px;
+        }
+        .plan {
+          font-family: var(--vscode-editor-font-family);
+          white-space: pre-wrap;
+          word-break: break-all;
+          margin: 16px 0;
+        }
+        .create {
+          color: #4caf50;
+        }
+        .overwrite {
+          color: #ff9800;
+        }
+        .delete {
+          color: #f44336;
+        }
+        .skip, .detail {
+          color: var(--vscode-descriptionForeground);
+        }
+        button {
+          padding: 6px 14px;
+          margin-right: 8px;
+        }
+      </style>
+    </head>
+    <body>
+      <h1>${escapeHtml(title)}</h1>
+      <p class="summary">
+        <span class="create">+${totals.create} create</span>
+        <span class="overwrite">~${totals.overwrite} overwrite</span>
+        <span class="delete">-${totals.delete} delete</span>
+        <span class="skip">=${totals.skip} skip</span>
+      </p>
+      <p>
+        ${formatBytes(totals.bytesWritten)} to write${
+    totals.bytesDeleted > 0
+      ? `, ${formatBytes(totals.bytesDeleted)} to delete`
+      : ""
+  }
+      </p>
+      <div>
+        <button id="apply"${changes === 0 ? " disabled" : ""}>Apply</button>
+        <button id="cancel">Cancel</button>
+      </div>
+
+      <div class="plan">${lines || "No files to process"}${more}</div>
+
+      <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        for (const command of ["apply", "cancel"]) {
+          document.getElementById(command).addEventListener("click", () => {
+            vscode.postMessage({ command });
+          });
+        }
+      </script>
+    </body>
+    </html>
+  `;
+}
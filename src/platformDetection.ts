@@ -1,5 +1,6 @@
 import * as os from "os";
 import * as path from "path";
+import { globToRegExp } from "./globMatcher";
 
 /**
  * Platform type enum
@@ -196,6 +197,7 @@ export class PlatformDetection {
   public static validatePathSecurity(inputPath: string): {
     allowed: boolean;
     reason?: string;
+    blockedPath?: string;
   } {
     const normalizedPath = this.normalizePath(inputPath);
     const blockedPaths = this.getPlatformBlockedPaths();
@@ -210,12 +212,14 @@ export class PlatformDetection {
 
       // Handle wildcard patterns
       if (expandedBlockedPath.includes("*")) {
-        const pattern = expandedBlockedPath.replace(/\*/g, ".*");
-        const regex = new RegExp(`^${pattern}`);
-        if (regex.test(expandedPath)) {
+        const regex = globToRegExp(expandedBlockedPath, {
+          matchDescendants: true,
+        });
+        if (regex.test(this.toForwardSlashes(expandedPath))) {
           return {
             allowed: false,
             reason: `Path matches blocked pattern: ${blockedPath}`,
+            blockedPath,
           };
         }
       } else {
@@ -227,6 +231,7 @@ export class PlatformDetection {
           return {
             allowed: false,
             reason: `Path is within blocked directory: ${blockedPath}`,
+            blockedPath,
           };
         }
       }
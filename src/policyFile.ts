@@ -0,0 +1,321 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import { validateGlob } from "./globMatcher";
+
+/**
+ * Project-level agent policy, committed to a workspace folder as `.mcprc`
+ * (JSON) or `.mcprc.yaml` / `.mcprc.yml`.
+ *
+ * A policy file can only tighten the user's settings:
+ * - Blocked paths and patterns are added to the configured ones; patterns
+ *   from the file cannot start with `!`, since the last matching pattern
+ *   wins and a negated one would re-allow paths the settings block
+ * - Allowed subdirectories from the file narrow the configured ones: only
+ *   entries equal to or inside a configured subdirectory are kept, or any
+ *   entry inside the folder when none are configured
+ * - Resource limits use the lower of the two values
+ * - A tool is enabled only if both the settings and the file enable it
+ */
+export interface PolicyFile {
+  security?: {
+    allowedSubdirectories?: string[];
+    blockedPaths?: string[];
+    blockedPatterns?: string[];
+  };
+  resources?: {
+    maxFileSize?: number;
+    maxBatchSize?: number;
+    maxOperationsPerMinute?: number;
+  };
+  operations?: {
+    enableBatch?: boolean;
+    enableWatch?: boolean;
+    enableSearch?: boolean;
+    enableChecksum?: boolean;
+  };
+}
+
+/**
+ * A policy file read from disk
+ * `policy` is undefined when the file has errors, so a broken file is never
+ * partially applied
+ */
+export interface LoadedPolicyFile {
+  path: string;
+  policy?: PolicyFile;
+  errors: string[];
+}
+
+/**
+ * Names of policy files, in the order they are looked up
+ */
+export const POLICY_FILE_NAMES = [".mcprc", ".mcprc.yaml", ".mcprc.yml"];
+
+type PolicyValueKind = "paths" | "patterns" | "limit" | "flag";
+
+const POLICY_SCHEMA: Record<string, Record<string, PolicyValueKind>> = {
+  security: {
+    allowedSubdirectories: "paths",
+    blockedPaths: "paths",
+    blockedPatterns: "patterns",
+  },
+  resources: {
+    maxFileSize: "limit",
+    maxBatchSize: "limit",
+    maxOperationsPerMinute: "limit",
+  },
+  operations: {
+    enableBatch: "flag",
+    enableWatch: "flag",
+    enableSearch: "flag",
+    enableChecksum: "flag",
+  },
+};
+
+/**
+ * Load the policy file of a workspace folder
+ * @returns The first policy file found, or undefined if the folder has none
+ */
+export function loadPolicyFile(
+  folderPath: string
+): LoadedPolicyFile | undefined {
+  for (const name of POLICY_FILE_NAMES) {
+    const filePath = path.join(folderPath, name);
+    let text: string;
+    try {
+      text = fs.readFileSync(filePath, "utf8");
+    } catch (error: any) {
+      if (error.code === "ENOENT" || error.code === "ENOTDIR") {
+        continue;
+      }
+      return { path: filePath, errors: [error.message] };
+    }
+    return parsePolicyFile(text, filePath);
+  }
+  return undefined;
+}
+
+/**
+ * Parse and validate the contents of a policy file
+ * Files ending in `.yaml` or `.yml` are YAML, anything else is JSON
+ */
+export function parsePolicyFile(
+  text: string,
+  filePath: string
+): LoadedPolicyFile {
+  const isYaml = /\.ya?ml$/i.test(filePath);
+  let value: unknown;
+  try {
+    // An empty YAML file is an empty policy
+    value = isYaml ? parseYaml(text) ?? {} : JSON.parse(text);
+  } catch (error: any) {
+    // YAML errors quote the offending lines after the position; keep the
+    // message on one line
+    const message = String(error.message).split("\n")[0].replace(/:$/, "");
+    return {
+      path: filePath,
+      errors: [`Invalid ${isYaml ? "YAML" : "JSON"}: ${message}`],
+    };
+  }
+
+  const errors = validatePolicyFile(value);
+  return errors.length > 0
+    ? { path: filePath, errors }
+    : { path: filePath, policy: value as PolicyFile, errors };
+}
+
+/**
+ * Check a parsed policy file against the policy schema
+ * @returns Error messages, empty if the policy is valid
+ */
+export function validatePolicyFile(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ["Policy must be an object"];
+  }
+
+  const errors: string[] = [];
+  for (const [section, settings] of Object.entries(value)) {
+    if (section === "$schema") {
+      continue;
+    }
+    const schema = Object.prototype.hasOwnProperty.call(POLICY_SCHEMA, section)
+      ? POLICY_SCHEMA[section]
+      : undefined;
+    if (!schema) {
+      errors.push(`Unknown section "${section}"`);
+      continue;
+    }
+    if (settings === null) {
+      continue;
+    }
+    if (!isObject(settings)) {
+      errors.push(`"${section}" must be an object`);
+      continue;
+    }
+
+    for (const [key, setting] of Object.entries(settings)) {
+      const name = `${section}.${key}`;
+      const kind = Object.prototype.hasOwnProperty.call(schema, key)
+        ? schema[key]
+        : undefined;
+      switch (kind) {
+        case "paths":
+        case "patterns":
+          if (
+            !Array.isArray(setting) ||
+            setting.some((entry) => typeof entry !== "string")
+          ) {
+            errors.push(`"${name}" must be a list of strings`);
+          } else if (kind === "patterns") {
+            for (const pattern of setting) {
+              const problem = validateGlob(pattern);
+              if (problem) {
+                errors.push(`"${name}" has an invalid pattern: ${problem}`);
+              } else if (pattern.startsWith("!")) {
+                errors.push(`"${name}" cannot re-allow paths: ${pattern}`);
+              }
+            }
+          } else if (key === "allowedSubdirectories") {
+            for (const dir of setting) {
+              if (path.isAbsolute(dir)) {
+                errors.push(`"${name}" entries must be relative: ${dir}`);
+              } else if (hasParentSegment(dir)) {
+                errors.push(
+                  `"${name}" entries must stay inside the folder: ${dir}`
+                );
+              }
+            }
+          }
+          break;
+        case "limit":
+          if (!Number.isInteger(setting) || (setting as number) < 1) {
+            errors.push(`"${name}" must be a positive integer`);
+          }
+          break;
+        case "flag":
+          if (typeof setting !== "boolean") {
+            errors.push(`"${name}" must be true or false`);
+          }
+          break;
+        default:
+          errors.push(`Unknown setting "${name}"`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Apply the boundaries of a policy file to configured boundaries
+ * Allowed subdirectories from the file that would widen the configured ones
+ * are dropped; if none are left, the configured ones apply. Negated
+ * patterns from the file are dropped too
+ */
+export function applyPolicyBoundaries<
+  T extends {
+    allowedSubdirectories: string[];
+    blockedPaths: string[];
+    blockedPatterns: string[];
+  }
+>(settings: T, policy: PolicyFile | undefined): T {
+  const security = policy?.security;
+  if (!security) {
+    return settings;
+  }
+  const narrowed = (security.allowedSubdirectories ?? []).filter(
+    (dir) =>
+      !path.isAbsolute(dir) &&
+      !hasParentSegment(dir) &&
+      (settings.allowedSubdirectories.length === 0 ||
+        settings.allowedSubdirectories.some((allowed) =>
+          isNestedIn(dir, allowed)
+        ))
+  );
+  return {
+    ...settings,
+    allowedSubdirectories:
+      narrowed.length > 0 ? narrowed : settings.allowedSubdirectories,
+    blockedPaths: union(settings.blockedPaths, security.blockedPaths),
+    blockedPatterns: union(
+      settings.blockedPatterns,
+      security.blockedPatterns?.filter((pattern) => !pattern.startsWith("!"))
+    ),
+  };
+}
+
+/**
+ * Apply the resource limits of a policy file to configured limits
+ */
+export function applyPolicyLimits<
+  T extends {
+    maxFileSize: number;
+    maxBatchSize: number;
+    maxOperationsPerMinute: number;
+  }
+>(settings: T, policy: PolicyFile | undefined): T {
+  const resources = policy?.resources ?? {};
+  return {
+    ...settings,
+    maxFileSize: Math.min(
+      settings.maxFileSize,
+      resources.maxFileSize ?? Infinity
+    ),
+    maxBatchSize: Math.min(
+      settings.maxBatchSize,
+      resources.maxBatchSize ?? Infinity
+    ),
+    maxOperationsPerMinute: Math.min(
+      settings.maxOperationsPerMinute,
+      resources.maxOperationsPerMinute ?? Infinity
+    ),
+  };
+}
+
+/**
+ * Apply the tool flags of a policy file to configured flags
+ */
+export function applyPolicyOperations<
+  T extends {
+    enableBatch: boolean;
+    enableWatch: boolean;
+    enableSearch: boolean;
+    enableChecksum: boolean;
+  }
+>(settings: T, policy: PolicyFile | undefined): T {
+  const operations = policy?.operations ?? {};
+  return {
+    ...settings,
+    enableBatch: settings.enableBatch && operations.enableBatch !== false,
+    enableWatch: settings.enableWatch && operations.enableWatch !== false,
+    enableSearch: settings.enableSearch && operations.enableSearch !== false,
+    enableChecksum:
+      settings.enableChecksum && operations.enableChecksum !== false,
+  };
+}
+
+function union(configured: string[], added: string[] = []): string[] {
+  return [...new Set([...configured, ...added])];
+}
+
+function hasParentSegment(dir: string): boolean {
+  return dir.split(/[\\/]+/).includes("..");
+}
+
+/**
+ * Check whether a relative directory is equal to or inside another one
+ */
+function isNestedIn(dir: string, parent: string): boolean {
+  const relative = path.relative(
+    path.resolve("/", parent),
+    path.resolve("/", dir)
+  );
+  return (
+    relative === "" ||
+    (!path.isAbsolute(relative) && !hasParentSegment(relative))
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,236 @@
+import * as vscode from "vscode";
+import { ErrorCategory, FilesystemError } from "./errorHandling";
+
+/**
+ * Current rate limiter usage
+ */
+export interface RateLimitUsage {
+  limit: number;
+  used: number;
+  available: number;
+  queued: number;
+}
+
+/**
+ * Time source and timers used by the rate limiter, replaceable in tests
+ */
+export interface RateLimiterClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(timer: unknown): void;
+}
+
+/**
+ * Rate limiter options
+ */
+export interface RateLimiterOptions {
+  /** Longest a call may wait in the queue before it is rejected instead */
+  maxWaitMs?: number;
+  /** Tools whose calls are never limited or counted */
+  exemptTools?: string[];
+  clock?: RateLimiterClock;
+}
+
+const systemClock: RateLimiterClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (timer) => clearTimeout(timer as NodeJS.Timeout),
+};
+
+interface QueuedCall {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Rate Limiter
+ * Token bucket allowing `limit` calls per minute with bursts up to the full
+ * limit. Calls over the limit are queued when a token frees up soon enough
+ * and rejected with a SECURITY_ERROR otherwise. Exempt tools, such as the
+ * watch event polling, always run without taking a token
+ */
+export class RateLimiter implements vscode.Disposable {
+  private limit: number;
+  private tokens: number;
+  private lastRefill: number;
+  private readonly maxWaitMs: number;
+  private readonly exemptTools: Set<string>;
+  private readonly clock: RateLimiterClock;
+  private readonly queue: QueuedCall[] = [];
+  private readonly recentCalls: number[] = [];
+  private timer?: unknown;
+  private readonly changeEmitter = new vscode.EventEmitter<RateLimitUsage>();
+
+  /**
+   * Event fired when usage changes
+   */
+  public readonly onDidChangeUsage: vscode.Event<RateLimitUsage> =
+    this.changeEmitter.event;
+
+  /**
+   * Create a new Rate Limiter
+   * @param limit - Calls allowed per minute
+   * @param options - Queue wait, exempt tools and clock
+   */
+  constructor(limit: number, options: RateLimiterOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.limit = Math.max(limit, 1);
+    this.tokens = this.limit;
+    this.lastRefill = this.clock.now();
+    this.maxWaitMs = options.maxWaitMs ?? 10000;
+    this.exemptTools = new Set(options.exemptTools);
+  }
+
+  /**
+   * Check whether calls to a tool bypass the limit
+   */
+  isExempt(tool: string): boolean {
+    return this.exemptTools.has(tool);
+  }
+
+  /**
+   * Change the limit, keeping calls already made within the last minute
+   * counted against it
+   */
+  configure(limit: number): void {
+    this.refill();
+    const newLimit = Math.max(limit, 1);
+    this.tokens = Math.min(this.tokens + (newLimit - this.limit), newLimit);
+    this.tokens = Math.max(this.tokens, 0);
+    this.limit = newLimit;
+
+    this.clearTimer();
+    this.drain();
+  }
+
+  /**
+   * Wait for permission to make a call
+   * @param tool - The tool being called; exempt tools return at once
+   * @throws A SECURITY_ERROR if the call would wait longer than maxWaitMs
+   */
+  async acquire(tool?: string): Promise<void> {
+    if (tool && this.isExempt(tool)) {
+      return;
+    }
+
+    this.refill();
+    if (this.queue.length === 0 && this.tokens >= 1) {
+      this.take();
+      return;
+    }
+
+    const waitMs = this.getWaitMs(this.queue.length + 1);
+    if (waitMs > this.maxWaitMs) {
+      throw createRateLimitError(this.limit, waitMs);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      this.queue.push({ resolve, reject });
+      this.fireChange();
+      this.schedule();
+    });
+  }
+
+  /**
+   * Get current usage
+   */
+  getUsage(): RateLimitUsage {
+    this.refill();
+    return {
+      limit: this.limit,
+      used: this.recentCalls.length,
+      available: Math.floor(this.tokens),
+      queued: this.queue.length,
+    };
+  }
+
+  /**
+   * Reject queued calls and stop the refill timer
+   */
+  dispose(): void {
+    this.clearTimer();
+    for (const call of this.queue.splice(0)) {
+      call.reject(new Error("Rate limiter stopped before the call could run"));
+    }
+    this.changeEmitter.dispose();
+  }
+
+  private refill(): void {
+    const now = this.clock.now();
+    this.tokens = Math.min(
+      this.limit,
+      this.tokens + ((now - this.lastRefill) * this.limit) / 60000
+    );
+    this.lastRefill = now;
+
+    while (this.recentCalls.length > 0 && this.recentCalls[0] <= now - 60000) {
+      this.recentCalls.shift();
+    }
+  }
+
+  private take(): void {
+    this.tokens -= 1;
+    this.recentCalls.push(this.clock.now());
+    this.fireChange();
+  }
+
+  /**
+   * Time until the call at a queue position gets a token
+   */
+  private getWaitMs(position: number): number {
+    return Math.max(0, ((position - this.tokens) * 60000) / this.limit);
+  }
+
+  /**
+   * Release queued calls that have a token, then wait for the next one
+   */
+  private drain(): void {
+    this.refill();
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.take();
+      this.queue.shift()!.resolve();
+    }
+    this.schedule();
+  }
+
+  private schedule(): void {
+    if (this.timer || this.queue.length === 0) {
+      return;
+    }
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.ceil(this.getWaitMs(1)));
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private fireChange(): void {
+    this.changeEmitter.fire({
+      limit: this.limit,
+      used: this.recentCalls.length,
+      available: Math.floor(this.tokens),
+      queued: this.queue.length,
+    });
+  }
+}
+
+/**
+ * Create the error reported for calls over the rate limit
+ */
+function createRateLimitError(limit: number, waitMs: number): FilesystemError {
+  const error = new Error(
+    `Rate limit exceeded: more than ${limit} operations per minute (retry in ${Math.ceil(
+      waitMs / 1000
+    )}s)`
+  ) as FilesystemError;
+  error.name = "RateLimitError";
+  error.category = ErrorCategory.SECURITY_ERROR;
+  error.context = { limit, retryAfterMs: Math.ceil(waitMs) };
+  return error;
+}
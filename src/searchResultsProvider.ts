@@ -0,0 +1,336 @@
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { ErrorHandler, ErrorCategory } from "./errorHandling";
+import { formatBytes } from "./utils";
+
+/**
+ * File entry returned by fs_search_files
+ */
+export interface SearchResult {
+  path: string;
+  size: number;
+  mtime: string;
+  type: string;
+  checksum?: string;
+}
+
+/**
+ * Search result sort order
+ */
+export type SearchSortOrder = "path" | "size" | "mtime";
+
+/**
+ * Line of a file matching a content query
+ */
+export interface LineMatch {
+  line: number;
+  text: string;
+}
+
+/**
+ * Search Results Tree Data Provider
+ * Displays fs_search_files results with click-to-open and content match previews
+ */
+export class SearchResultsTreeDataProvider
+  implements vscode.TreeDataProvider<SearchResultItem>
+{
+  private _onDidChangeTreeData: vscode.EventEmitter<
+    SearchResultItem | undefined | null | void
+  > = new vscode.EventEmitter<SearchResultItem | undefined | null | void>();
+  readonly onDidChangeTreeData: vscode.Event<
+    SearchResultItem | undefined | null | void
+  > = this._onDidChangeTreeData.event;
+
+  private results: SearchResult[] = [];
+  private query = "";
+  private searchType: "name" | "content" | "both" = "name";
+  private sortOrder: SearchSortOrder = "path";
+  private readonly maxPreviewFileSize = 1024 * 1024; // 1 MB
+  private readonly maxMatchesPerFile = 20;
+  private errorHandler?: ErrorHandler;
+
+  /**
+   * Create a new Search Results Tree Data Provider
+   * @param errorHandler - Optional error handler for error reporting
+   */
+  constructor(errorHandler?: ErrorHandler) {
+    this.errorHandler = errorHandler;
+  }
+
+  /**
+   * Replace the displayed results
+   * @param query - The query that produced the results
+   * @param searchType - The search type used, decides if previews are shown
+   * @param results - Files returned by the server
+   */
+  setResults(
+    query: string,
+    searchType: "name" | "content" | "both",
+    results: SearchResult[]
+  ): void {
+    this.query = query;
+    this.searchType = searchType;
+    this.results = results;
+    this.refresh();
+  }
+
+  /**
+   * Remove all results
+   */
+  clear(): void {
+    this.setResults("", "name", []);
+  }
+
+  /**
+   * Get the current results in display order
+   */
+  getResults(): SearchResult[] {
+    return sortSearchResults(this.results, this.sortOrder);
+  }
+
+  /**
+   * Get the query of the current results
+   */
+  getQuery(): string {
+    return this.query;
+  }
+
+  /**
+   * Set the sort order
+   */
+  setSortOrder(order: SearchSortOrder): void {
+    this.sortOrder = order;
+    this.refresh();
+  }
+
+  /**
+   * Get the sort order
+   */
+  getSortOrder(): SearchSortOrder {
+    return this.sortOrder;
+  }
+
+  /**
+   * Refresh the tree view
+   */
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Get tree item representation
+   */
+  getTreeItem(element: SearchResultItem): vscode.TreeItem {
+    return element;
+  }
+
+  /**
+   * Get children of a tree item
+   * Files are the root items; content searches show matching lines below them
+   */
+  async getChildren(element?: SearchResultItem): Promise<SearchResultItem[]> {
+    try {
+      if (!element) {
+        const showPreviews = this.searchType !== "name";
+        return this.getResults().map(
+          (result) => new SearchResultItem(result, showPreviews)
+        );
+      }
+
+      if (!element.lineMatch) {
+        return this.getLineMatches(element.result);
+      }
+
+      return [];
+    } catch (error: any) {
+      if (this.errorHandler) {
+        this.errorHandler.handleError({
+          name: "SearchResultsProviderError",
+          message: error.message || "Failed to load search results",
+          category: ErrorCategory.SYSTEM_ERROR,
+          context: { component: "SearchResultsTreeDataProvider" },
+          originalError: error,
+        });
+      }
+      return [];
+    }
+  }
+
+  private async getLineMatches(
+    result: SearchResult
+  ): Promise<SearchResultItem[]> {
+    if (result.size > this.maxPreviewFileSize) {
+      return [];
+    }
+
+    let text: string;
+    try {
+      text = await fs.promises.readFile(result.path, "utf8");
+    } catch {
+      // File removed or unreadable since the search ran
+      return [];
+    }
+
+    return findMatchingLines(text, this.query, this.maxMatchesPerFile).map(
+      (match) => new SearchResultItem(result, false, match)
+    );
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this._onDidChangeTreeData.dispose();
+  }
+}
+
+export class SearchResultItem extends vscode.TreeItem {
+  constructor(
+    public readonly result: SearchResult,
+    showPreviews: boolean,
+    public readonly lineMatch?: LineMatch
+  ) {
+    super(
+      lineMatch ? lineMatch.text.trim() : path.basename(result.path),
+      lineMatch
+        ? vscode.TreeItemCollapsibleState.None
+        : showPreviews
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None
+    );
+
+    const uri = vscode.Uri.file(result.path);
+
+    if (lineMatch) {
+      this.description = `line ${lineMatch.line + 1}`;
+      this.tooltip = lineMatch.text;
+      const position = new vscode.Position(lineMatch.line, 0);
+      this.command = {
+        command: "vscode.open",
+        title: "Open Match",
+        arguments: [uri, { selection: new vscode.Range(position, position) }],
+      };
+      this.contextValue = "searchMatch";
+    } else {
+      this.resourceUri = uri;
+      this.description = `${formatBytes(result.size)} · ${new Date(
+        result.mtime
+      ).toLocaleString()}`;
+      this.tooltip = `${result.path}\nSize: ${formatBytes(
+        result.size
+      )}\nModified: ${new Date(result.mtime).toLocaleString()}`;
+      this.command = {
+        command: "vscode.open",
+        title: "Open File",
+        arguments: [uri],
+      };
+      this.contextValue = "searchResult";
+    }
+  }
+}
+
+/**
+ * Sort search results
+ * Paths sort ascending, sizes and modification times newest/largest first
+ */
+export function sortSearchResults(
+  results: SearchResult[],
+  order: SearchSortOrder
+): SearchResult[] {
+  const sorted = [...results];
+  switch (order) {
+    case "size":
+      sorted.sort((a, b) => b.size - a.size);
+      break;
+    case "mtime":
+      sorted.sort(
+        (a, b) => new Date(b.mtime).getTime() - new Date(a.mtime).getTime()
+      );
+      break;
+    default:
+      sorted.sort((a, b) => a.path.localeCompare(b.path));
+  }
+  return sorted;
+}
+
+/**
+ * Find lines containing the query (case-insensitive)
+ */
+export function findMatchingLines(
+  text: string,
+  query: string,
+  maxMatches: number
+): LineMatch[] {
+  const matches: LineMatch[] = [];
+  const needle = query.toLowerCase();
+  if (!needle) {
+    return matches;
+  }
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length && matches.length < maxMatches; i++) {
+    if (lines[i].toLowerCase().includes(needle)) {
+      matches.push({ line: i, text: lines[i] });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Parse a comma-separated list of file extensions into ".ext" form
+ */
+export function parseFileTypes(input: string): string[] {
+  return input
+    .split(",")
+    .map((t) => t.trim())
+    .filter((t) => t.length > 0)
+    .map((t) => (t.startsWith(".") ? t : `.${t.replace(/^\*\.?/, "")}`));
+}
+
+/**
+ * Parse a size such as "512", "10KB" or "1.5 MB" into bytes
+ * @returns The size in bytes, or undefined if the input is invalid
+ */
+export function parseSize(input: string): number | undefined {
+  const match = input
+    .trim()
+    .toUpperCase()
+    .match(/^(\d+(?:\.\d+)?)\s*(B|KB|MB|GB)?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const multipliers: Record<string, number> = {
+    B: 1,
+    KB: 1024,
+    MB: 1024 * 1024,
+    GB: 1024 * 1024 * 1024,
+  };
+  return Math.round(parseFloat(match[1]) * multipliers[match[2] ?? "B"]);
+}
+
+/**
+ * Parse a size range such as "10KB-2MB", "-1MB" or "500KB-"
+ * @returns The bounds, or undefined if either bound is invalid
+ */
+export function parseSizeRange(
+  input: string
+): { minSize?: number; maxSize?: number } | undefined {
+  const [minText, maxText = ""] = input.split("-");
+  const range: { minSize?: number; maxSize?: number } = {};
+
+  if (minText.trim()) {
+    range.minSize = parseSize(minText);
+    if (range.minSize === undefined) {
+      return undefined;
+    }
+  }
+  if (maxText.trim()) {
+    range.maxSize = parseSize(maxText);
+    if (range.maxSize === undefined) {
+      return undefined;
+    }
+  }
+  return range;
+}
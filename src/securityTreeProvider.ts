@@ -1,6 +1,10 @@
 import * as vscode from "vscode";
-import { SettingsManager } from "./settingsManager";
+import { FolderSecuritySettings, SettingsManager } from "./settingsManager";
 import { ErrorHandler, ErrorCategory } from "./errorHandling";
+import { MCPFilesystemClient } from "./mcpClient";
+import { validateGlob } from "./globMatcher";
+import { expandVariables, getUnresolvedVariables } from "./variableResolver";
+import { OPERATION_FAMILIES } from "./operationToggles";
 
 /**
  * Security Tree Data Provider
@@ -19,6 +23,8 @@ export class SecurityTreeDataProvider
   private settingsManager?: SettingsManager;
   private errorHandler?: ErrorHandler;
   private settingsSubscription?: vscode.Disposable;
+  private mcpClient?: MCPFilesystemClient;
+  private usageSubscription?: vscode.Disposable;
 
   /**
    * Create a new Security Tree Data Provider
@@ -37,6 +43,24 @@ export class SecurityTreeDataProvider
     }
   }
 
+  /**
+   * Set the MCP client whose rate limit usage is shown
+   * @param client - The MCP filesystem client, or undefined when stopped
+   */
+  setMCPClient(client: MCPFilesystemClient | undefined): void {
+    this.usageSubscription?.dispose();
+    this.usageSubscription = undefined;
+    this.mcpClient = client;
+
+    if (client) {
+      this.usageSubscription = client.onDidChangeRateLimitUsage(() =>
+        this.refresh()
+      );
+    }
+
+    this.refresh();
+  }
+
   /**
    * Refresh the tree view
    * Triggers a re-render of all tree items
@@ -107,37 +131,32 @@ export class SecurityTreeDataProvider
           );
         }
 
+        // Multi-root workspaces group boundaries by folder
+        const folders = this.settingsManager?.getFolderSecuritySettings() ?? [];
+        const boundaryItems =
+          folders.length > 1
+            ? folders.map(
+                (folder) =>
+                  new SecurityItem(
+                    folder.name,
+                    folder.folderPath,
+                    vscode.TreeItemCollapsibleState.Expanded,
+                    "folder",
+                    `Security boundaries of ${folder.name}`,
+                    undefined,
+                    folder
+                  )
+              )
+            : this.getBoundaryItems({
+                workspaceRoot,
+                allowedSubdirectories: allowedSubdirs,
+                blockedPaths,
+                blockedPatterns,
+              });
+
         return Promise.resolve([
-          new SecurityItem(
-            "Workspace Root",
-            workspaceRoot,
-            vscode.TreeItemCollapsibleState.None,
-            "workspace",
-            "All operations confined to this directory"
-          ),
-          new SecurityItem(
-            "Allowed Subdirectories",
-            allowedSubdirs.length > 0
-              ? allowedSubdirs.join(", ")
-              : "All (within workspace)",
-            vscode.TreeItemCollapsibleState.None,
-            "allowed",
-            "Accessible subdirectories"
-          ),
-          new SecurityItem(
-            "Blocked Paths",
-            blockedPaths.join(", "),
-            vscode.TreeItemCollapsibleState.None,
-            "blocked",
-            "Always blocked paths"
-          ),
-          new SecurityItem(
-            "Blocked Patterns",
-            blockedPatterns.join(", "),
-            vscode.TreeItemCollapsibleState.None,
-            "patterns",
-            "Blocked file patterns"
-          ),
+          ...boundaryItems,
+          ...this.getPolicyFileItems(),
           new SecurityItem(
             "Max File Size",
             `${(maxFileSize / 1024 / 1024).toFixed(0)} MB`,
@@ -152,16 +171,25 @@ export class SecurityTreeDataProvider
             "limit",
             "Maximum total batch size"
           ),
+          this.getRateLimitItem(maxOpsPerMin),
+          ...this.getDisabledOperationsItems(),
           new SecurityItem(
-            "Rate Limit",
-            `${maxOpsPerMin} ops/min`,
+            "Test a Path",
+            "Check which rule applies",
             vscode.TreeItemCollapsibleState.None,
-            "limit",
-            "Maximum operations per minute"
+            "test",
+            "Run every security rule against a path",
+            "mcp-filesystem.testPathPolicy"
           ),
         ]);
       }
 
+      if (element.folder) {
+        return Promise.resolve(
+          this.getBoundaryItems(element.folder, element.folder.folderPath)
+        );
+      }
+
       return Promise.resolve([]);
     } catch (error: any) {
       if (this.errorHandler) {
@@ -177,10 +205,183 @@ export class SecurityTreeDataProvider
     }
   }
 
+  /**
+   * Items for the boundaries of the workspace or one of its folders
+   */
+  private getBoundaryItems(
+    boundaries: Omit<FolderSecuritySettings, "name" | "folderPath">,
+    folderPath?: string
+  ): SecurityItem[] {
+    const context = this.settingsManager?.getVariableContext();
+    const resolve = (value: string) =>
+      context
+        ? expandVariables(value, {
+            ...context,
+            workspaceFolder: folderPath ?? context.workspaceFolder,
+          })
+        : value;
+    const describe = (values: string[]) =>
+      values
+        .map((value) => {
+          const resolved = resolve(value);
+          if (getUnresolvedVariables(resolved).length > 0) {
+            return `${value} (unresolved)`;
+          }
+          return resolved === value ? value : `${value} → ${resolved}`;
+        })
+        .join(", ");
+    const tooltip = (text: string, values: string[]) =>
+      values.some((value) => resolve(value) !== value)
+        ? `${text}\nConfigured: ${values.join(", ")}\nResolved: ${values
+            .map(resolve)
+            .join(", ")}`
+        : text;
+
+    return [
+      new SecurityItem(
+        "Workspace Root",
+        describe([boundaries.workspaceRoot]),
+        vscode.TreeItemCollapsibleState.None,
+        "workspace",
+        tooltip("All operations confined to this directory", [
+          boundaries.workspaceRoot,
+        ])
+      ),
+      new SecurityItem(
+        "Allowed Subdirectories",
+        boundaries.allowedSubdirectories.length > 0
+          ? describe(boundaries.allowedSubdirectories)
+          : "All (within workspace)",
+        vscode.TreeItemCollapsibleState.None,
+        "allowed",
+        tooltip("Accessible subdirectories", boundaries.allowedSubdirectories)
+      ),
+      new SecurityItem(
+        "Blocked Paths",
+        describe(boundaries.blockedPaths),
+        vscode.TreeItemCollapsibleState.None,
+        "blocked",
+        tooltip("Always blocked paths", boundaries.blockedPaths)
+      ),
+      this.getBlockedPatternsItem(boundaries.blockedPatterns),
+    ];
+  }
+
+  /**
+   * Blocked patterns item, flagging patterns that can never match
+   */
+  private getBlockedPatternsItem(blockedPatterns: string[]): SecurityItem {
+    const invalid = blockedPatterns
+      .map((pattern) => ({ pattern, error: validateGlob(pattern) }))
+      .filter(({ error }) => error !== undefined);
+
+    if (invalid.length === 0) {
+      return new SecurityItem(
+        "Blocked Patterns",
+        blockedPatterns.join(", "),
+        vscode.TreeItemCollapsibleState.None,
+        "patterns",
+        "Blocked file patterns"
+      );
+    }
+
+    return new SecurityItem(
+      "Blocked Patterns",
+      `${blockedPatterns.join(", ")} (${invalid.length} invalid)`,
+      vscode.TreeItemCollapsibleState.None,
+      "invalid",
+      `Blocked file patterns\nInvalid patterns are ignored:\n${invalid
+        .map(({ pattern, error }) => `${pattern}: ${error}`)
+        .join("\n")}`
+    );
+  }
+
+  /**
+   * One item per project policy file, flagging files that are not applied
+   */
+  private getPolicyFileItems(): SecurityItem[] {
+    const files = this.settingsManager?.getSettings().policyFiles ?? [];
+    return files.map((file) => {
+      const name = vscode.workspace.asRelativePath(file.path, true);
+      if (file.errors.length === 0) {
+        return new SecurityItem(
+          "Project Policy",
+          name,
+          vscode.TreeItemCollapsibleState.None,
+          "policy",
+          `Boundaries, limits and tools in ${file.path} tighten the settings`
+        );
+      }
+      return new SecurityItem(
+        "Project Policy",
+        `${name} (not applied)`,
+        vscode.TreeItemCollapsibleState.None,
+        "invalid",
+        `${file.path} has errors and is ignored:\n${file.errors.join("\n")}`
+      );
+    });
+  }
+
+  /**
+   * Item listing the operation families turned off by settings or policy
+   */
+  private getDisabledOperationsItems(): SecurityItem[] {
+    const operations = this.settingsManager?.getSettings().operations;
+    const disabled = OPERATION_FAMILIES.filter(
+      (family) => operations && !operations[family.setting]
+    );
+    if (disabled.length === 0) {
+      return [];
+    }
+    return [
+      new SecurityItem(
+        "Disabled Operations",
+        disabled.map((family) => family.label).join(", "),
+        vscode.TreeItemCollapsibleState.None,
+        "disabled",
+        `Tools and commands that are hidden and refused:\n${disabled
+          .map(
+            (family) =>
+              `${family.label} (operations.${
+                family.setting
+              }): ${family.tools.join(", ")}`
+          )
+          .join("\n")}`
+      ),
+    ];
+  }
+
+  /**
+   * Rate limit item, with current usage while the client is running
+   */
+  private getRateLimitItem(maxOpsPerMin: number): SecurityItem {
+    if (!this.mcpClient) {
+      return new SecurityItem(
+        "Rate Limit",
+        `${maxOpsPerMin} ops/min`,
+        vscode.TreeItemCollapsibleState.None,
+        "limit",
+        "Maximum operations per minute"
+      );
+    }
+
+    const usage = this.mcpClient.getRateLimitUsage();
+    return new SecurityItem(
+      "Rate Limit",
+      `${usage.used}/${usage.limit} ops/min${
+        usage.queued > 0 ? `, ${usage.queued} queued` : ""
+      }`,
+      vscode.TreeItemCollapsibleState.None,
+      "limit",
+      `Maximum operations per minute\nUsed in the last minute: ${usage.used}\nAvailable now: ${usage.available}\nQueued: ${usage.queued}`
+    );
+  }
+
   dispose(): void {
     if (this.settingsSubscription) {
       this.settingsSubscription.dispose();
     }
+    this.usageSubscription?.dispose();
     this._onDidChangeTreeData.dispose();
   }
 }
@@ -191,17 +392,29 @@ class SecurityItem extends vscode.TreeItem {
     public readonly value: string,
     public readonly collapsibleState: vscode.TreeItemCollapsibleState,
     public readonly securityType: string,
-    public readonly tooltipText: string
+    public readonly tooltipText: string,
+    public readonly commandId?: string,
+    public readonly folder?: FolderSecuritySettings
   ) {
     super(label, collapsibleState);
     this.description = value;
     this.tooltip = tooltipText;
 
+    if (commandId) {
+      this.command = {
+        command: commandId,
+        title: label,
+      };
+    }
+
     // Set icon based on security type
     switch (securityType) {
       case "workspace":
         this.iconPath = new vscode.ThemeIcon("folder");
         break;
+      case "folder":
+        this.iconPath = new vscode.ThemeIcon("root-folder");
+        break;
       case "allowed":
         this.iconPath = new vscode.ThemeIcon("check");
         break;
@@ -214,6 +427,18 @@ class SecurityItem extends vscode.TreeItem {
       case "limit":
         this.iconPath = new vscode.ThemeIcon("dashboard");
         break;
+      case "invalid":
+        this.iconPath = new vscode.ThemeIcon("warning");
+        break;
+      case "test":
+        this.iconPath = new vscode.ThemeIcon("shield");
+        break;
+      case "policy":
+        this.iconPath = new vscode.ThemeIcon("law");
+        break;
+      case "disabled":
+        this.iconPath = new vscode.ThemeIcon("circle-slash");
+        break;
       default:
         this.iconPath = new vscode.ThemeIcon("lock");
     }
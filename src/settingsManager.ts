@@ -1,4 +1,13 @@
 import * as vscode from "vscode";
+import * as os from "os";
+import { VariableContext } from "./variableResolver";
+import {
+  LoadedPolicyFile,
+  applyPolicyBoundaries,
+  applyPolicyLimits,
+  applyPolicyOperations,
+  loadPolicyFile,
+} from "./policyFile";
 
 /**
  * Server settings interface
@@ -23,6 +32,19 @@ export interface SecuritySettings {
   maxOperationsPerMinute: number;
 }
 
+/**
+ * Security boundaries of one workspace folder
+ * `workspaceRoot` is as configured; `${workspaceFolder}` refers to `folderPath`
+ */
+export interface FolderSecuritySettings {
+  name: string;
+  folderPath: string;
+  workspaceRoot: string;
+  allowedSubdirectories: string[];
+  blockedPaths: string[];
+  blockedPatterns: string[];
+}
+
 /**
  * Operations settings interface
  */
@@ -43,6 +65,33 @@ export interface UISettings {
   confirmDangerousOperations: boolean;
 }
 
+/**
+ * Operation history settings interface
+ */
+export interface HistorySettings {
+  persist: boolean;
+  maxEntries: number;
+  maxAgeDays: number;
+}
+
+/**
+ * Undo journal settings interface
+ */
+export interface UndoSettings {
+  enabled: boolean;
+  maxStorageMB: number;
+  maxAgeDays: number;
+}
+
+/**
+ * Audit log settings interface
+ */
+export interface AuditSettings {
+  enableAuditLog: boolean;
+  maxFileSizeMB: number;
+  maxFiles: number;
+}
+
 /**
  * Complete filesystem settings interface
  */
@@ -51,6 +100,11 @@ export interface FilesystemSettings {
   security: SecuritySettings;
   operations: OperationsSettings;
   ui: UISettings;
+  history: HistorySettings;
+  undo: UndoSettings;
+  audit: AuditSettings;
+  /** Project policy files merged into these settings */
+  policyFiles?: LoadedPolicyFile[];
 }
 
 /**
@@ -70,6 +124,10 @@ export class SettingsManager {
   private settings: FilesystemSettings;
   private readonly changeEmitter: vscode.EventEmitter<FilesystemSettings>;
   private readonly configSection = "mcp-filesystem";
+  private readonly policyFiles = new Map<
+    string,
+    LoadedPolicyFile | undefined
+  >();
 
   /**
    * Event fired when settings change
@@ -94,6 +152,8 @@ export class SettingsManager {
    */
   private loadSettings(): FilesystemSettings {
     const config = vscode.workspace.getConfiguration(this.configSection);
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const policyFiles = this.getPolicyFiles();
 
     // Load server settings
     const server: ServerSettings = {
@@ -107,28 +167,8 @@ export class SettingsManager {
     };
 
     // Load security settings
-    const security: SecuritySettings = {
-      workspaceRoot: config.get<string>(
-        "security.workspaceRoot",
-        "${workspaceFolder}"
-      ),
-      allowedSubdirectories: config.get<string[]>(
-        "security.allowedSubdirectories",
-        []
-      ),
-      blockedPaths: config.get<string[]>("security.blockedPaths", [
-        ".git",
-        ".env",
-        "node_modules",
-        ".ssh",
-      ]),
-      blockedPatterns: config.get<string[]>("security.blockedPatterns", [
-        "*.key",
-        "*.pem",
-        "*.env",
-        "*secret*",
-        "*password*",
-      ]),
+    let security: SecuritySettings = {
+      ...this.loadBoundaries(config),
       maxFileSize: config.get<number>("resources.maxFileSize", 104857600), // 100 MB
       maxBatchSize: config.get<number>("resources.maxBatchSize", 1073741824), // 1 GB
       maxOperationsPerMinute: config.get<number>(
@@ -138,13 +178,26 @@ export class SettingsManager {
     };
 
     // Load operations settings
-    const operations: OperationsSettings = {
+    let operations: OperationsSettings = {
       enableBatch: config.get<boolean>("operations.enableBatch", true),
       enableWatch: config.get<boolean>("operations.enableWatch", true),
       enableSearch: config.get<boolean>("operations.enableSearch", true),
       enableChecksum: config.get<boolean>("operations.enableChecksum", true),
     };
 
+    // Every policy file can tighten limits and disable tools; boundaries
+    // come from the file of the first folder, like `${workspaceFolder}`
+    for (const file of policyFiles) {
+      security = applyPolicyLimits(security, file.policy);
+      operations = applyPolicyOperations(operations, file.policy);
+    }
+    if (folders.length > 0) {
+      security = applyPolicyBoundaries(
+        security,
+        this.getPolicyFile(folders[0].uri.fsPath)?.policy
+      );
+    }
+
     // Load UI settings
     const ui: UISettings = {
       refreshInterval: config.get<number>("ui.refreshInterval", 5000),
@@ -159,7 +212,124 @@ export class SettingsManager {
       ),
     };
 
-    return { server, security, operations, ui };
+    // Load history settings
+    const history: HistorySettings = {
+      persist: config.get<boolean>("history.persist", true),
+      maxEntries: config.get<number>("history.maxEntries", 500),
+      maxAgeDays: config.get<number>("history.maxAgeDays", 30),
+    };
+
+    // Load undo journal settings
+    const undo: UndoSettings = {
+      enabled: config.get<boolean>("undo.enabled", true),
+      maxStorageMB: config.get<number>("undo.maxStorageMB", 100),
+      maxAgeDays: config.get<number>("undo.maxAgeDays", 7),
+    };
+
+    // Load audit log settings
+    const audit: AuditSettings = {
+      enableAuditLog: config.get<boolean>("audit.enableAuditLog", true),
+      maxFileSizeMB: config.get<number>("audit.maxFileSizeMB", 10),
+      maxFiles: config.get<number>("audit.maxFiles", 5),
+    };
+
+    return {
+      server,
+      security,
+      operations,
+      ui,
+      history,
+      undo,
+      audit,
+      policyFiles,
+    };
+  }
+
+  /**
+   * Get the security boundaries of each workspace folder
+   * Boundary settings are resource scoped, so each folder of a multi-root
+   * workspace can override them, and a folder's policy file tightens them
+   */
+  public getFolderSecuritySettings(): FolderSecuritySettings[] {
+    return (vscode.workspace.workspaceFolders ?? []).map((folder) => ({
+      name: folder.name,
+      folderPath: folder.uri.fsPath,
+      ...applyPolicyBoundaries(
+        this.loadBoundaries(
+          vscode.workspace.getConfiguration(this.configSection, folder.uri)
+        ),
+        this.getPolicyFile(folder.uri.fsPath)?.policy
+      ),
+    }));
+  }
+
+  /**
+   * Get the policy file of a workspace folder
+   * Files are read once and cached until settings are reloaded
+   */
+  public getPolicyFile(folderPath: string): LoadedPolicyFile | undefined {
+    if (!this.policyFiles.has(folderPath)) {
+      this.policyFiles.set(folderPath, loadPolicyFile(folderPath));
+    }
+    return this.policyFiles.get(folderPath);
+  }
+
+  /**
+   * Get the policy files of all workspace folders
+   */
+  public getPolicyFiles(): LoadedPolicyFile[] {
+    return (vscode.workspace.workspaceFolders ?? []).flatMap((folder) => {
+      const file = this.getPolicyFile(folder.uri.fsPath);
+      return file ? [file] : [];
+    });
+  }
+
+  /**
+   * Get the values for variables in path settings
+   * `${workspaceFolder}` is the first workspace folder
+   */
+  public getVariableContext(): VariableContext {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    return {
+      workspaceFolder: folders[0]?.uri.fsPath,
+      workspaceFolders: folders.map((folder) => ({
+        name: folder.name,
+        path: folder.uri.fsPath,
+      })),
+      userHome: os.homedir(),
+      env: process.env,
+    };
+  }
+
+  /**
+   * Load the boundary settings from a configuration scope
+   */
+  private loadBoundaries(
+    config: vscode.WorkspaceConfiguration
+  ): Omit<FolderSecuritySettings, "name" | "folderPath"> {
+    return {
+      workspaceRoot: config.get<string>(
+        "security.workspaceRoot",
+        "${workspaceFolder}"
+      ),
+      allowedSubdirectories: config.get<string[]>(
+        "security.allowedSubdirectories",
+        []
+      ),
+      blockedPaths: config.get<string[]>("security.blockedPaths", [
+        ".git",
+        ".env",
+        "node_modules",
+        ".ssh",
+      ]),
+      blockedPatterns: config.get<string[]>("security.blockedPatterns", [
+        "*.key",
+        "*.pem",
+        "*.env",
+        "*secret*",
+        "*password*",
+      ]),
+    };
   }
 
   /**
@@ -211,6 +381,13 @@ export class SettingsManager {
       );
     }
 
+    // Validate project policy files; a file with errors is not applied
+    for (const file of settings.policyFiles ?? []) {
+      for (const error of file.errors) {
+        errors.push(`${file.path}: ${error}`);
+      }
+    }
+
     // Validate UI settings
     if (settings.ui.refreshInterval < 0) {
       errors.push("Refresh interval cannot be negative");
@@ -221,6 +398,40 @@ export class SettingsManager {
       );
     }
 
+    // Validate history settings
+    if (settings.history.maxEntries < 1) {
+      errors.push("History max entries must be at least 1");
+    }
+    if (settings.history.maxEntries > 10000) {
+      warnings.push(
+        "History max entries is very high (>10000) - may slow down startup"
+      );
+    }
+    if (settings.history.maxAgeDays < 0) {
+      errors.push("History max age cannot be negative");
+    }
+
+    // Validate undo settings
+    if (settings.undo.maxStorageMB < 1) {
+      errors.push("Undo storage budget must be at least 1 MB");
+    }
+    if (settings.undo.maxAgeDays < 0) {
+      errors.push("Undo max age cannot be negative");
+    }
+
+    // Validate audit settings
+    if (settings.audit.maxFileSizeMB < 1) {
+      errors.push("Audit log file size must be at least 1 MB");
+    }
+    if (settings.audit.maxFiles < 1) {
+      errors.push("Audit log must keep at least 1 file");
+    }
+    if (!settings.audit.enableAuditLog) {
+      warnings.push(
+        "Audit logging is disabled - agent file operations will not be recorded"
+      );
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -239,6 +450,9 @@ export class SettingsManager {
       security: { ...this.settings.security, ...updates.security },
       operations: { ...this.settings.operations, ...updates.operations },
       ui: { ...this.settings.ui, ...updates.ui },
+      history: { ...this.settings.history, ...updates.history },
+      undo: { ...this.settings.undo, ...updates.undo },
+      audit: { ...this.settings.audit, ...updates.audit },
     };
 
     // Validate new settings
@@ -296,8 +510,38 @@ export class SettingsManager {
       }
     }
 
+    if (updates.history) {
+      for (const [key, value] of Object.entries(updates.history)) {
+        await config.update(
+          `history.${key}`,
+          value,
+          vscode.ConfigurationTarget.Workspace
+        );
+      }
+    }
+
+    if (updates.undo) {
+      for (const [key, value] of Object.entries(updates.undo)) {
+        await config.update(
+          `undo.${key}`,
+          value,
+          vscode.ConfigurationTarget.Workspace
+        );
+      }
+    }
+
+    if (updates.audit) {
+      for (const [key, value] of Object.entries(updates.audit)) {
+        await config.update(
+          `audit.${key}`,
+          value,
+          vscode.ConfigurationTarget.Workspace
+        );
+      }
+    }
+
     // Update internal state
-    this.settings = newSettings;
+    this.settings = { ...newSettings, policyFiles: this.settings.policyFiles };
 
     // Emit change event
     this.changeEmitter.fire(this.settings);
@@ -307,6 +551,7 @@ export class SettingsManager {
    * Reload settings from configuration
    */
   public reloadSettings(): void {
+    this.policyFiles.clear();
     this.settings = this.loadSettings();
     this.changeEmitter.fire(this.settings);
   }
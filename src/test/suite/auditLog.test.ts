@@ -0,0 +1,158 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  AuditLogger,
+  getAuditCaller,
+  getAuditLogHTML,
+  runWithAuditCaller,
+} from "../../auditLog";
+
+suite("Audit Log Test Suite", () => {
+  let logDir: string;
+  let settings: {
+    enableAuditLog: boolean;
+    maxFileSizeMB: number;
+    maxFiles: number;
+  };
+  let logger: AuditLogger;
+
+  setup(() => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-audit-"));
+    settings = { enableAuditLog: true, maxFileSizeMB: 1, maxFiles: 3 };
+    const settingsManager: any = { getSettings: () => ({ audit: settings }) };
+    logger = new AuditLogger(logDir, settingsManager);
+  });
+
+  teardown(() => {
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  test("should append one JSON line per call with affected paths", async () => {
+    await logger.log({
+      tool: "fs_batch_operations",
+      args: {
+        operations: [
+          { type: "move", source: "/ws/a.txt", destination: "/ws/b.txt" },
+        ],
+      },
+      caller: "chat",
+      outcome: "success",
+      durationMs: 12,
+    });
+
+    const lines = fs
+      .readFileSync(logger.getLogPath(), "utf8")
+      .trim()
+      .split("\n");
+    assert.strictEqual(lines.length, 1);
+    const record = JSON.parse(lines[0]);
+    assert.strictEqual(record.tool, "fs_batch_operations");
+    assert.strictEqual(record.caller, "chat");
+    assert.deepStrictEqual(record.affectedPaths, ["/ws/a.txt", "/ws/b.txt"]);
+    assert.ok(!isNaN(Date.parse(record.timestamp)));
+  });
+
+  test("should write nothing when audit logging is disabled", async () => {
+    settings.enableAuditLog = false;
+    await logger.log({
+      tool: "fs_search_files",
+      args: {},
+      caller: "command",
+      outcome: "success",
+      durationMs: 1,
+    });
+    assert.ok(!fs.existsSync(logger.getLogPath()));
+  });
+
+  test("should filter records", async () => {
+    const calls = [
+      { tool: "fs_copy_directory", path: "/ws/src", caller: "lm-tool" },
+      { tool: "fs_search_files", path: "/ws/docs", caller: "command" },
+      { tool: "fs_copy_directory", path: "/ws/docs", caller: "chat" },
+    ] as const;
+    for (const call of calls) {
+      await logger.log({
+        tool: call.tool,
+        args: { path: call.path },
+        caller: call.caller,
+        outcome: call.caller === "chat" ? "failure" : "success",
+        error: call.caller === "chat" ? "denied" : undefined,
+        durationMs: 1,
+      });
+    }
+
+    assert.strictEqual((await logger.read()).length, 3);
+    assert.strictEqual(
+      (await logger.read({ tool: "fs_copy_directory" })).length,
+      2
+    );
+    assert.strictEqual((await logger.read({ caller: "command" })).length, 1);
+    assert.strictEqual((await logger.read({ outcome: "failure" })).length, 1);
+    assert.strictEqual((await logger.read({ path: "DOCS" })).length, 2);
+  });
+
+  test("should rotate and keep the configured number of files", async () => {
+    const big = "x".repeat(400 * 1024);
+    for (let i = 0; i < 8; i++) {
+      await logger.log({
+        tool: `tool_${i}`,
+        args: { data: big },
+        caller: "command",
+        outcome: "success",
+        durationMs: 1,
+      });
+    }
+
+    const files = fs.readdirSync(logDir).sort();
+    assert.deepStrictEqual(files, [
+      "audit.1.jsonl",
+      "audit.2.jsonl",
+      "audit.jsonl",
+    ]);
+    const tools = (await logger.read()).map((record) => record.tool);
+    assert.strictEqual(tools[tools.length - 1], "tool_7");
+    assert.ok(!tools.includes("tool_0"));
+  });
+
+  test("should attribute calls to the surrounding caller", async () => {
+    assert.strictEqual(getAuditCaller(), "command");
+    const caller = await runWithAuditCaller("lm-tool", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      return getAuditCaller();
+    });
+    assert.strictEqual(caller, "lm-tool");
+  });
+
+  test("should render records newest first and escape values", () => {
+    const html = getAuditLogHTML(
+      [
+        {
+          timestamp: "2024-01-01T00:00:00.000Z",
+          tool: "fs_first",
+          args: {},
+          caller: "chat",
+          outcome: "failure",
+          error: "<denied>",
+          durationMs: 3,
+          affectedPaths: ["/ws/a"],
+        },
+        {
+          timestamp: "2024-01-02T00:00:00.000Z",
+          tool: "fs_second",
+          args: {},
+          caller: "command",
+          outcome: "success",
+          durationMs: 4,
+          affectedPaths: [],
+        },
+      ],
+      "All records"
+    );
+
+    assert.ok(html.indexOf("fs_second") < html.indexOf("fs_first"));
+    assert.ok(html.includes("&lt;denied&gt;"));
+    assert.ok(html.includes("2 record(s), 1 failed"));
+  });
+});
@@ -0,0 +1,116 @@
+import * as assert from "assert";
+import * as path from "path";
+import {
+  BatchOperationsBuilder,
+  describeOperation,
+  getBatchResultsHTML,
+} from "../../batchOperationsBuilder";
+
+suite("Batch Operations Builder Test Suite", () => {
+  let builder: BatchOperationsBuilder;
+
+  setup(() => {
+    builder = new BatchOperationsBuilder();
+  });
+
+  suite("Building Operations", () => {
+    test("should start empty and atomic", () => {
+      assert.strictEqual(builder.getOperations().length, 0);
+      assert.strictEqual(builder.isAtomic(), true);
+    });
+
+    test("should add copy operations into the destination folder", () => {
+      const source = path.join("/workspace", "src", "a.ts");
+      const dest = path.join("/workspace", "backup");
+      builder.addOperations("copy", [source], dest);
+
+      const ops = builder.getOperations();
+      assert.strictEqual(ops.length, 1);
+      assert.strictEqual(ops[0].type, "copy");
+      assert.strictEqual(ops[0].source, source);
+      assert.strictEqual(ops[0].destination, path.join(dest, "a.ts"));
+    });
+
+    test("should add delete operations without destination", () => {
+      builder.addOperations("delete", ["/workspace/a.txt", "/workspace/b.txt"]);
+
+      const ops = builder.getOperations();
+      assert.strictEqual(ops.length, 2);
+      assert.ok(ops.every((op) => op.type === "delete"));
+      assert.ok(ops.every((op) => op.destination === undefined));
+    });
+
+    test("should require a destination for copy and move", () => {
+      assert.throws(() => builder.addOperations("copy", ["/a"]));
+      assert.throws(() => builder.addOperations("move", ["/a"]));
+    });
+
+    test("should not queue duplicate operations", () => {
+      builder.addOperations("delete", ["/workspace/a.txt"]);
+      builder.addOperations("delete", ["/workspace/a.txt"]);
+      assert.strictEqual(builder.getOperations().length, 1);
+    });
+
+    test("should replace operations with a subset", () => {
+      builder.addOperations("delete", ["/a", "/b", "/c"]);
+      const [first] = builder.getOperations();
+      builder.setOperations([first]);
+      assert.deepStrictEqual(builder.getOperations(), [first]);
+    });
+
+    test("toRequest should include atomic flag", () => {
+      builder.addOperations("delete", ["/a"]);
+      builder.setAtomic(false);
+      const request = builder.toRequest();
+      assert.strictEqual(request.atomic, false);
+      assert.strictEqual(request.operations.length, 1);
+    });
+  });
+
+  suite("Rendering", () => {
+    test("describeOperation should describe copy and delete", () => {
+      assert.strictEqual(
+        describeOperation({ type: "delete", source: "/a" }),
+        "delete /a"
+      );
+      assert.strictEqual(
+        describeOperation({ type: "copy", source: "/a", destination: "/b" }),
+        "copy /a → /b"
+      );
+    });
+
+    test("results HTML should summarise successes and failures", () => {
+      const request = {
+        operations: [
+          { type: "copy" as const, source: "/a", destination: "/b" },
+          { type: "delete" as const, source: "/c" },
+        ],
+        atomic: false,
+      };
+      const html = getBatchResultsHTML(request, [
+        { operation: request.operations[0], success: true },
+        {
+          operation: request.operations[1],
+          success: false,
+          error: "ENOENT",
+        },
+      ]);
+
+      assert.ok(html.includes("1 succeeded, 1 failed"));
+      assert.ok(html.includes("ENOENT"));
+      assert.ok(html.includes("COMPLETED"));
+    });
+
+    test("results HTML should show batch-level errors", () => {
+      const request = {
+        operations: [{ type: "delete" as const, source: "/<c>" }],
+        atomic: true,
+      };
+      const html = getBatchResultsHTML(request, undefined, "Rolled back");
+
+      assert.ok(html.includes("FAILED"));
+      assert.ok(html.includes("Rolled back"));
+      assert.ok(html.includes("/&lt;c&gt;"));
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { slashCommands } from "../../chatParticipant";
+
+suite("Chat Participant Test Suite", () => {
+  const packageJson = JSON.parse(
+    fs.readFileSync(path.resolve(__dirname, "../../../package.json"), "utf8")
+  );
+
+  suite("Slash Commands", () => {
+    test("should declare every slash command in package.json", () => {
+      const declared = packageJson.contributes.chatParticipants[0].commands.map(
+        (command: { name: string }) => command.name
+      );
+      assert.deepStrictEqual(
+        [...declared].sort(),
+        Object.keys(slashCommands).sort()
+      );
+    });
+
+    test("should only reference contributed tools", () => {
+      const tools = new Set(
+        packageJson.contributes.languageModelTools.map(
+          (tool: { name: string }) => tool.name
+        )
+      );
+      for (const [name, command] of Object.entries(slashCommands)) {
+        for (const tool of command.tools) {
+          assert.ok(tools.has(tool), `/${name} uses unknown tool ${tool}`);
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  collectFiles,
+  formatManifest,
+  getAlgorithmForChecksum,
+  getCommonDirectory,
+  getManifestFileName,
+  getManifestVerificationHTML,
+  isManifestFileName,
+  parseManifest,
+} from "../../checksumManifest";
+
+suite("Checksum Manifest Test Suite", () => {
+  const sha256 = "a".repeat(64);
+  const md5 = "b".repeat(32);
+
+  suite("Formatting", () => {
+    test("should use coreutils text format", () => {
+      const text = formatManifest([
+        { path: "dist/app.js", checksum: sha256.toUpperCase() },
+        { path: "README.md", checksum: sha256 },
+      ]);
+      assert.strictEqual(
+        text,
+        `${sha256}  dist/app.js\n${sha256}  README.md\n`
+      );
+    });
+
+    test("should name manifests by algorithm", () => {
+      assert.strictEqual(
+        getManifestFileName("sha256", "release"),
+        "SHA256SUMS"
+      );
+      assert.strictEqual(
+        getManifestFileName("sha512", "release"),
+        "SHA512SUMS"
+      );
+      assert.strictEqual(getManifestFileName("md5", "release"), "release.md5");
+    });
+
+    test("should detect algorithm from digest length", () => {
+      assert.strictEqual(getAlgorithmForChecksum(md5), "md5");
+      assert.strictEqual(getAlgorithmForChecksum("c".repeat(40)), "sha1");
+      assert.strictEqual(getAlgorithmForChecksum(sha256), "sha256");
+      assert.strictEqual(getAlgorithmForChecksum("abc"), undefined);
+    });
+  });
+
+  suite("Parsing", () => {
+    test("should round-trip formatted manifests", () => {
+      const entries = [
+        { path: "a file with spaces.txt", checksum: sha256 },
+        { path: "dir/b.bin", checksum: sha256 },
+      ];
+      const parsed = parseManifest(formatManifest(entries), "SHA256SUMS");
+
+      assert.deepStrictEqual(parsed.entries, entries);
+      assert.strictEqual(parsed.algorithm, "sha256");
+      assert.deepStrictEqual(parsed.invalidLines, []);
+    });
+
+    test("should accept binary mode and BSD lines", () => {
+      const parsed = parseManifest(
+        `${md5} *bin/tool\nMD5 (docs/readme.txt) = ${md5.toUpperCase()}\n`
+      );
+
+      assert.deepStrictEqual(parsed.entries, [
+        { path: "bin/tool", checksum: md5 },
+        { path: "docs/readme.txt", checksum: md5 },
+      ]);
+      assert.strictEqual(parsed.algorithm, "md5");
+    });
+
+    test("should detect algorithm from the file name", () => {
+      const parsed = parseManifest(`${md5}  a.txt\n`, "/tmp/release.md5");
+      assert.strictEqual(parsed.algorithm, "md5");
+    });
+
+    test("should recognise manifest file names", () => {
+      assert.strictEqual(isManifestFileName("/release/SHA256SUMS"), true);
+      assert.strictEqual(isManifestFileName("dist.md5"), true);
+      assert.strictEqual(isManifestFileName("app.sha512"), true);
+      assert.strictEqual(isManifestFileName("notes.txt"), false);
+    });
+
+    test("should report invalid lines and skip comments", () => {
+      const parsed = parseManifest(
+        `# generated\n${sha256}  ok.txt\nnot a checksum line\n`
+      );
+      assert.strictEqual(parsed.entries.length, 1);
+      assert.deepStrictEqual(parsed.invalidLines, [3]);
+    });
+  });
+
+  suite("Files", () => {
+    let tempDir: string;
+
+    setup(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-manifest-"));
+      fs.mkdirSync(path.join(tempDir, "sub"));
+      fs.writeFileSync(path.join(tempDir, "a.txt"), "a");
+      fs.writeFileSync(path.join(tempDir, "sub", "b.txt"), "b");
+      fs.writeFileSync(path.join(tempDir, "SHA256SUMS"), "");
+    });
+
+    teardown(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test("collectFiles should expand folders and honor exclusions", async () => {
+      const files = await collectFiles(
+        [tempDir],
+        [path.join(tempDir, "SHA256SUMS")]
+      );
+      assert.deepStrictEqual(files, [
+        path.join(tempDir, "a.txt"),
+        path.join(tempDir, "sub", "b.txt"),
+      ]);
+    });
+
+    test("getCommonDirectory should find the shared parent", () => {
+      assert.strictEqual(
+        getCommonDirectory([
+          path.join(tempDir, "a.txt"),
+          path.join(tempDir, "sub", "b.txt"),
+        ]),
+        tempDir
+      );
+    });
+  });
+
+  suite("Rendering", () => {
+    test("should summarise verification results", () => {
+      const html = getManifestVerificationHTML(
+        "/release/SHA256SUMS",
+        [
+          { path: "ok.txt", status: "match", expected: sha256, actual: sha256 },
+          {
+            path: "bad.txt",
+            status: "mismatch",
+            expected: sha256,
+            actual: md5,
+          },
+          { path: "<gone>.txt", status: "missing", expected: sha256 },
+        ],
+        [7]
+      );
+
+      assert.ok(html.includes("FAILED"));
+      assert.ok(html.includes("1 matched, 1 mismatched, 1 missing"));
+      assert.ok(html.includes("&lt;gone&gt;.txt"));
+      assert.ok(html.includes("unparseable lines: 7"));
+    });
+  });
+});
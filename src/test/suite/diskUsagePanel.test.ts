@@ -0,0 +1,122 @@
+import * as assert from "assert";
+import * as path from "path";
+import {
+  DiskUsageReport,
+  getDiskUsageHTML,
+  getDiskUsageTiles,
+  layoutTreemap,
+} from "../../diskUsagePanel";
+
+suite("Disk Usage Panel Test Suite", () => {
+  const root = path.join(path.sep, "workspace");
+  const report: DiskUsageReport = {
+    path: root,
+    totalSize: 1000,
+    fileCount: 4,
+    largestFiles: [
+      { path: path.join(root, "dist", "bundle.js"), size: 500 },
+      { path: path.join(root, "dist", "bundle.js.map"), size: 200 },
+      { path: path.join(root, "README.md"), size: 100 },
+    ],
+    largestDirectories: [{ path: path.join(root, "dist"), size: 650 }],
+    fileTypeBreakdown: { ".js": 500, ".map": 200, ".md": 100 },
+  };
+
+  suite("Tiles", () => {
+    test("should group entries by direct child", () => {
+      const tiles = getDiskUsageTiles(report);
+      const dist = tiles.find((tile) => tile.name === "dist");
+
+      assert.ok(dist);
+      assert.strictEqual(dist!.isDirectory, true);
+      assert.strictEqual(dist!.path, path.join(root, "dist"));
+      // Listed files under dist add up to more than the reported size
+      assert.strictEqual(dist!.size, 700);
+    });
+
+    test("should add an Other tile for uncovered space", () => {
+      const tiles = getDiskUsageTiles(report);
+      const other = tiles.find((tile) => tile.name === "Other");
+
+      assert.ok(other);
+      assert.strictEqual(other!.path, undefined);
+      assert.strictEqual(other!.size, 200);
+    });
+
+    test("should sort tiles largest first", () => {
+      const sizes = getDiskUsageTiles(report).map((tile) => tile.size);
+      assert.deepStrictEqual(
+        sizes,
+        [...sizes].sort((a, b) => b - a)
+      );
+    });
+
+    test("should ignore entries outside the analyzed directory", () => {
+      const tiles = getDiskUsageTiles({
+        ...report,
+        largestFiles: [{ path: path.join(path.sep, "elsewhere"), size: 10 }],
+        largestDirectories: [],
+      });
+      assert.deepStrictEqual(
+        tiles.map((tile) => tile.name),
+        ["Other"]
+      );
+    });
+  });
+
+  suite("Treemap Layout", () => {
+    test("should make areas proportional to sizes", () => {
+      const rects = layoutTreemap([6, 3, 1], 100, 100);
+      assert.strictEqual(rects.length, 3);
+
+      const areaOf = (index: number) => {
+        const rect = rects.find((r) => r.index === index)!;
+        return rect.width * rect.height;
+      };
+      assert.ok(Math.abs(areaOf(0) - 6000) < 1e-6);
+      assert.ok(Math.abs(areaOf(1) - 3000) < 1e-6);
+      assert.ok(Math.abs(areaOf(2) - 1000) < 1e-6);
+    });
+
+    test("should stay within bounds", () => {
+      const rects = layoutTreemap([5, 4, 3, 2, 1, 1, 1], 100, 50);
+      for (const rect of rects) {
+        assert.ok(rect.x >= -1e-9 && rect.y >= -1e-9);
+        assert.ok(rect.x + rect.width <= 100 + 1e-9);
+        assert.ok(rect.y + rect.height <= 50 + 1e-9);
+      }
+    });
+
+    test("should skip empty items", () => {
+      assert.deepStrictEqual(layoutTreemap([], 100, 100), []);
+      assert.deepStrictEqual(
+        layoutTreemap([0, 2], 10, 10).map((r) => r.index),
+        [1]
+      );
+    });
+  });
+
+  suite("Rendering", () => {
+    test("should render drill-down, reveal and delete actions", () => {
+      const html = getDiskUsageHTML(report, root, "abc");
+
+      assert.ok(html.includes(`data-analyze="${path.join(root, "dist")}"`));
+      assert.ok(html.includes(`data-delete="${path.join(root, "README.md")}"`));
+      assert.ok(html.includes("nonce-abc"));
+      assert.ok(html.includes(".map"));
+    });
+
+    test("should escape paths", () => {
+      const html = getDiskUsageHTML(
+        {
+          ...report,
+          largestFiles: [{ path: path.join(root, "<b>.txt"), size: 1 }],
+        },
+        root,
+        "abc"
+      );
+      assert.ok(!html.includes("<b>.txt"));
+      assert.ok(html.includes("&lt;b&gt;.txt"));
+    });
+  });
+});
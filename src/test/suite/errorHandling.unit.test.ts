@@ -121,6 +121,19 @@ suite("ErrorHandler Unit Tests", () => {
       assert.ok(message.includes("secret.key"));
       assert.ok(message.includes("*.key"));
     });
+
+    test("should include blocked path in security error message", () => {
+      const error: FilesystemError = Object.assign(
+        new Error("security violation"),
+        {
+          category: ErrorCategory.SECURITY_ERROR,
+          context: { path: ".git/config", blockedPath: ".git" },
+        }
+      );
+      const message = errorHandler.getUserFriendlyMessage(error);
+      assert.ok(message.includes(".git/config"));
+      assert.ok(message.includes("blocked path"));
+    });
   });
 
   suite("Recovery Suggestions", () => {
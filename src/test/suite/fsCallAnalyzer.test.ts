@@ -0,0 +1,133 @@
+import * as assert from "assert";
+import * as path from "path";
+import {
+  analyzeFsCalls,
+  findPathLiteral,
+  parseSource,
+} from "../../fsCallAnalyzer";
+
+suite("Fs Call Analyzer Test Suite", () => {
+  const fileName = path.resolve("/repo/src/index.ts");
+  const analyze = (text: string, languageId?: string) =>
+    analyzeFsCalls(parseSource(text, fileName, languageId));
+  const paths = (text: string) =>
+    analyze(text).flatMap((call) => call.paths.map((p) => p.value));
+
+  test("Should only report fs path arguments", () => {
+    const text = [
+      'import * as fs from "fs";',
+      'import { helper } from "./lib/helper";',
+      'const url = "https://example.com/a/b";',
+      'fs.readFileSync("/etc/passwd", "utf8");',
+      'fetch("/api/users");',
+    ].join("\n");
+
+    const calls = analyze(text);
+    assert.strictEqual(calls.length, 1);
+    assert.strictEqual(calls[0].module, "fs");
+    assert.strictEqual(calls[0].method, "readFileSync");
+    assert.deepStrictEqual(calls[0].paths.length, 1);
+    assert.strictEqual(calls[0].paths[0].value, "/etc/passwd");
+    assert.strictEqual(calls[0].paths[0].isLiteral, true);
+    assert.strictEqual(
+      text.slice(calls[0].paths[0].start, calls[0].paths[0].end),
+      '"/etc/passwd"'
+    );
+  });
+
+  test("Should follow fs/promises, fs-extra and require bindings", () => {
+    const calls = analyze(
+      [
+        'import { readFile as read } from "node:fs/promises";',
+        'import fse from "fs-extra";',
+        'const { promises: fsp } = require("fs");',
+        'const fsAsync = require("fs").promises;',
+        'read("a.txt");',
+        'fse.copy("from", "to");',
+        'fsp.unlink("b.txt");',
+        'fsAsync.stat("c.txt");',
+        'fse.ensureDir("d");',
+      ].join("\n")
+    );
+
+    assert.deepStrictEqual(
+      calls.map((call) => [call.module, call.method, call.paths.length]),
+      [
+        ["fs/promises", "readFile", 1],
+        ["fs-extra", "copy", 2],
+        ["fs/promises", "unlink", 1],
+        ["fs/promises", "stat", 1],
+        ["fs-extra", "ensureDir", 1],
+      ]
+    );
+  });
+
+  test("Should resolve constant paths through path.join and resolve", () => {
+    assert.deepStrictEqual(
+      paths(
+        [
+          'import * as fs from "fs";',
+          'import { join } from "path";',
+          'const base = "/var/data";',
+          "const file = `${base}/cache.json`;",
+          "fs.readFileSync(file);",
+          'fs.promises.writeFile(join(base, "..", "log"), "");',
+          'fs.existsSync(path.resolve(__dirname, "../.env"));',
+          'fs.statSync(path.resolve("relative"));',
+          "fs.rmSync(userInput);",
+        ].join("\n")
+      ),
+      [
+        "/var/data/cache.json",
+        path.join("/var/data", "..", "log"),
+        path.resolve("/repo/.env"),
+        undefined,
+        undefined,
+      ]
+    );
+  });
+
+  test("Should ignore shadowed and unrelated bindings", () => {
+    assert.deepStrictEqual(
+      analyze(
+        [
+          "const fs = createMemoryFs();",
+          'fs.readFileSync("/etc/passwd");',
+          "const other = { readFile() {} };",
+          'other.readFile("/etc/passwd");',
+        ].join("\n")
+      ),
+      []
+    );
+  });
+
+  test("Should parse JSX documents", () => {
+    const calls = analyze(
+      'const el = <div />;\nfs.symlinkSync("link", "target");',
+      "javascriptreact"
+    );
+
+    assert.strictEqual(calls.length, 1);
+    assert.strictEqual(calls[0].callee, "fs.symlinkSync");
+    assert.deepStrictEqual(
+      calls[0].paths.map((p) => p.value),
+      ["link", "target"]
+    );
+  });
+
+  test("Should find the string literal at an offset", () => {
+    const text = 'import x from "./x";\nconst p = "src/li';
+    const source = parseSource(text, fileName);
+
+    assert.deepStrictEqual(findPathLiteral(source, text.length), {
+      start: text.indexOf("src/li"),
+      end: text.length,
+      value: "src/li",
+    });
+    assert.strictEqual(findPathLiteral(source, text.indexOf("./x")), undefined);
+    assert.strictEqual(
+      findPathLiteral(parseSource('a("b") + 1', fileName), 6),
+      undefined
+    );
+  });
+});
@@ -0,0 +1,224 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { analyzeFsCalls, parseSource } from "../../fsCallAnalyzer";
+import {
+  SourceEdit,
+  getAsyncCallFix,
+  getAsyncFileFix,
+  getRemoveCallFix,
+  getWorkspacePathFixes,
+} from "../../fsQuickFixes";
+
+suite("Fs Quick Fixes Test Suite", () => {
+  const apply = (text: string, edits: SourceEdit[]) =>
+    // Edits at the same offset apply in order, as in a WorkspaceEdit
+    edits
+      .map((edit, index) => ({ edit, index }))
+      .sort((a, b) => b.edit.start - a.edit.start || b.index - a.index)
+      .reduce(
+        (result, { edit }) =>
+          result.slice(0, edit.start) + edit.newText + result.slice(edit.end),
+        text
+      );
+  const firstCall = (text: string, fileName = "/repo/src/index.ts") => {
+    const source = parseSource(text, fileName);
+    return { source, call: analyzeFsCalls(source)[0] };
+  };
+
+  suite("Workspace-relative paths", () => {
+    let root: string;
+
+    setup(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-quick-fix-"));
+      fs.mkdirSync(path.join(root, "src", "data"), { recursive: true });
+      fs.writeFileSync(path.join(root, "src", "data", "users.json"), "[]");
+    });
+
+    teardown(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test("Should rewrite the path to the workspace file it names", () => {
+      const fileName = path.join(root, "src", "index.ts");
+      const text = "fs.readFileSync('/home/alice/app/src/data/users.json');";
+      const { source, call } = firstCall(text, fileName);
+
+      const fixes = getWorkspacePathFixes(source, call.paths[0], root);
+
+      assert.deepStrictEqual(
+        fixes.map((fix) => [fix.title, apply(text, fix.edits)]),
+        [
+          [
+            "Use workspace-relative path",
+            "fs.readFileSync('src/data/users.json');",
+          ],
+          [
+            "Use path relative to this file",
+            'import * as path from "path";\n' +
+              "fs.readFileSync(path.join(__dirname, 'data/users.json'));",
+          ],
+        ]
+      );
+    });
+
+    test("Should reuse the imported path module", () => {
+      const fileName = path.join(root, "src", "index.js");
+      const text = [
+        'const nodePath = require("path");',
+        'fs.readFileSync("/elsewhere/src/data/users.json");',
+      ].join("\n");
+      const { source, call } = firstCall(text, fileName);
+
+      const fix = getWorkspacePathFixes(source, call.paths[0], root)[1];
+
+      assert.strictEqual(
+        apply(text, fix.edits),
+        [
+          'const nodePath = require("path");',
+          'fs.readFileSync(nodePath.join(__dirname, "data/users.json"));',
+        ].join("\n")
+      );
+    });
+
+    test("Should not offer a fix without a matching workspace file", () => {
+      const { source, call } = firstCall('fs.readFileSync("/etc/passwd");');
+
+      assert.deepStrictEqual(
+        getWorkspacePathFixes(source, call.paths[0], root),
+        []
+      );
+    });
+  });
+
+  test("Should remove a statement that only makes the call", () => {
+    const text = [
+      "async function clean() {",
+      '  await fs.promises.rm(".git/index.lock");',
+      "  done();",
+      "}",
+    ].join("\n");
+    const { source, call } = firstCall(text);
+
+    const fix = getRemoveCallFix(source, call);
+
+    assert.strictEqual(
+      apply(text, fix?.edits ?? []),
+      "async function clean() {\n  done();\n}"
+    );
+  });
+
+  test("Should keep calls whose result is used", () => {
+    const used = firstCall('const config = fs.readFileSync(".git/config");');
+    const guarded = firstCall('if (ok) fs.unlinkSync(".env");');
+
+    assert.strictEqual(getRemoveCallFix(used.source, used.call), undefined);
+    assert.strictEqual(
+      getRemoveCallFix(guarded.source, guarded.call),
+      undefined
+    );
+  });
+
+  test("Should await the promise equivalent in async functions", () => {
+    const text = [
+      'import * as fs from "fs";',
+      "async function read(file) {",
+      "  fs.unlinkSync(file);",
+      "  return fs.readFileSync(file).toString();",
+      "}",
+    ].join("\n");
+    const source = parseSource(text, "/repo/src/index.ts");
+
+    assert.strictEqual(
+      apply(text, getAsyncFileFix(source, analyzeFsCalls(source))?.edits ?? []),
+      [
+        'import * as fs from "fs";',
+        "async function read(file) {",
+        "  await fs.promises.unlink(file);",
+        "  return (await fs.promises.readFile(file)).toString();",
+        "}",
+      ].join("\n")
+    );
+  });
+
+  test("Should mark the enclosing function async and import fs", () => {
+    const text = [
+      "function clean(dir: string): void {",
+      "  fs.unlinkSync(dir + '/a');",
+      "  fs.rmdirSync(dir);",
+      "}",
+      "async function main() {",
+      "  await clean(dir);",
+      "}",
+    ].join("\n");
+    const source = parseSource(text, "/repo/src/index.ts");
+
+    assert.strictEqual(
+      apply(text, getAsyncFileFix(source, analyzeFsCalls(source))?.edits ?? []),
+      [
+        'import * as fs from "fs";',
+        "async function clean(dir: string): Promise<void> {",
+        "  await fs.promises.unlink(dir + '/a');",
+        "  await fs.promises.rmdir(dir);",
+        "}",
+        "async function main() {",
+        "  await clean(dir);",
+        "}",
+      ].join("\n")
+    );
+  });
+
+  test("Should convert named imports through the fs namespace", () => {
+    const text = [
+      'import { unlinkSync } from "fs";',
+      "const clean = () => {",
+      "  unlinkSync(file);",
+      "};",
+    ].join("\n");
+    const { source, call } = firstCall(text);
+
+    assert.strictEqual(
+      apply(text, getAsyncCallFix(source, call)?.edits ?? []),
+      [
+        'import { unlinkSync } from "fs";',
+        'import * as fs from "fs";',
+        "const clean = async () => {",
+        "  await fs.promises.unlink(file);",
+        "};",
+      ].join("\n")
+    );
+  });
+
+  test("Should leave calls whose function cannot safely become async", () => {
+    const cases = [
+      "function load() {\n  return fs.readFileSync(file);\n}",
+      "files.forEach((file) => {\n  fs.unlinkSync(file);\n});",
+      "class A {\n  constructor() {\n    fs.mkdirSync(dir);\n  }\n}",
+      "fs.unlinkSync(file);",
+      "async function f() {\n  fs.existsSync(file);\n}",
+      // Callers that would not wait for the write
+      "function save() {\n  fs.writeFileSync(p, d);\n}\nsave();\nprocess.exit();",
+      "const save = () => {\n  fs.writeFileSync(p, d);\n};\nmodule.exports = { save };",
+      "export function save() {\n  fs.writeFileSync(p, d);\n}",
+      "class A {\n  save() {\n    fs.writeFileSync(p, d);\n  }\n}",
+    ];
+
+    for (const text of cases) {
+      const { source, call } = firstCall(text);
+      assert.strictEqual(getAsyncCallFix(source, call), undefined, text);
+    }
+  });
+
+  test("Should only fix all when several calls convert", () => {
+    const single = parseSource(
+      "function f() {\n  fs.unlinkSync(a);\n  fs.existsSync(b);\n}",
+      "/repo/src/index.ts"
+    );
+
+    assert.strictEqual(
+      getAsyncFileFix(single, analyzeFsCalls(single)),
+      undefined
+    );
+  });
+});
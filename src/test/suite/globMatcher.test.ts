@@ -0,0 +1,83 @@
+import * as assert from "assert";
+import {
+  findMatchingPattern,
+  globToRegExp,
+  matchesGlob,
+  validateGlob,
+} from "../../globMatcher";
+
+suite("Glob Matcher Test Suite", () => {
+  test("Should anchor patterns and escape dots", () => {
+    assert.ok(matchesGlob(".env", "*.env"));
+    assert.ok(matchesGlob("config/prod.env", "*.env"));
+    assert.ok(!matchesGlob("xenv", "*.env"));
+    assert.ok(!matchesGlob("prod.environment", "*.env"));
+  });
+
+  test("Should keep single stars within one segment", () => {
+    assert.ok(matchesGlob("src/app.ts", "src/*.ts"));
+    assert.ok(!matchesGlob("src/lib/app.ts", "src/*.ts"));
+  });
+
+  test("Should match double stars across segments", () => {
+    assert.ok(matchesGlob("src/lib/deep/app.ts", "src/**/*.ts"));
+    assert.ok(matchesGlob("src/app.ts", "src/**/*.ts"));
+    assert.ok(matchesGlob("a/b/certs/server.pem", "**/certs/*.pem"));
+    assert.ok(!matchesGlob("srcx/app.ts", "src/**/*.ts"));
+  });
+
+  test("Should match question marks and character classes", () => {
+    assert.ok(matchesGlob("id_rsa1", "id_rsa?"));
+    assert.ok(!matchesGlob("id_rsa", "id_rsa?"));
+    assert.ok(matchesGlob("backup-2.tar", "backup-[0-9].tar"));
+    assert.ok(!matchesGlob("backup-x.tar", "backup-[0-9].tar"));
+    assert.ok(matchesGlob("backup-x.tar", "backup-[!0-9].tar"));
+    assert.ok(!matchesGlob("backup-2.tar", "backup-[!0-9].tar"));
+  });
+
+  test("Should match slashless patterns against any segment", () => {
+    assert.ok(matchesGlob("my-secrets/notes.txt", "*secret*"));
+    assert.ok(matchesGlob("/home/user/project/.ssh", ".ssh"));
+  });
+
+  test("Should match slashed patterns against the whole path", () => {
+    assert.ok(matchesGlob("config/local.json", "/config/*.json"));
+    assert.ok(matchesGlob("config/keys/a.pem", "config/keys"));
+    assert.ok(!matchesGlob("app/config/local.json", "config/*.json"));
+  });
+
+  test("Should let the last matching pattern decide", () => {
+    const patterns = ["*.env", "!example.env"];
+
+    assert.deepStrictEqual(findMatchingPattern("prod.env", patterns), {
+      pattern: "*.env",
+      blocked: true,
+    });
+    assert.deepStrictEqual(findMatchingPattern("example.env", patterns), {
+      pattern: "!example.env",
+      blocked: false,
+    });
+    assert.strictEqual(findMatchingPattern("readme.md", patterns), undefined);
+  });
+
+  test("Should report and skip invalid patterns", () => {
+    assert.ok(validateGlob("file[0-9"));
+    assert.ok(validateGlob("!"));
+    assert.strictEqual(validateGlob("*.key"), undefined);
+    assert.strictEqual(
+      findMatchingPattern("file[0-9", ["file[0-9"]),
+      undefined
+    );
+  });
+
+  test("Should match descendants when asked", () => {
+    const regex = globToRegExp("C:\\Users\\*\\AppData", {
+      caseInsensitive: true,
+      matchDescendants: true,
+    });
+
+    assert.ok(regex.test("C:/Users/bob/AppData/Roaming"));
+    assert.ok(regex.test("c:/users/bob/appdata"));
+    assert.ok(!regex.test("C:/Users/bob/Documents"));
+  });
+});
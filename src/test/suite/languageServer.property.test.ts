@@ -698,9 +698,9 @@ suite("Language Server Property-Based Tests", () => {
               case "outsideWorkspace":
               case "blockedPath":
               case "blockedPattern":
-                testDocContent = `const path = "${
+                testDocContent = `fs.readFileSync("${
                   "path" in invalidOperation ? invalidOperation.path : ""
-                }";\n`;
+                }");\n`;
                 break;
               case "syncOperation":
                 testDocContent = `${
@@ -873,15 +873,15 @@ suite("Language Server Property-Based Tests", () => {
 
     const invalidOperations = [
       {
-        content: 'const path = "/etc/passwd";\n',
+        content: 'fs.readFileSync("/etc/passwd");\n',
         expectedDiagnostic: "workspace",
       },
       {
-        content: 'const path = ".git/config";\n',
+        content: 'fs.readFileSync(".git/config");\n',
         expectedDiagnostic: "blocked",
       },
       {
-        content: 'const path = "secret.key";\n',
+        content: 'fs.readFileSync("secret.key");\n',
         expectedDiagnostic: "blocked",
       },
       {
@@ -932,7 +932,7 @@ suite("Language Server Property-Based Tests", () => {
   test("Property 4 (Invariant): Diagnostic consistency for invalid operations", async function () {
     this.timeout(15000);
 
-    const testDocContent = 'const path = "/etc/passwd";\n';
+    const testDocContent = 'fs.readFileSync("/etc/passwd");\n';
     const testDoc = await vscode.workspace.openTextDocument({
       content: testDocContent,
       language: "javascript",
@@ -1103,7 +1103,7 @@ suite("Language Server Property-Based Tests", () => {
             };
 
             // Create test document with path that might be affected by config
-            const testDocContent = `const path = "${testPath}";\n`;
+            const testDocContent = `fs.readFileSync("${testPath}");\n`;
             testDoc = await vscode.workspace.openTextDocument({
               content: testDocContent,
               language: "javascript",
@@ -2360,7 +2360,7 @@ suite("Language Server Property-Based Tests", () => {
 
       // Create a test document with a blocked path
       const testDoc = await vscode.workspace.openTextDocument({
-        content: 'const path = ".git/config";\n',
+        content: 'fs.readFileSync(".git/config");\n',
         language: "javascript",
       });
 
@@ -339,7 +339,7 @@ suite("Language Server Unit Tests", () => {
       }
 
       const testFile = path.join(testDir, "diagnostics-outside.js");
-      fs.writeFileSync(testFile, 'const path = "/etc/passwd";');
+      fs.writeFileSync(testFile, 'fs.readFileSync("/etc/passwd");');
 
       const testDoc = await vscode.workspace.openTextDocument(testFile);
       await vscode.window.showTextDocument(testDoc);
@@ -372,7 +372,7 @@ suite("Language Server Unit Tests", () => {
       }
 
       const testFile = path.join(testDir, "diagnostics-blocked.js");
-      fs.writeFileSync(testFile, 'const path = ".git/config";');
+      fs.writeFileSync(testFile, 'fs.readFileSync(".git/config");');
 
       const testDoc = await vscode.workspace.openTextDocument(testFile);
       await vscode.window.showTextDocument(testDoc);
@@ -480,7 +480,7 @@ suite("Language Server Unit Tests", () => {
       }
 
       const testFile = path.join(testDir, "diagnostics-change.js");
-      fs.writeFileSync(testFile, 'const path = "/etc/passwd";');
+      fs.writeFileSync(testFile, 'fs.readFileSync("/etc/passwd");');
 
       const testDoc = await vscode.workspace.openTextDocument(testFile);
       const editor = await vscode.window.showTextDocument(testDoc);
@@ -522,7 +522,7 @@ suite("Language Server Unit Tests", () => {
       }
 
       const testFile = path.join(testDir, "codeaction-workspace.js");
-      fs.writeFileSync(testFile, 'const path = "/etc/passwd";');
+      fs.writeFileSync(testFile, 'fs.readFileSync("/etc/passwd");');
 
       const testDoc = await vscode.workspace.openTextDocument(testFile);
       await vscode.window.showTextDocument(testDoc);
@@ -563,7 +563,7 @@ suite("Language Server Unit Tests", () => {
       }
 
       const testFile = path.join(testDir, "codeaction-blocked.js");
-      fs.writeFileSync(testFile, 'const path = ".git/config";');
+      fs.writeFileSync(testFile, 'fs.readFileSync(".git/config");');
 
       const testDoc = await vscode.workspace.openTextDocument(testFile);
       await vscode.window.showTextDocument(testDoc);
@@ -681,7 +681,7 @@ suite("Language Server Unit Tests", () => {
 
         // Create test file with the new blocked path
         const testFile = path.join(testDir, "config-change.js");
-        fs.writeFileSync(testFile, 'const path = "test-blocked/file.txt";');
+        fs.writeFileSync(testFile, 'fs.readFileSync("test-blocked/file.txt");');
 
         const testDoc = await vscode.workspace.openTextDocument(testFile);
         await vscode.window.showTextDocument(testDoc);
@@ -727,7 +727,10 @@ suite("Language Server Unit Tests", () => {
       }
 
       const testFile = path.join(testDir, "config-revalidate.js");
-      fs.writeFileSync(testFile, 'const path = "dynamic-blocked/file.txt";');
+      fs.writeFileSync(
+        testFile,
+        'fs.readFileSync("dynamic-blocked/file.txt");'
+      );
 
       const testDoc = await vscode.workspace.openTextDocument(testFile);
       await vscode.window.showTextDocument(testDoc);
@@ -789,6 +792,152 @@ suite("Language Server Unit Tests", () => {
         }
       }
     });
+
+    test("Should resolve ${userHome} in blocked paths", async function () {
+      this.timeout(10000);
+
+      if (!languageServerReady) {
+        this.skip();
+        return;
+      }
+
+      const config = vscode.workspace.getConfiguration("mcp-filesystem");
+      const originalBlockedPaths = config.get<string[]>(
+        "security.blockedPaths",
+        []
+      );
+      const target = vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+
+      try {
+        await config.update(
+          "security.blockedPaths",
+          [...originalBlockedPaths, "${userHome}/.mcp-lsp-test-secrets"],
+          target
+        );
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+
+        const secret = path.join(
+          os.homedir(),
+          ".mcp-lsp-test-secrets",
+          "token"
+        );
+        const testFile = path.join(testDir, "config-user-home.js");
+        fs.writeFileSync(
+          testFile,
+          `fs.readFileSync(${JSON.stringify(secret)});`
+        );
+
+        const testDoc = await vscode.workspace.openTextDocument(testFile);
+        await vscode.window.showTextDocument(testDoc);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+
+        const blocked = vscode.languages
+          .getDiagnostics(testDoc.uri)
+          .filter(
+            (d) =>
+              d.source === "mcp-filesystem" &&
+              d.message.includes(
+                path.join(os.homedir(), ".mcp-lsp-test-secrets")
+              )
+          );
+        assert.strictEqual(blocked.length, 1);
+        assert.strictEqual(
+          blocked[0].severity,
+          vscode.DiagnosticSeverity.Error
+        );
+
+        await vscode.commands.executeCommand(
+          "workbench.action.closeActiveEditor"
+        );
+      } finally {
+        await config.update(
+          "security.blockedPaths",
+          originalBlockedPaths,
+          target
+        );
+      }
+    });
+  });
+
+  suite("Path Resolution Tests", () => {
+    test("Should resolve a relative path the same way for the diagnostic and the hover", async function () {
+      this.timeout(10000);
+
+      if (!languageServerReady) {
+        this.skip();
+        return;
+      }
+
+      const config = vscode.workspace.getConfiguration("mcp-filesystem");
+      const originalRoot = config.get<string>("security.workspaceRoot");
+      const originalBlockedPaths = config.get<string[]>(
+        "security.blockedPaths",
+        []
+      );
+      const target = vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+
+      try {
+        await config.update("security.workspaceRoot", testDir, target);
+        await config.update(
+          "security.blockedPaths",
+          [...originalBlockedPaths, "node_modules"],
+          target
+        );
+        await new Promise((resolve) => setTimeout(resolve, 2000));
+
+        // The document sits below the root, so resolving against its own
+        // folder would name a different, unblocked path
+        fs.mkdirSync(path.join(testDir, "src"), { recursive: true });
+        const testFile = path.join(testDir, "src", "resolve-relative.js");
+        fs.writeFileSync(testFile, 'fs.readFileSync("node_modules/x");');
+
+        const testDoc = await vscode.workspace.openTextDocument(testFile);
+        await vscode.window.showTextDocument(testDoc);
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+
+        const blocked = vscode.languages
+          .getDiagnostics(testDoc.uri)
+          .filter(
+            (d) =>
+              d.source === "mcp-filesystem" &&
+              d.message.includes("blocked path: node_modules")
+          );
+        assert.strictEqual(blocked.length, 1);
+
+        const hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
+          "vscode.executeHoverProvider",
+          testDoc.uri,
+          new vscode.Position(0, 20)
+        );
+        const hoverContent = (hovers ?? [])
+          .flatMap((hover) => hover.contents)
+          .map((c) => (typeof c === "string" ? c : c.value))
+          .join("\n");
+        assert.ok(
+          hoverContent.includes(path.join(testDir, "node_modules", "x")),
+          hoverContent
+        );
+        assert.ok(
+          hoverContent.includes("**Policy:** Denied by Blocked paths"),
+          hoverContent
+        );
+
+        await vscode.commands.executeCommand(
+          "workbench.action.closeActiveEditor"
+        );
+      } finally {
+        await config.update("security.workspaceRoot", originalRoot, target);
+        await config.update(
+          "security.blockedPaths",
+          originalBlockedPaths,
+          target
+        );
+      }
+    });
   });
 
   suite("Error Handling Tests", () => {
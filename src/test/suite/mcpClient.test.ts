@@ -1,6 +1,10 @@
 import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import * as vscode from "vscode";
 import { MCPFilesystemClient } from "../../mcpClient";
+import { UndoJournal } from "../../undoJournal";
 import { SettingsManager } from "../../settingsManager";
 import { ErrorHandler, ErrorCategory } from "../../errorHandling";
 
@@ -119,7 +123,7 @@ suite("MCP Filesystem Client Test Suite", () => {
       const allOps = client.getOperations();
       assert.strictEqual(allOps.length, 1);
       assert.strictEqual(allOps[0].type, "batch");
-      assert.strictEqual(allOps[0].status, "completed");
+      assert.strictEqual(allOps[0].status, "running");
     });
 
     test("recordWatchSession should create watch session", () => {
@@ -256,6 +260,44 @@ suite("MCP Filesystem Client Test Suite", () => {
       assert.strictEqual(client.getOperations().length, 0);
     });
 
+    test("completeOperation should store result and duration", () => {
+      const operationId = client.recordChecksumOperation("/file.txt");
+      client.completeOperation(operationId, { checksum: "abc" });
+
+      const [op] = client.getOperations();
+      assert.strictEqual(op.status, "completed");
+      assert.deepStrictEqual(op.result, { checksum: "abc" });
+      assert.strictEqual(op.error, undefined);
+      assert.ok(typeof op.duration === "number" && op.duration >= 0);
+    });
+
+    test("failOperation should store error text and duration", () => {
+      const operationId = client.recordSearchOperation("*.ts");
+      client.failOperation(operationId, "Search failed");
+
+      const [op] = client.getOperations();
+      assert.strictEqual(op.status, "failed");
+      assert.strictEqual(op.error, "Search failed");
+      assert.ok(typeof op.duration === "number");
+    });
+
+    test("completing an unknown operation should be ignored", () => {
+      assert.doesNotThrow(() => {
+        client.completeOperation("missing");
+        client.failOperation("missing", "error");
+      });
+    });
+
+    test("failed tool calls should mark the operation as failed", async () => {
+      // Not started - the tool call rejects
+      await assert.rejects(client.computeChecksum({ path: "/file.txt" }));
+
+      const [op] = client.getOperations();
+      assert.strictEqual(op.type, "checksum");
+      assert.strictEqual(op.status, "failed");
+      assert.ok(op.error);
+    });
+
     test("getWatchSessions should return all watch sessions", () => {
       client.recordWatchSession("/path1", true);
       client.recordWatchSession("/path2", false);
@@ -295,6 +337,44 @@ suite("MCP Filesystem Client Test Suite", () => {
         client.stopWatch(sessionId);
       });
     });
+
+    test("recordWatchSession should use a provided session id", () => {
+      const sessionId = client.recordWatchSession(
+        "/test",
+        true,
+        [],
+        "server-session-id"
+      );
+
+      assert.strictEqual(sessionId, "server-session-id");
+      assert.strictEqual(client.getWatchSessions()[0].id, "server-session-id");
+      assert.strictEqual(client.getWatchSessions()[0].eventCount, 0);
+    });
+
+    test("stopWatch should fire onDidStopWatchSession", async () => {
+      const sessionId = client.recordWatchSession("/test", false);
+      const stopped: string[] = [];
+      const subscription = client.onDidStopWatchSession((session) =>
+        stopped.push(session.id)
+      );
+
+      await client.stopWatch(sessionId);
+      subscription.dispose();
+
+      assert.deepStrictEqual(stopped, [sessionId]);
+    });
+
+    test("stop should end all watch sessions", () => {
+      client.recordWatchSession("/path1", true);
+      client.recordWatchSession("/path2", false);
+      let stoppedCount = 0;
+      client.onDidStopWatchSession(() => stoppedCount++);
+
+      client.stop();
+
+      assert.strictEqual(stoppedCount, 2);
+      assert.strictEqual(client.getWatchSessions().length, 0);
+    });
   });
 
   suite("Settings Manager Integration", () => {
@@ -429,4 +509,68 @@ suite("MCP Filesystem Client Test Suite", () => {
       assert.strictEqual(sessions.length, 2);
     });
   });
+
+  suite("Undo Journal", () => {
+    let tempDir: string;
+    let journal: UndoJournal;
+
+    setup(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-client-undo-"));
+      journal = new UndoJournal(path.join(tempDir, "storage"));
+      client.setUndoJournal(journal);
+      client.setServerConfig({
+        workspaceRoot: tempDir,
+        allowedSubdirectories: [],
+        blockedPaths: [".ssh"],
+        blockedPatterns: ["*.env"],
+        maxFileSize: 1024 * 1024,
+        maxBatchSize: 10,
+        maxOperationsPerMinute: 100,
+      });
+    });
+
+    teardown(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const write = (relative: string) => {
+      const file = path.join(tempDir, relative);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, "secret");
+      return file;
+    };
+
+    test("a blocked batch should not snapshot any file", async () => {
+      const key = write(".ssh/id_rsa");
+      const notes = write("notes.txt");
+
+      await assert.rejects(
+        client.batchOperations({
+          operations: [
+            { type: "delete", source: notes },
+            { type: "delete", source: key },
+          ],
+        }),
+        (error: any) => error.category === ErrorCategory.SECURITY_ERROR
+      );
+
+      assert.strictEqual(client.canUndo(client.getOperations()[0].id), false);
+      assert.deepStrictEqual(journal.getEntries(), []);
+      assert.strictEqual(fs.existsSync(path.join(tempDir, "storage")), false);
+    });
+
+    test("a failed call should discard its snapshot", async () => {
+      const notes = write("notes.txt");
+
+      // Not started - the call passes the checks but cannot be sent
+      await assert.rejects(
+        client.batchOperations({
+          operations: [{ type: "delete", source: notes }],
+        })
+      );
+
+      assert.deepStrictEqual(journal.getEntries(), []);
+      assert.strictEqual(client.getOperations()[0].status, "failed");
+    });
+  });
 });
@@ -0,0 +1,24 @@
+import * as vscode from "vscode";
+
+/**
+ * In-memory Memento for tests
+ */
+export class MemoryMemento implements vscode.Memento {
+  private values = new Map<string, any>();
+
+  keys(): readonly string[] {
+    return Array.from(this.values.keys());
+  }
+
+  get<T>(key: string, defaultValue?: T): T {
+    return this.values.has(key) ? this.values.get(key) : (defaultValue as T);
+  }
+
+  async update(key: string, value: any): Promise<void> {
+    if (value === undefined) {
+      this.values.delete(key);
+    } else {
+      this.values.set(key, JSON.parse(JSON.stringify(value)));
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { FileOperation, MCPFilesystemClient } from "../../mcpClient";
+import { OperationHistoryStore } from "../../operationHistoryStore";
+import { MemoryMemento } from "./memoryMemento";
+
+function makeOperation(
+  id: string,
+  ageMs: number,
+  status: FileOperation["status"] = "completed"
+): FileOperation {
+  return {
+    id,
+    type: "search",
+    status,
+    timestamp: new Date(Date.now() - ageMs),
+    details: { query: id },
+  };
+}
+
+suite("Operation History Store Test Suite", () => {
+  let memento: MemoryMemento;
+  let store: OperationHistoryStore;
+
+  setup(() => {
+    memento = new MemoryMemento();
+    store = new OperationHistoryStore(memento);
+  });
+
+  test("should round-trip operations with dates", async () => {
+    await store.save([makeOperation("op_1", 1000)]);
+
+    const loaded = store.load();
+    assert.strictEqual(loaded.length, 1);
+    assert.strictEqual(loaded[0].id, "op_1");
+    assert.ok(loaded[0].timestamp instanceof Date);
+  });
+
+  test("should mark interrupted operations as failed on load", async () => {
+    await store.save([makeOperation("op_1", 1000, "running")]);
+
+    const [loaded] = store.load();
+    assert.strictEqual(loaded.status, "failed");
+    assert.ok(loaded.error);
+  });
+
+  test("should drop operations older than the age limit", () => {
+    const day = 24 * 60 * 60 * 1000;
+    const retained = store.applyRetention([
+      makeOperation("recent", day),
+      makeOperation("old", 45 * day),
+    ]);
+
+    assert.deepStrictEqual(
+      retained.map((op) => op.id),
+      ["recent"]
+    );
+  });
+
+  test("should keep only the newest entries within the count limit", () => {
+    const operations = Array.from({ length: 600 }, (_, i) =>
+      makeOperation(`op_${i}`, i * 1000)
+    );
+
+    const retained = store.applyRetention(operations);
+    assert.strictEqual(retained.length, 500);
+    assert.strictEqual(retained[0].id, "op_0");
+  });
+
+  test("should truncate oversized results", async () => {
+    const operation = makeOperation("op_1", 0);
+    operation.result = { data: "x".repeat(100 * 1024) };
+    await store.save([operation]);
+
+    const [loaded] = store.load();
+    assert.strictEqual(loaded.result.truncated, true);
+  });
+
+  test("clear should remove persisted history", async () => {
+    await store.save([makeOperation("op_1", 0)]);
+    await store.clear();
+    assert.strictEqual(store.load().length, 0);
+  });
+
+  test("client should load and persist history through the store", async () => {
+    const outputChannel = vscode.window.createOutputChannel(
+      "Test Operation History",
+      { log: true }
+    );
+    await store.save([makeOperation("op_previous", 1000)]);
+
+    const client = new MCPFilesystemClient(outputChannel);
+    client.setHistoryStore(store);
+    assert.strictEqual(client.getOperations()[0].id, "op_previous");
+
+    client.recordSearchOperation("*.ts");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    // A new client (e.g. after a restart) sees both operations
+    client.stop();
+    const restarted = new MCPFilesystemClient(outputChannel);
+    restarted.setHistoryStore(store);
+    assert.strictEqual(restarted.getOperations().length, 2);
+
+    restarted.stop();
+    outputChannel.dispose();
+  });
+});
@@ -0,0 +1,148 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  compileExclusions,
+  mergePlans,
+  planBatch,
+  planCopyDirectory,
+  planSyncDirectory,
+} from "../../operationPlanner";
+import { getPlanPreviewHTML } from "../../planPreviewPanel";
+
+suite("Operation Planner Test Suite", () => {
+  let tempDir: string;
+  let source: string;
+  let destination: string;
+
+  setup(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-plan-"));
+    source = path.join(tempDir, "src");
+    destination = path.join(tempDir, "dst");
+    fs.mkdirSync(path.join(source, "sub"), { recursive: true });
+    fs.mkdirSync(path.join(source, "node_modules"));
+    fs.mkdirSync(destination);
+    fs.writeFileSync(path.join(source, "a.txt"), "aaaa");
+    fs.writeFileSync(path.join(source, "b.log"), "bb");
+    fs.writeFileSync(path.join(source, "sub", "c.txt"), "cccccc");
+    fs.writeFileSync(path.join(source, "node_modules", "d.js"), "d");
+  });
+
+  teardown(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const setMtime = (file: string, seconds: number) =>
+    fs.utimesSync(file, seconds, seconds);
+
+  test("should match exclusions against entry names like the server", () => {
+    const patterns = compileExclusions(["*.log", "node_modules"]);
+    assert.ok(patterns.some((p) => p.test("debug.log")));
+    assert.ok(patterns.some((p) => p.test("node_modules")));
+    assert.ok(!patterns.some((p) => p.test("a.txt")));
+  });
+
+  test("should plan a copy with creates, overwrites and exclusions", async () => {
+    fs.writeFileSync(path.join(destination, "a.txt"), "old");
+
+    const plan = await planCopyDirectory({
+      source,
+      destination,
+      exclusions: ["*.log", "node_modules"],
+    });
+
+    const actions = Object.fromEntries(
+      plan.entries.map((e) => [path.relative(destination, e.path), e.action])
+    );
+    assert.deepStrictEqual(actions, {
+      "a.txt": "overwrite",
+      "b.log": "skip",
+      node_modules: "skip",
+      [path.join("sub", "c.txt")]: "create",
+    });
+    assert.strictEqual(plan.totals.create, 1);
+    assert.strictEqual(plan.totals.overwrite, 1);
+    assert.strictEqual(plan.totals.skip, 2);
+    assert.strictEqual(plan.totals.bytesWritten, 10);
+  });
+
+  test("should skip files that are up to date when syncing", async () => {
+    fs.writeFileSync(path.join(destination, "a.txt"), "aaaa");
+    fs.writeFileSync(path.join(destination, "b.log"), "old");
+    setMtime(path.join(source, "a.txt"), 1000);
+    setMtime(path.join(destination, "a.txt"), 2000);
+    setMtime(path.join(source, "b.log"), 3000);
+    setMtime(path.join(destination, "b.log"), 2000);
+
+    const plan = await planSyncDirectory({
+      source,
+      destination,
+      exclusions: ["node_modules"],
+    });
+
+    const byName = (name: string) =>
+      plan.entries.find((e) => e.path === path.join(destination, name));
+    assert.strictEqual(byName("a.txt")?.action, "skip");
+    assert.strictEqual(byName("a.txt")?.reason, "up to date");
+    assert.strictEqual(byName("b.log")?.action, "overwrite");
+    assert.strictEqual(byName(path.join("sub", "c.txt"))?.action, "create");
+  });
+
+  test("should plan batch copy, move and delete", async () => {
+    const target = path.join(tempDir, "moved");
+    fs.writeFileSync(target, "existing");
+
+    const plan = await planBatch({
+      operations: [
+        {
+          type: "copy",
+          source: path.join(source, "sub"),
+          destination: path.join(tempDir, "copy"),
+        },
+        {
+          type: "move",
+          source: path.join(source, "a.txt"),
+          destination: target,
+        },
+        { type: "delete", source: path.join(source, "b.log") },
+        { type: "delete", source: path.join(tempDir, "missing") },
+      ],
+    });
+
+    assert.deepStrictEqual(
+      plan.entries.map((e) => [e.action, path.relative(tempDir, e.path)]),
+      [
+        ["create", path.join("copy", "c.txt")],
+        ["overwrite", "moved"],
+        ["delete", path.join("src", "a.txt")],
+        ["delete", path.join("src", "b.log")],
+        ["skip", "missing"],
+      ]
+    );
+    assert.strictEqual(plan.totals.bytesDeleted, 6);
+  });
+
+  test("should merge plans and recompute totals", async () => {
+    const first = await planCopyDirectory({ source, destination });
+    const merged = mergePlans([first, first]);
+    assert.strictEqual(merged.operation, "copy");
+    assert.strictEqual(merged.entries.length, first.entries.length * 2);
+    assert.strictEqual(merged.totals.create, first.totals.create * 2);
+  });
+
+  test("should render a diff-like preview", async () => {
+    const plan = await planCopyDirectory({
+      source,
+      destination,
+      exclusions: ["node_modules"],
+    });
+    const html = getPlanPreviewHTML("Copy <src>", plan, "abc123", 2);
+
+    assert.ok(html.includes("Copy &lt;src&gt;"));
+    assert.ok(html.includes(`+${plan.totals.create} create`));
+    assert.ok(html.includes("…and 2 more"));
+    assert.ok(html.includes(`nonce="abc123"`));
+    assert.ok(html.includes('id="apply"'));
+  });
+});
@@ -0,0 +1,85 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  OPERATION_FAMILIES,
+  getToolFamily,
+  isCommandEnabled,
+  isToolEnabled,
+} from "../../operationToggles";
+
+suite("Operation Toggles Test Suite", () => {
+  const packageJson = JSON.parse(
+    fs.readFileSync(path.resolve(__dirname, "../../../package.json"), "utf8")
+  );
+  const allEnabled = {
+    enableBatch: true,
+    enableWatch: true,
+    enableSearch: true,
+    enableChecksum: true,
+  };
+
+  test("Should refuse the tools of a disabled family", () => {
+    const operations = { ...allEnabled, enableBatch: false };
+
+    assert.strictEqual(isToolEnabled("fs_batch_operations", operations), false);
+    assert.strictEqual(isToolEnabled("fs_sync_directory", operations), false);
+    assert.strictEqual(isToolEnabled("fs_search_files", operations), true);
+    assert.strictEqual(
+      isToolEnabled("fs_analyze_disk_usage", operations),
+      true
+    );
+  });
+
+  test("Should always allow stopping a watch session", () => {
+    const operations = { ...allEnabled, enableWatch: false };
+
+    assert.strictEqual(getToolFamily("fs_stop_watch"), undefined);
+    assert.strictEqual(isToolEnabled("fs_stop_watch", operations), true);
+    assert.strictEqual(isToolEnabled("fs_watch_directory", operations), false);
+  });
+
+  test("Should refuse the commands of a disabled family", () => {
+    const operations = { ...allEnabled, enableChecksum: false };
+
+    assert.strictEqual(
+      isCommandEnabled("mcp-filesystem.createChecksumManifest", operations),
+      false
+    );
+    assert.strictEqual(
+      isCommandEnabled("mcp-filesystem.analyzeDiskUsage", operations),
+      true
+    );
+  });
+
+  test("Should hide every family member in package.json", () => {
+    const contributes = packageJson.contributes;
+    const tools = new Map<string, string | undefined>(
+      contributes.languageModelTools.map(
+        (tool: { name: string; when?: string }) => [tool.name, tool.when]
+      )
+    );
+    const commands = new Set(
+      contributes.commands.map(
+        (command: { command: string }) => command.command
+      )
+    );
+    const menuItems: Array<{ command: string; when?: string }> = [
+      ...Object.values<any[]>(contributes.menus).flat(),
+      ...contributes.keybindings,
+    ];
+
+    for (const family of OPERATION_FAMILIES) {
+      const clause = `!${family.contextKey}`;
+      for (const tool of family.tools) {
+        assert.strictEqual(tools.get(tool), clause, `${tool} when clause`);
+      }
+      for (const command of family.commands) {
+        assert.ok(commands.has(command), `${command} is not contributed`);
+        for (const item of menuItems.filter((i) => i.command === command)) {
+          assert.ok(item.when?.includes(clause), `${command} menu item`);
+        }
+      }
+    }
+  });
+});
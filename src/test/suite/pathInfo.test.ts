@@ -0,0 +1,98 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describePathEntry, listDirectory, statPath } from "../../pathInfo";
+import { PathPolicy } from "../../pathPolicy";
+
+suite("Path Info Test Suite", () => {
+  let root: string;
+  let policy: PathPolicy;
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-path-info-"));
+    policy = {
+      name: "app",
+      workspaceRoot: root,
+      allowedSubdirectories: [],
+      blockedPaths: [".git", "secrets/keys"],
+      blockedPatterns: ["*.pem", "!public.pem"],
+    };
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("Should list entries with their type and size", async () => {
+    fs.mkdirSync(path.join(root, "src"));
+    fs.mkdirSync(path.join(root, ".git"));
+    fs.writeFileSync(path.join(root, "README.md"), "x".repeat(2048));
+    fs.writeFileSync(path.join(root, "server.pem"), "");
+    fs.writeFileSync(path.join(root, "public.pem"), "key");
+
+    const entries = await listDirectory(root, [policy]);
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    assert.deepStrictEqual(entries, [
+      { name: "public.pem", type: "file", isSymlink: false, size: 3 },
+      { name: "README.md", type: "file", isSymlink: false, size: 2048 },
+      { name: "src", type: "directory", isSymlink: false, size: undefined },
+    ]);
+    assert.deepStrictEqual(entries.map(describePathEntry), [
+      "File · 3 B",
+      "File · 2.0 KB",
+      "Directory",
+    ]);
+  });
+
+  test("Should return no entries for a missing directory", async () => {
+    assert.deepStrictEqual(
+      await listDirectory(path.join(root, "missing"), [policy]),
+      []
+    );
+  });
+
+  test("Should hide entries outside the allowed subdirectories", async () => {
+    for (const dir of ["src/lib", "src/other", "docs"]) {
+      fs.mkdirSync(path.join(root, dir), { recursive: true });
+    }
+    fs.writeFileSync(path.join(root, "README.md"), "");
+    fs.writeFileSync(path.join(root, "src", "index.ts"), "");
+    const restricted = [
+      { ...policy, allowedSubdirectories: ["src/lib", "docs"] },
+    ];
+    const names = async (directory: string) =>
+      (await listDirectory(directory, restricted))
+        .map((entry) => entry.name)
+        .sort();
+
+    // src is listed because the allowed src/lib is inside it
+    assert.deepStrictEqual(await names(root), ["docs", "src"]);
+    assert.deepStrictEqual(await names(path.join(root, "src")), ["lib"]);
+  });
+
+  test("Should describe symbolic links", () => {
+    assert.strictEqual(
+      describePathEntry({ name: "l", type: "file", isSymlink: true, size: 3 }),
+      "Symbolic link to file · 3 B"
+    );
+    assert.strictEqual(
+      describePathEntry({ name: "l", type: "other", isSymlink: true }),
+      "Symbolic link"
+    );
+  });
+
+  test("Should stat a path and its symlink target", async () => {
+    const file = path.join(root, "data.json");
+    fs.writeFileSync(file, "{}");
+    fs.symlinkSync(file, path.join(root, "link.json"));
+
+    const stats = await statPath(path.join(root, "link.json"));
+
+    assert.strictEqual(stats?.type, "file");
+    assert.strictEqual(stats?.isSymlink, true);
+    assert.strictEqual(stats?.size, 2);
+    assert.strictEqual(await statPath(path.join(root, "missing")), undefined);
+  });
+});
@@ -0,0 +1,288 @@
+import * as assert from "assert";
+import * as os from "os";
+import * as path from "path";
+import {
+  PathPolicy,
+  checkPathPolicies,
+  checkPathPolicy,
+  createPathPolicies,
+  createSecurityConfig,
+  explainPathPolicy,
+  getToolArgumentPaths,
+  resolveWorkspaceRoot,
+  selectPathPolicy,
+} from "../../pathPolicy";
+import { createPathPolicyError } from "../../errorHandling";
+
+suite("Path Policy Test Suite", () => {
+  const root = path.join(os.tmpdir(), "mcp-policy-workspace");
+  let policy: PathPolicy;
+
+  setup(() => {
+    policy = {
+      workspaceRoot: root,
+      allowedSubdirectories: [],
+      blockedPaths: [".git", ".env"],
+      blockedPatterns: ["*.key", "*secret*"],
+    };
+  });
+
+  test("Should allow paths inside the workspace", () => {
+    assert.strictEqual(
+      checkPathPolicy(path.join(root, "src", "index.ts"), policy),
+      undefined
+    );
+    assert.strictEqual(checkPathPolicy("src/index.ts", policy), undefined);
+  });
+
+  test("Should reject paths outside the workspace root", () => {
+    const outside = path.join(root, "..", "other", "file.txt");
+    const violation = checkPathPolicy(outside, policy);
+
+    assert.ok(violation);
+    assert.strictEqual(violation.path, outside);
+    assert.strictEqual(violation.boundary, root);
+    assert.ok(checkPathPolicy("../escape.txt", policy));
+  });
+
+  test("Should confine paths to allowed subdirectories", () => {
+    policy.allowedSubdirectories = ["src", "docs"];
+
+    assert.strictEqual(checkPathPolicy("src/a.ts", policy), undefined);
+    const violation = checkPathPolicy("test/a.ts", policy);
+    assert.ok(violation);
+    assert.strictEqual(violation.boundary, "src, docs");
+  });
+
+  test("Should reject blocked paths and their contents", () => {
+    const violation = checkPathPolicy(
+      path.join(root, ".git", "config"),
+      policy
+    );
+
+    assert.ok(violation);
+    assert.strictEqual(violation.blockedPath, ".git");
+    assert.strictEqual(checkPathPolicy(".github/ci.yml", policy), undefined);
+  });
+
+  test("Should reject paths matching blocked patterns", () => {
+    const violation = checkPathPolicy("certs/server.key", policy);
+    assert.ok(violation);
+    assert.strictEqual(violation.pattern, "*.key");
+
+    assert.strictEqual(
+      checkPathPolicy("my-secrets/notes.txt", policy)?.pattern,
+      "*secret*"
+    );
+    assert.strictEqual(checkPathPolicy("keys/readme.md", policy), undefined);
+  });
+
+  test("Should re-allow paths matching a negated pattern", () => {
+    policy.blockedPatterns = ["*.env", "!example.env"];
+
+    assert.ok(checkPathPolicy("config/prod.env", policy));
+    assert.strictEqual(
+      checkPathPolicy("config/example.env", policy),
+      undefined
+    );
+  });
+
+  test("Should explain every rule for a path", () => {
+    const checks = explainPathPolicy("certs/server.key", policy);
+
+    assert.deepStrictEqual(
+      checks.map((check) => check.rule),
+      [
+        "Workspace root",
+        "Allowed subdirectories",
+        "Blocked paths",
+        "Blocked patterns",
+        "Platform block list",
+      ]
+    );
+    const failed = checks.filter((check) => !check.passed);
+    assert.strictEqual(failed.length, 1);
+    assert.strictEqual(failed[0].detail, "Matches *.key");
+  });
+
+  test("Should collect paths from nested tool arguments", () => {
+    const paths = getToolArgumentPaths(
+      {
+        operations: [
+          { type: "copy", source: "a.txt", destination: "/abs/b.txt" },
+        ],
+        atomic: true,
+      },
+      root
+    );
+
+    assert.deepStrictEqual(paths, [
+      path.join(root, "a.txt"),
+      path.resolve("/abs/b.txt"),
+    ]);
+  });
+
+  test("Should resolve symlink targets against the link directory", () => {
+    const paths = getToolArgumentPaths(
+      { linkPath: "links/current", targetPath: "../releases/v1" },
+      root
+    );
+
+    assert.deepStrictEqual(paths, [
+      path.join(root, "links", "current"),
+      path.join(root, "releases", "v1"),
+    ]);
+  });
+
+  test("Should resolve variables in the workspace root", () => {
+    const context = {
+      workspaceFolder: root,
+      workspaceFolders: [{ name: "main", path: root }],
+      userHome: os.homedir(),
+      env: {},
+    };
+
+    assert.strictEqual(
+      resolveWorkspaceRoot("${workspaceFolder}", context),
+      path.normalize(root)
+    );
+    assert.strictEqual(
+      resolveWorkspaceRoot("${workspaceFolder}/src", context),
+      path.join(root, "src")
+    );
+    assert.strictEqual(
+      resolveWorkspaceRoot("${workspaceFolder}", {
+        ...context,
+        workspaceFolder: undefined,
+      }),
+      undefined
+    );
+    assert.strictEqual(resolveWorkspaceRoot("${workspaceFolder}"), undefined);
+    assert.strictEqual(resolveWorkspaceRoot("relative/dir"), undefined);
+  });
+
+  suite("Multi-root workspaces", () => {
+    const api = path.join(root, "api");
+    const web = path.join(os.tmpdir(), "mcp-policy-web");
+    let policies: PathPolicy[];
+
+    setup(() => {
+      policies = createPathPolicies(
+        {
+          workspaceRoot: "${workspaceFolder}",
+          allowedSubdirectories: [],
+          blockedPaths: [],
+          blockedPatterns: [],
+        },
+        [
+          {
+            name: "api",
+            folderPath: api,
+            workspaceRoot: "${workspaceFolder}",
+            allowedSubdirectories: [],
+            blockedPaths: [],
+            blockedPatterns: ["*.key"],
+          },
+          {
+            name: "web",
+            folderPath: web,
+            workspaceRoot: "${workspaceFolder}",
+            allowedSubdirectories: ["public"],
+            blockedPaths: [],
+            blockedPatterns: [],
+          },
+        ],
+        { workspaceFolders: [], userHome: os.homedir(), env: {} }
+      );
+    });
+
+    test("Should build one policy per folder", () => {
+      assert.deepStrictEqual(
+        policies.map((policy) => [policy.name, policy.workspaceRoot]),
+        [
+          ["api", path.normalize(api)],
+          ["web", path.normalize(web)],
+        ]
+      );
+    });
+
+    test("Should apply the rules of the folder that owns a path", () => {
+      assert.strictEqual(
+        selectPathPolicy(path.join(web, "public", "a.js"), policies)?.name,
+        "web"
+      );
+      assert.strictEqual(
+        checkPathPolicies(path.join(web, "public", "a.key"), policies),
+        undefined
+      );
+      assert.strictEqual(
+        checkPathPolicies(path.join(api, "a.key"), policies)?.pattern,
+        "*.key"
+      );
+      assert.ok(checkPathPolicies(path.join(web, "src", "a.js"), policies));
+    });
+
+    test("Should reject paths outside every root", () => {
+      const outside = path.join(os.tmpdir(), "elsewhere", "a.txt");
+      const violation = checkPathPolicies(outside, policies);
+
+      assert.ok(violation);
+      assert.ok(violation.boundary?.includes(path.normalize(api)));
+      assert.ok(violation.boundary?.includes(path.normalize(web)));
+    });
+
+    test("Should resolve relative paths against the first root", () => {
+      assert.strictEqual(checkPathPolicies("src/a.js", policies), undefined);
+      assert.ok(checkPathPolicies("src/a.key", policies));
+    });
+  });
+
+  test("Should build a resolved server configuration", () => {
+    const config = createSecurityConfig(
+      {
+        workspaceRoot: "${workspaceFolder}",
+        allowedSubdirectories: [],
+        blockedPaths: ["${userHome}/.ssh", ".git"],
+        blockedPatterns: ["*.key"],
+        maxFileSize: 1024,
+        maxBatchSize: 2048,
+        maxOperationsPerMinute: 60,
+      },
+      [
+        {
+          name: "main",
+          folderPath: root,
+          workspaceRoot: "${workspaceFolder}/src",
+          allowedSubdirectories: [],
+          blockedPaths: ["~/.ssh"],
+          blockedPatterns: ["*.key"],
+        },
+      ],
+      {
+        workspaceFolders: [{ name: "main", path: root }],
+        userHome: os.homedir(),
+        env: {},
+      }
+    );
+
+    assert.strictEqual(config.workspaceRoot, path.join(root, "src"));
+    assert.deepStrictEqual(config.blockedPaths, [
+      path.join(os.homedir(), ".ssh"),
+    ]);
+    assert.strictEqual(config.roots?.length, 1);
+    assert.strictEqual(config.roots?.[0].name, "main");
+    assert.strictEqual(config.maxOperationsPerMinute, 60);
+  });
+
+  test("Should create a security error with violation context", () => {
+    const error = createPathPolicyError({
+      path: "/etc/passwd",
+      reason: "Path is outside the workspace root: /workspace",
+      boundary: "/workspace",
+    });
+
+    assert.strictEqual(error.category, "security");
+    assert.strictEqual(error.context?.path, "/etc/passwd");
+    assert.strictEqual(error.context?.boundary, "/workspace");
+  });
+});
@@ -0,0 +1,241 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  applyPolicyBoundaries,
+  applyPolicyLimits,
+  applyPolicyOperations,
+  loadPolicyFile,
+  parsePolicyFile,
+  validatePolicyFile,
+} from "../../policyFile";
+import { findMatchingPattern } from "../../globMatcher";
+
+suite("Policy File Test Suite", () => {
+  test("Should parse a JSON policy", () => {
+    const file = parsePolicyFile(
+      JSON.stringify({
+        security: { blockedPaths: ["dist"], blockedPatterns: ["*.pfx"] },
+        operations: { enableWatch: false },
+      }),
+      "/repo/.mcprc"
+    );
+
+    assert.deepStrictEqual(file.errors, []);
+    assert.deepStrictEqual(file.policy?.security?.blockedPaths, ["dist"]);
+    assert.strictEqual(file.policy?.operations?.enableWatch, false);
+  });
+
+  test("Should parse a YAML policy", () => {
+    const file = parsePolicyFile(
+      [
+        "# Shared agent policy",
+        "security:",
+        "  allowedSubdirectories: [src, 'docs']",
+        "  blockedPaths:",
+        "    - dist # build output",
+        '    - "secrets dir"',
+        "  blockedPatterns:",
+        '  - "*.pfx"',
+        "resources:",
+        "  maxOperationsPerMinute: 30",
+        "operations:",
+        "  enableBatch: false",
+      ].join("\n"),
+      "/repo/.mcprc.yaml"
+    );
+
+    assert.deepStrictEqual(file.errors, []);
+    assert.deepStrictEqual(file.policy, {
+      security: {
+        allowedSubdirectories: ["src", "docs"],
+        blockedPaths: ["dist", "secrets dir"],
+        blockedPatterns: ["*.pfx"],
+      },
+      resources: { maxOperationsPerMinute: 30 },
+      operations: { enableBatch: false },
+    });
+    assert.deepStrictEqual(parsePolicyFile("", "/repo/.mcprc.yml").policy, {});
+  });
+
+  test("Should validate YAML policies like JSON ones", () => {
+    assert.deepStrictEqual(
+      parsePolicyFile(
+        "security:\n  blockedPatterns: ['!*.key']\ntools: {}",
+        "/repo/.mcprc.yml"
+      ).errors,
+      [
+        '"security.blockedPatterns" cannot re-allow paths: !*.key',
+        'Unknown section "tools"',
+      ]
+    );
+  });
+
+  test("Should report syntax errors without applying the file", () => {
+    const json = parsePolicyFile("{ security: ", "/repo/.mcprc");
+    assert.strictEqual(json.policy, undefined);
+    assert.ok(json.errors[0].startsWith("Invalid JSON"));
+
+    const yaml = parsePolicyFile(
+      "security:\n  blockedPaths: [dist\nresources: {}",
+      "/repo/.mcprc.yml"
+    );
+    assert.strictEqual(yaml.policy, undefined);
+    assert.ok(yaml.errors[0].startsWith("Invalid YAML"));
+    assert.ok(yaml.errors[0].includes("at line 3"), yaml.errors[0]);
+  });
+
+  test("Should validate the policy schema", () => {
+    assert.deepStrictEqual(
+      validatePolicyFile({
+        $schema: "./schema.json",
+        security: {
+          blockedPaths: "dist",
+          blockedPatterns: ["file[0-9", "!*.key"],
+          allowedSubdirectories: [path.resolve("/abs"), "src/../.."],
+        },
+        resources: { maxFileSize: 0 },
+        operations: { enableSearch: "no", enableAll: true },
+        tools: {},
+      }),
+      [
+        '"security.blockedPaths" must be a list of strings',
+        '"security.blockedPatterns" has an invalid pattern: Unterminated character class in pattern: file[0-9',
+        '"security.blockedPatterns" cannot re-allow paths: !*.key',
+        `"security.allowedSubdirectories" entries must be relative: ${path.resolve(
+          "/abs"
+        )}`,
+        '"security.allowedSubdirectories" entries must stay inside the folder: src/../..',
+        '"resources.maxFileSize" must be a positive integer',
+        '"operations.enableSearch" must be true or false',
+        'Unknown setting "operations.enableAll"',
+        'Unknown section "tools"',
+      ]
+    );
+    assert.deepStrictEqual(validatePolicyFile([]), [
+      "Policy must be an object",
+    ]);
+  });
+
+  test("Should only tighten boundaries", () => {
+    const boundaries = applyPolicyBoundaries(
+      {
+        workspaceRoot: "${workspaceFolder}",
+        allowedSubdirectories: ["src", "test"],
+        blockedPaths: [".git"],
+        blockedPatterns: ["*.key"],
+      },
+      {
+        security: {
+          allowedSubdirectories: ["src"],
+          blockedPaths: [".git", "dist"],
+          blockedPatterns: ["*.pfx"],
+        },
+      }
+    );
+
+    assert.strictEqual(boundaries.workspaceRoot, "${workspaceFolder}");
+    assert.deepStrictEqual(boundaries.allowedSubdirectories, ["src"]);
+    assert.deepStrictEqual(boundaries.blockedPaths, [".git", "dist"]);
+    assert.deepStrictEqual(boundaries.blockedPatterns, ["*.key", "*.pfx"]);
+  });
+
+  test("Should not let a policy file widen the allowed subdirectories", () => {
+    const settings = {
+      allowedSubdirectories: ["src", "test"],
+      blockedPaths: [],
+      blockedPatterns: [],
+    };
+    const apply = (allowedSubdirectories: string[]) =>
+      applyPolicyBoundaries(settings, { security: { allowedSubdirectories } })
+        .allowedSubdirectories;
+
+    assert.deepStrictEqual(apply(["src/lib", "docs", "../other"]), ["src/lib"]);
+    assert.deepStrictEqual(apply(["docs", "src/../docs", "."]), [
+      "src",
+      "test",
+    ]);
+    assert.deepStrictEqual(
+      applyPolicyBoundaries(
+        { ...settings, allowedSubdirectories: [] },
+        { security: { allowedSubdirectories: ["docs", "../other"] } }
+      ).allowedSubdirectories,
+      ["docs"]
+    );
+  });
+
+  test("Should not let a policy file re-allow blocked patterns", () => {
+    const { blockedPatterns } = applyPolicyBoundaries(
+      {
+        allowedSubdirectories: [],
+        blockedPaths: [],
+        blockedPatterns: ["*.key"],
+      },
+      { security: { blockedPatterns: ["!*.key", "*.pfx"] } }
+    );
+
+    assert.deepStrictEqual(blockedPatterns, ["*.key", "*.pfx"]);
+    assert.strictEqual(
+      findMatchingPattern("secret.key", blockedPatterns)?.blocked,
+      true
+    );
+  });
+
+  test("Should use the lower limit and disable tools", () => {
+    assert.deepStrictEqual(
+      applyPolicyLimits(
+        { maxFileSize: 1000, maxBatchSize: 5000, maxOperationsPerMinute: 100 },
+        { resources: { maxFileSize: 2000, maxOperationsPerMinute: 10 } }
+      ),
+      { maxFileSize: 1000, maxBatchSize: 5000, maxOperationsPerMinute: 10 }
+    );
+    assert.deepStrictEqual(
+      applyPolicyOperations(
+        {
+          enableBatch: true,
+          enableWatch: false,
+          enableSearch: true,
+          enableChecksum: true,
+        },
+        { operations: { enableBatch: false, enableWatch: true } }
+      ),
+      {
+        enableBatch: false,
+        enableWatch: false,
+        enableSearch: true,
+        enableChecksum: true,
+      }
+    );
+  });
+
+  suite("Loading from a workspace folder", () => {
+    let folder: string;
+
+    setup(() => {
+      folder = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-policy-file-"));
+    });
+
+    teardown(() => {
+      fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test("Should return undefined without a policy file", () => {
+      assert.strictEqual(loadPolicyFile(folder), undefined);
+    });
+
+    test("Should prefer .mcprc over the YAML file names", () => {
+      fs.writeFileSync(path.join(folder, ".mcprc.yml"), "resources: {}");
+      assert.deepStrictEqual(loadPolicyFile(folder), {
+        path: path.join(folder, ".mcprc.yml"),
+        policy: { resources: {} },
+        errors: [],
+      });
+
+      fs.writeFileSync(path.join(folder, ".mcprc"), "{}");
+      const file = loadPolicyFile(folder);
+      assert.strictEqual(file?.path, path.join(folder, ".mcprc"));
+      assert.deepStrictEqual(file?.policy, {});
+    });
+  });
+});
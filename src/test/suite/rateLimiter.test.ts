@@ -0,0 +1,137 @@
+import * as assert from "assert";
+import { RateLimiter, RateLimiterClock } from "../../rateLimiter";
+
+/**
+ * Clock whose time only moves when the test advances it
+ */
+class FakeClock implements RateLimiterClock {
+  private time = 0;
+  private timers: Array<{ at: number; callback: () => void }> = [];
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const timer = { at: this.time + ms, callback };
+    this.timers.push(timer);
+    return timer;
+  }
+
+  clearTimeout(timer: unknown): void {
+    this.timers = this.timers.filter((t) => t !== timer);
+  }
+
+  /**
+   * Move time forward, running the timers that come due
+   */
+  advance(ms: number): void {
+    this.time += ms;
+    const due = this.timers.filter((t) => t.at <= this.time);
+    this.timers = this.timers.filter((t) => t.at > this.time);
+    due.forEach((t) => t.callback());
+  }
+}
+
+suite("Rate Limiter Test Suite", () => {
+  let limiter: RateLimiter;
+  let clock: FakeClock;
+
+  setup(() => {
+    clock = new FakeClock();
+  });
+
+  teardown(() => {
+    limiter.dispose();
+  });
+
+  test("Should allow a burst up to the limit", async () => {
+    limiter = new RateLimiter(5, { clock });
+
+    for (let i = 0; i < 5; i++) {
+      await limiter.acquire();
+    }
+
+    const usage = limiter.getUsage();
+    assert.strictEqual(usage.limit, 5);
+    assert.strictEqual(usage.used, 5);
+    assert.strictEqual(usage.available, 0);
+    assert.strictEqual(usage.queued, 0);
+  });
+
+  test("Should reject calls that would wait too long", async () => {
+    limiter = new RateLimiter(2, { maxWaitMs: 1000, clock });
+    await limiter.acquire();
+    await limiter.acquire();
+
+    await assert.rejects(limiter.acquire(), (error: any) => {
+      assert.strictEqual(error.name, "RateLimitError");
+      assert.strictEqual(error.category, "security");
+      assert.strictEqual(error.context.limit, 2);
+      assert.ok(error.context.retryAfterMs > 1000);
+      return true;
+    });
+  });
+
+  test("Should queue calls until a token frees up", async () => {
+    // 60 per minute refills one token every second
+    limiter = new RateLimiter(60, { clock });
+    for (let i = 0; i < 60; i++) {
+      await limiter.acquire();
+    }
+
+    let released = false;
+    const queued = limiter.acquire().then(() => {
+      released = true;
+    });
+    assert.strictEqual(limiter.getUsage().queued, 1);
+
+    clock.advance(999);
+    await Promise.resolve();
+    assert.strictEqual(released, false);
+
+    clock.advance(1);
+    await queued;
+    assert.strictEqual(limiter.getUsage().queued, 0);
+  });
+
+  test("Should apply a new limit to calls already made", async () => {
+    limiter = new RateLimiter(10, { maxWaitMs: 0, clock });
+    for (let i = 0; i < 4; i++) {
+      await limiter.acquire();
+    }
+
+    limiter.configure(5);
+    assert.strictEqual(limiter.getUsage().limit, 5);
+    assert.strictEqual(limiter.getUsage().available, 1);
+
+    await limiter.acquire();
+    await assert.rejects(limiter.acquire());
+  });
+
+  test("Should not limit or count exempt tools", async () => {
+    limiter = new RateLimiter(1, {
+      maxWaitMs: 0,
+      exemptTools: ["fs_get_watch_events"],
+      clock,
+    });
+    await limiter.acquire("fs_read_file");
+
+    await limiter.acquire("fs_get_watch_events");
+    await limiter.acquire("fs_get_watch_events");
+    await assert.rejects(limiter.acquire("fs_read_file"));
+    assert.strictEqual(limiter.isExempt("fs_get_watch_events"), true);
+    assert.strictEqual(limiter.getUsage().used, 1);
+  });
+
+  test("Should reject queued calls when disposed", async () => {
+    limiter = new RateLimiter(60, { clock });
+    for (let i = 0; i < 60; i++) {
+      await limiter.acquire();
+    }
+
+    const queued = limiter.acquire();
+    limiter.dispose();
+    await assert.rejects(queued);
+  });
+});
@@ -0,0 +1,146 @@
+import * as assert from "assert";
+import {
+  SearchResult,
+  SearchResultsTreeDataProvider,
+  findMatchingLines,
+  parseFileTypes,
+  parseSize,
+  parseSizeRange,
+  sortSearchResults,
+} from "../../searchResultsProvider";
+
+suite("Search Results Provider Test Suite", () => {
+  const results: SearchResult[] = [
+    {
+      path: "/workspace/b.ts",
+      size: 200,
+      mtime: "2024-01-01T00:00:00.000Z",
+      type: ".ts",
+    },
+    {
+      path: "/workspace/a.ts",
+      size: 50,
+      mtime: "2024-03-01T00:00:00.000Z",
+      type: ".ts",
+    },
+    {
+      path: "/workspace/c.json",
+      size: 1000,
+      mtime: "2024-02-01T00:00:00.000Z",
+      type: ".json",
+    },
+  ];
+
+  suite("Sorting", () => {
+    test("should sort by path ascending", () => {
+      const sorted = sortSearchResults(results, "path");
+      assert.deepStrictEqual(
+        sorted.map((r) => r.path),
+        ["/workspace/a.ts", "/workspace/b.ts", "/workspace/c.json"]
+      );
+    });
+
+    test("should sort by size largest first", () => {
+      const sorted = sortSearchResults(results, "size");
+      assert.deepStrictEqual(
+        sorted.map((r) => r.size),
+        [1000, 200, 50]
+      );
+    });
+
+    test("should sort by modification time newest first", () => {
+      const sorted = sortSearchResults(results, "mtime");
+      assert.strictEqual(sorted[0].path, "/workspace/a.ts");
+      assert.strictEqual(sorted[2].path, "/workspace/b.ts");
+    });
+
+    test("should not modify the input", () => {
+      sortSearchResults(results, "size");
+      assert.strictEqual(results[0].path, "/workspace/b.ts");
+    });
+  });
+
+  suite("Provider", () => {
+    let provider: SearchResultsTreeDataProvider;
+
+    setup(() => {
+      provider = new SearchResultsTreeDataProvider();
+    });
+
+    teardown(() => {
+      provider.dispose();
+    });
+
+    test("should list one item per result in sort order", async () => {
+      provider.setResults("ts", "name", results);
+      provider.setSortOrder("size");
+
+      const items = await provider.getChildren();
+      assert.strictEqual(items.length, 3);
+      assert.strictEqual(items[0].result.path, "/workspace/c.json");
+      assert.strictEqual(provider.getQuery(), "ts");
+    });
+
+    test("should clear results", async () => {
+      provider.setResults("ts", "name", results);
+      provider.clear();
+
+      const items = await provider.getChildren();
+      assert.strictEqual(items.length, 0);
+    });
+
+    test("should return no previews for unreadable files", async () => {
+      provider.setResults("needle", "content", [
+        { ...results[0], path: "/nonexistent/file.ts" },
+      ]);
+
+      const [item] = await provider.getChildren();
+      const matches = await provider.getChildren(item);
+      assert.strictEqual(matches.length, 0);
+    });
+  });
+
+  suite("Helpers", () => {
+    test("findMatchingLines should match case-insensitively", () => {
+      const matches = findMatchingLines(
+        "first line\nTODO: fix\nlast todo\n",
+        "todo",
+        10
+      );
+      assert.deepStrictEqual(matches, [
+        { line: 1, text: "TODO: fix" },
+        { line: 2, text: "last todo" },
+      ]);
+    });
+
+    test("findMatchingLines should respect the match limit", () => {
+      const matches = findMatchingLines("a\na\na\na", "a", 2);
+      assert.strictEqual(matches.length, 2);
+    });
+
+    test("parseFileTypes should normalize extensions", () => {
+      assert.deepStrictEqual(parseFileTypes("ts, .json, *.md,,"), [
+        ".ts",
+        ".json",
+        ".md",
+      ]);
+    });
+
+    test("parseSize should understand units", () => {
+      assert.strictEqual(parseSize("512"), 512);
+      assert.strictEqual(parseSize("10KB"), 10240);
+      assert.strictEqual(parseSize("1.5 mb"), 1572864);
+      assert.strictEqual(parseSize("lots"), undefined);
+    });
+
+    test("parseSizeRange should allow open bounds", () => {
+      assert.deepStrictEqual(parseSizeRange("1KB-2KB"), {
+        minSize: 1024,
+        maxSize: 2048,
+      });
+      assert.deepStrictEqual(parseSizeRange("-1KB"), { maxSize: 1024 });
+      assert.deepStrictEqual(parseSizeRange("1KB-"), { minSize: 1024 });
+      assert.strictEqual(parseSizeRange("big-"), undefined);
+    });
+  });
+});
@@ -314,6 +314,9 @@ suite("Settings Manager Property-Based Tests", () => {
             security: testSettings.security || currentSettings.security,
             operations: testSettings.operations || currentSettings.operations,
             ui: testSettings.ui || currentSettings.ui,
+            history: testSettings.history || currentSettings.history,
+            undo: testSettings.undo || currentSettings.undo,
+            audit: testSettings.audit || currentSettings.audit,
           };
 
           // Property: Invalid settings should be rejected by validation
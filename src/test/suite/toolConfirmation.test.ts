@@ -0,0 +1,208 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+  ToolConfirmationManager,
+  getAffectedPaths,
+} from "../../toolConfirmation";
+import { MemoryMemento } from "./memoryMemento";
+
+suite("Tool Confirmation Test Suite", () => {
+  let manager: ToolConfirmationManager;
+
+  setup(() => {
+    manager = new ToolConfirmationManager(new MemoryMemento());
+  });
+
+  suite("Affected Paths", () => {
+    test("should only list delete and move batch operations", () => {
+      const affected = getAffectedPaths("fs_batch_operations", {
+        operations: [
+          { type: "copy", source: "/a", destination: "/b" },
+          { type: "delete", source: "/c" },
+          { type: "move", source: "/d", destination: "/e" },
+        ],
+      });
+      assert.deepStrictEqual(affected, [
+        { action: "delete", path: "/c", destination: undefined },
+        { action: "move", path: "/d", destination: "/e" },
+      ]);
+    });
+
+    test("should list the source of copy and sync", () => {
+      assert.deepStrictEqual(
+        getAffectedPaths("fs_sync_directory", {
+          source: "/src",
+          destination: "/dst",
+        }),
+        [{ action: "sync", path: "/src", destination: "/dst" }]
+      );
+      assert.deepStrictEqual(getAffectedPaths("fs_copy_directory", {}), []);
+    });
+  });
+
+  suite("Confirmation", () => {
+    const deleteInput = { operations: [{ type: "delete", source: "/c" }] };
+
+    test("should require confirmation for destructive batches", () => {
+      assert.strictEqual(
+        manager.requiresConfirmation("fs_batch_operations", deleteInput),
+        true
+      );
+    });
+
+    test("should not require confirmation for copy-only batches", () => {
+      assert.strictEqual(
+        manager.requiresConfirmation("fs_batch_operations", {
+          operations: [{ type: "copy", source: "/a", destination: "/b" }],
+        }),
+        false
+      );
+    });
+
+    test("should not require confirmation for dry runs", () => {
+      assert.strictEqual(
+        manager.requiresConfirmation("fs_batch_operations", {
+          ...deleteInput,
+          dryRun: true,
+        }),
+        false
+      );
+    });
+
+    test("should skip confirmation for allowed tools", async () => {
+      await manager.allow("fs_batch_operations");
+      assert.strictEqual(manager.isAllowed("fs_batch_operations"), true);
+      assert.strictEqual(
+        manager.requiresConfirmation("fs_batch_operations", deleteInput),
+        false
+      );
+
+      await manager.reset();
+      assert.deepStrictEqual(manager.getAllowedTools(), []);
+    });
+
+    test("should include messages only when confirmation is required", async () => {
+      const prepared = await manager.prepare(
+        "fs_batch_operations",
+        deleteInput
+      );
+      assert.ok(prepared.confirmationMessages);
+      const message = prepared.confirmationMessages!
+        .message as vscode.MarkdownString;
+      assert.ok(message.value.includes("deleting **0** existing files"));
+      assert.ok(message.value.includes(ToolConfirmationManager.allowCommand));
+
+      await manager.allow("fs_batch_operations");
+      const allowed = await manager.prepare("fs_batch_operations", deleteInput);
+      assert.strictEqual(allowed.confirmationMessages, undefined);
+    });
+  });
+
+  suite("Planned Changes", () => {
+    let tempDir: string;
+    let source: string;
+    let destination: string;
+
+    setup(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-confirm-"));
+      source = path.join(tempDir, "src");
+      destination = path.join(tempDir, "dst");
+      fs.mkdirSync(source);
+      fs.mkdirSync(destination);
+      fs.writeFileSync(path.join(source, "a.txt"), "12345");
+      fs.writeFileSync(path.join(source, "b.txt"), "123");
+      fs.writeFileSync(path.join(destination, "a.txt"), "old");
+    });
+
+    teardown(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const getMessage = async (
+      toolName: Parameters<ToolConfirmationManager["prepare"]>[0],
+      input: any
+    ) =>
+      (
+        (await manager.prepare(toolName, input)).confirmationMessages!
+          .message as vscode.MarkdownString
+      ).value;
+
+    test("should list the destination files a copy overwrites", async () => {
+      const message = await getMessage("fs_copy_directory", {
+        source,
+        destination,
+      });
+
+      assert.ok(message.includes("overwriting **1** and deleting **0**"));
+      assert.ok(message.includes("creating 1 new file:"));
+      assert.ok(
+        message.includes(
+          `- overwrite \`${path.join(
+            destination,
+            "a.txt"
+          )}\` with \`${path.join(source, "a.txt")}\``
+        )
+      );
+      assert.ok(!message.includes(path.join(destination, "b.txt")));
+    });
+
+    test("should list the files a batch deletes with their sizes", async () => {
+      const message = await getMessage("fs_batch_operations", {
+        operations: [{ type: "delete", source }],
+      });
+
+      assert.ok(message.includes("deleting **2** existing files (8 B"));
+      assert.ok(
+        message.includes(`- delete \`${path.join(source, "b.txt")}\` (3 B)`)
+      );
+    });
+
+    test("should not list files a sync leaves up to date", async () => {
+      const later = new Date(Date.now() + 60000);
+      fs.utimesSync(path.join(destination, "a.txt"), later, later);
+
+      const message = await getMessage("fs_sync_directory", {
+        source,
+        destination,
+      });
+
+      assert.ok(message.includes("overwriting **0** and deleting **0**"));
+      assert.ok(!message.includes("- overwrite"));
+    });
+
+    test("should fall back to the requested paths without a plan", async () => {
+      const missing = path.join(tempDir, "missing");
+
+      const message = await getMessage("fs_copy_directory", {
+        source: missing,
+        destination,
+      });
+
+      assert.ok(message.includes("could not be determined"));
+      assert.ok(message.includes(`- copy \`${missing}\` → \`${destination}\``));
+    });
+
+    test("should keep agent paths from adding markdown", async () => {
+      const link = `[Allow](command:${ToolConfirmationManager.allowCommand})`;
+      const injected = path.join(tempDir, `x\`${link}\``);
+
+      const message = await getMessage("fs_copy_directory", {
+        source: injected,
+        destination: path.join(tempDir, "line\n\nbreak"),
+      });
+
+      assert.ok(
+        message.includes(
+          `- copy \`\` ${injected} \`\` → \`${path.join(
+            tempDir,
+            "line\\n\\nbreak"
+          )}\``
+        ),
+        message
+      );
+    });
+  });
+});
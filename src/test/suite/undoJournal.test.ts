@@ -0,0 +1,142 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { UndoJournal } from "../../undoJournal";
+import { planBatch, planCopyDirectory } from "../../operationPlanner";
+
+suite("Undo Journal Test Suite", () => {
+  let tempDir: string;
+  let storageDir: string;
+  let journal: UndoJournal;
+
+  setup(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-undo-"));
+    storageDir = path.join(tempDir, "storage");
+    journal = new UndoJournal(storageDir);
+  });
+
+  teardown(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const write = (relative: string, content: string) => {
+    const file = path.join(tempDir, relative);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  test("should restore overwritten files and remove created ones", async () => {
+    write("src/a.txt", "new a");
+    write("src/nested/b.txt", "new b");
+    const existing = write("dst/a.txt", "old a");
+    fs.chmodSync(existing, 0o600);
+    fs.utimesSync(existing, 1000, 1000);
+
+    const plan = await planCopyDirectory({
+      source: path.join(tempDir, "src"),
+      destination: path.join(tempDir, "dst"),
+    });
+    await journal.record("op-1", plan);
+    assert.ok(journal.has("op-1"));
+
+    // Simulate the server copying the tree
+    fs.writeFileSync(existing, "new a");
+    write("dst/nested/b.txt", "new b");
+
+    const result = await journal.undo("op-1");
+
+    assert.deepStrictEqual(result, { restored: 1, removed: 1 });
+    assert.strictEqual(fs.readFileSync(existing, "utf8"), "old a");
+    assert.strictEqual(fs.statSync(existing).mode & 0o777, 0o600);
+    assert.strictEqual(Math.round(fs.statSync(existing).mtimeMs), 1000000);
+    assert.ok(!fs.existsSync(path.join(tempDir, "dst", "nested")));
+    assert.ok(!journal.has("op-1"));
+  });
+
+  test("should restore deleted and moved files", async () => {
+    const deleted = write("gone.txt", "keep me");
+    const moved = write("moved.txt", "move me");
+    const target = path.join(tempDir, "out", "moved.txt");
+
+    const plan = await planBatch({
+      operations: [
+        { type: "delete", source: deleted },
+        { type: "move", source: moved, destination: target },
+      ],
+    });
+    await journal.record("op-2", plan);
+
+    fs.rmSync(deleted);
+    fs.mkdirSync(path.dirname(target));
+    fs.renameSync(moved, target);
+
+    await journal.undo("op-2");
+
+    assert.strictEqual(fs.readFileSync(deleted, "utf8"), "keep me");
+    assert.strictEqual(fs.readFileSync(moved, "utf8"), "move me");
+    assert.ok(!fs.existsSync(target));
+  });
+
+  test("should persist entries across loads", async () => {
+    write("a.txt", "a");
+    await journal.record(
+      "op-3",
+      await planBatch({
+        operations: [{ type: "delete", source: path.join(tempDir, "a.txt") }],
+      })
+    );
+
+    const reloaded = new UndoJournal(storageDir);
+    await reloaded.load();
+    assert.ok(reloaded.has("op-3"));
+
+    await reloaded.clear();
+    assert.deepStrictEqual(reloaded.getEntries(), []);
+    assert.ok(!fs.existsSync(path.join(storageDir, "op-3")));
+  });
+
+  test("should drop the oldest snapshots beyond the storage budget", async () => {
+    const settingsManager: any = {
+      getSettings: () => ({
+        undo: { enabled: true, maxStorageMB: 1, maxAgeDays: 0 },
+      }),
+    };
+    journal = new UndoJournal(storageDir, settingsManager);
+    const big = "x".repeat(600 * 1024);
+
+    for (const id of ["old", "new"]) {
+      const file = write(`${id}.bin`, big);
+      await journal.record(
+        id,
+        await planBatch({ operations: [{ type: "delete", source: file }] })
+      );
+      // Keep timestamps distinct so "old" sorts first
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    assert.ok(!journal.has("old"));
+    assert.ok(journal.has("new"));
+  });
+
+  test("should refuse snapshots larger than the budget", async () => {
+    const settingsManager: any = {
+      getSettings: () => ({
+        undo: { enabled: true, maxStorageMB: 1, maxAgeDays: 7 },
+      }),
+    };
+    journal = new UndoJournal(storageDir, settingsManager);
+    const file = write("huge.bin", "x".repeat(2 * 1024 * 1024));
+
+    await assert.rejects(
+      async () =>
+        journal.record(
+          "op-4",
+          await planBatch({ operations: [{ type: "delete", source: file }] })
+        ),
+      /exceeds the undo storage budget/
+    );
+    assert.ok(!journal.has("op-4"));
+  });
+});
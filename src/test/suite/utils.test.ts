@@ -0,0 +1,53 @@
+import * as assert from "assert";
+import * as path from "path";
+import { escapeHtml, extractPaths, formatBytes } from "../../utils";
+
+suite("Utils Test Suite", () => {
+  test("escapeHtml should escape markup", () => {
+    assert.strictEqual(
+      escapeHtml(`<a href="x">'&'</a>`),
+      "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;"
+    );
+  });
+
+  test("formatBytes should pick a readable unit", () => {
+    assert.strictEqual(formatBytes(100), "100 B");
+    assert.strictEqual(formatBytes(2048), "2.0 KB");
+    assert.strictEqual(formatBytes(5 * 1024 * 1024), "5.0 MB");
+  });
+
+  suite("Path Extraction", () => {
+    const root = path.resolve("/workspace");
+
+    test("should collect absolute paths from nested results", () => {
+      const paths = extractPaths({
+        status: "success",
+        results: [
+          { path: path.join(root, "a.ts"), size: 1 },
+          { path: path.join(root, "b.ts"), size: 2 },
+        ],
+        largestDirectories: [{ path: path.join(root, "dist"), size: 3 }],
+      });
+      assert.deepStrictEqual(paths, [
+        path.join(root, "a.ts"),
+        path.join(root, "b.ts"),
+        path.join(root, "dist"),
+      ]);
+    });
+
+    test("should ignore relative paths and unrelated keys", () => {
+      const paths = extractPaths({
+        path: "relative/file.ts",
+        checksum: path.join(root, "not-a-path-key"),
+        linkPath: path.join(root, "link"),
+      });
+      assert.deepStrictEqual(paths, [path.join(root, "link")]);
+    });
+
+    test("should not repeat paths", () => {
+      const file = path.join(root, "a.ts");
+      const paths = extractPaths([{ source: file }, { destination: file }]);
+      assert.deepStrictEqual(paths, [file]);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import * as assert from "assert";
+import * as path from "path";
+import {
+  VariableContext,
+  expandVariables,
+  getUnresolvedVariables,
+} from "../../variableResolver";
+
+suite("Variable Resolver Test Suite", () => {
+  const home = path.join(path.sep, "home", "dev");
+  const api = path.join(path.sep, "repo", "api");
+  const web = path.join(path.sep, "repo", "web");
+  let context: VariableContext;
+
+  setup(() => {
+    context = {
+      workspaceFolder: api,
+      workspaceFolders: [
+        { name: "api", path: api },
+        { name: "web", path: web },
+      ],
+      userHome: home,
+      env: { DATA_DIR: "/data" },
+    };
+  });
+
+  test("Should expand the current workspace folder", () => {
+    assert.strictEqual(
+      expandVariables("${workspaceFolder}/src", context),
+      `${api}/src`
+    );
+    assert.strictEqual(
+      expandVariables("${workspaceFolderBasename}", context),
+      "api"
+    );
+  });
+
+  test("Should expand named workspace folders", () => {
+    assert.strictEqual(
+      expandVariables("${workspaceFolder:web}/public", context),
+      `${web}/public`
+    );
+    assert.strictEqual(
+      expandVariables("${workspaceFolder:missing}", context),
+      "${workspaceFolder:missing}"
+    );
+  });
+
+  test("Should expand the user home and a leading tilde", () => {
+    assert.strictEqual(
+      expandVariables("${userHome}/.ssh", context),
+      `${home}/.ssh`
+    );
+    assert.strictEqual(expandVariables("~/.aws", context), `${home}/.aws`);
+    assert.strictEqual(expandVariables("~", context), home);
+    assert.strictEqual(expandVariables("a/~b", context), "a/~b");
+  });
+
+  test("Should expand environment variables", () => {
+    assert.strictEqual(
+      expandVariables("${env:DATA_DIR}/cache", context),
+      "/data/cache"
+    );
+    assert.strictEqual(expandVariables("${env:UNSET}", context), "");
+  });
+
+  test("Should leave unresolvable variables in place", () => {
+    context.workspaceFolder = undefined;
+    const value = expandVariables("${workspaceFolder}/${unknown}", context);
+
+    assert.strictEqual(value, "${workspaceFolder}/${unknown}");
+    assert.deepStrictEqual(getUnresolvedVariables(value), [
+      "${workspaceFolder}",
+      "${unknown}",
+    ]);
+    assert.deepStrictEqual(getUnresolvedVariables(`${api}/src`), []);
+  });
+});
@@ -0,0 +1,66 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { MCPFilesystemClient } from "../../mcpClient";
+import { WatchSessionMonitor } from "../../watchSessionMonitor";
+
+suite("Watch Session Monitor Test Suite", () => {
+  let outputChannel: vscode.LogOutputChannel;
+  let client: MCPFilesystemClient;
+  let monitor: WatchSessionMonitor;
+
+  setup(() => {
+    outputChannel = vscode.window.createOutputChannel(
+      "Test Watch Session Monitor",
+      { log: true }
+    );
+    client = new MCPFilesystemClient(outputChannel);
+    monitor = new WatchSessionMonitor();
+  });
+
+  teardown(() => {
+    monitor.dispose();
+    client.stop();
+    outputChannel.dispose();
+  });
+
+  test("formatEvent should include timestamp, type and path", () => {
+    const line = WatchSessionMonitor.formatEvent({
+      type: "create",
+      path: "/workspace/a.ts",
+      timestamp: "2024-01-01T00:00:00.000Z",
+    });
+
+    assert.strictEqual(
+      line,
+      "[2024-01-01T00:00:00.000Z] CREATE /workspace/a.ts"
+    );
+  });
+
+  test("formatEvent should show both paths for renames", () => {
+    const line = WatchSessionMonitor.formatEvent({
+      type: "rename",
+      path: "/workspace/b.ts",
+      oldPath: "/workspace/a.ts",
+      timestamp: "2024-01-01T00:00:00.000Z",
+    });
+
+    assert.ok(line.includes("RENAME"));
+    assert.ok(line.includes("/workspace/a.ts -> /workspace/b.ts"));
+  });
+
+  test("should accept and release a client", () => {
+    assert.doesNotThrow(() => {
+      monitor.setMCPClient(client);
+      monitor.setMCPClient(undefined);
+    });
+  });
+
+  test("should show a session and survive its stop", async () => {
+    monitor.setMCPClient(client);
+    const sessionId = client.recordWatchSession("/workspace", true);
+    const session = client.getWatchSessions()[0];
+
+    assert.doesNotThrow(() => monitor.showSession(session));
+    await client.stopWatch(sessionId);
+  });
+});
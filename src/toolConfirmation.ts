@@ -0,0 +1,281 @@
+import * as vscode from "vscode";
+import { BatchOperation } from "./mcpClient";
+import {
+  OperationPlan,
+  planBatch,
+  planCopyDirectory,
+  planSyncDirectory,
+} from "./operationPlanner";
+import { SettingsManager } from "./settingsManager";
+import { formatBytes } from "./utils";
+
+/**
+ * Tools that change or remove files and need confirmation
+ */
+export const destructiveTools = [
+  "fs_batch_operations",
+  "fs_sync_directory",
+  "fs_copy_directory",
+] as const;
+
+export type DestructiveTool = (typeof destructiveTools)[number];
+
+/**
+ * Path affected by a tool invocation
+ */
+export interface AffectedPath {
+  action: string;
+  path: string;
+  destination?: string;
+}
+
+/**
+ * Tool Confirmation Manager
+ * Builds confirmation prompts for destructive language model tools and
+ * remembers tools the user has allowed for the workspace
+ */
+export class ToolConfirmationManager {
+  static readonly storageKey = "mcp-filesystem.allowedTools";
+  static readonly allowCommand = "mcp-filesystem.allowToolForWorkspace";
+  private readonly maxListedPaths = 20;
+  private readonly storage: vscode.Memento;
+  private readonly settingsManager?: SettingsManager;
+
+  /**
+   * Create a new Tool Confirmation Manager
+   * @param storage - Memento holding the allowed tools (usually workspaceState)
+   * @param settingsManager - Optional settings manager for ui.confirmDangerousOperations
+   */
+  constructor(storage: vscode.Memento, settingsManager?: SettingsManager) {
+    this.storage = storage;
+    this.settingsManager = settingsManager;
+  }
+
+  /**
+   * Check whether a tool runs without confirmation in this workspace
+   */
+  isAllowed(toolName: string): boolean {
+    return this.getAllowedTools().includes(toolName);
+  }
+
+  /**
+   * Stop asking for confirmation of a tool in this workspace
+   */
+  async allow(toolName: string): Promise<void> {
+    if (!this.isAllowed(toolName)) {
+      await this.storage.update(ToolConfirmationManager.storageKey, [
+        ...this.getAllowedTools(),
+        toolName,
+      ]);
+    }
+  }
+
+  /**
+   * Ask for confirmation of every destructive tool again
+   */
+  async reset(): Promise<void> {
+    await this.storage.update(ToolConfirmationManager.storageKey, undefined);
+  }
+
+  /**
+   * Get the tools allowed for this workspace
+   */
+  getAllowedTools(): string[] {
+    return this.storage.get<string[]>(ToolConfirmationManager.storageKey, []);
+  }
+
+  /**
+   * Check whether an invocation needs confirmation
+   * Dry runs and batches that only copy files do not; delete and move
+   * always do
+   */
+  requiresConfirmation(toolName: DestructiveTool, input: any): boolean {
+    const confirm =
+      this.settingsManager?.getSettings().ui.confirmDangerousOperations ?? true;
+    if (!confirm || input?.dryRun || this.isAllowed(toolName)) {
+      return false;
+    }
+    return getAffectedPaths(toolName, input).length > 0;
+  }
+
+  /**
+   * Prepare a tool invocation, adding confirmation messages when needed
+   */
+  async prepare(
+    toolName: DestructiveTool,
+    input: any
+  ): Promise<vscode.PreparedToolInvocation> {
+    const affected = getAffectedPaths(toolName, input);
+    const invocationMessage = `${getToolTitle(toolName)} (${
+      affected.length
+    } path${affected.length === 1 ? "" : "s"})`;
+
+    if (!this.requiresConfirmation(toolName, input)) {
+      return { invocationMessage };
+    }
+
+    // A source that cannot be read still gets a prompt, without the plan
+    const plan = await planOperation(toolName, input).catch(() => undefined);
+
+    return {
+      invocationMessage,
+      confirmationMessages: {
+        title: `${getToolTitle(toolName)}?`,
+        message: getConfirmationMarkdown(
+          toolName,
+          affected,
+          plan,
+          this.maxListedPaths
+        ),
+      },
+    };
+  }
+}
+
+/**
+ * Get the paths a destructive tool invocation changes or removes
+ */
+export function getAffectedPaths(
+  toolName: DestructiveTool,
+  input: any
+): AffectedPath[] {
+  switch (toolName) {
+    case "fs_batch_operations":
+      return ((input?.operations ?? []) as BatchOperation[])
+        .filter((op) => op.type === "delete" || op.type === "move")
+        .map((op) => ({
+          action: op.type,
+          path: op.source,
+          destination: op.destination,
+        }));
+    case "fs_sync_directory":
+    case "fs_copy_directory":
+      return input?.source
+        ? [
+            {
+              action: toolName === "fs_sync_directory" ? "sync" : "copy",
+              path: input.source,
+              destination: input.destination,
+            },
+          ]
+        : [];
+  }
+}
+
+/**
+ * Plan the files a destructive tool invocation writes and deletes
+ */
+export function planOperation(
+  toolName: DestructiveTool,
+  input: any
+): Promise<OperationPlan> {
+  switch (toolName) {
+    case "fs_batch_operations":
+      return planBatch({ operations: input?.operations ?? [] });
+    case "fs_copy_directory":
+      return planCopyDirectory(input);
+    case "fs_sync_directory":
+      return planSyncDirectory(input);
+  }
+}
+
+/**
+ * Build the confirmation message listing the existing files the invocation
+ * overwrites or deletes
+ * @param plan - The operation's plan, or undefined if it could not be planned
+ */
+export function getConfirmationMarkdown(
+  toolName: DestructiveTool,
+  affected: AffectedPath[],
+  plan: OperationPlan | undefined,
+  maxListedPaths: number
+): vscode.MarkdownString {
+  const message = new vscode.MarkdownString();
+  const title = getToolTitle(toolName).toLowerCase();
+
+  if (plan) {
+    const { overwrite, create, bytesDeleted } = plan.totals;
+    const changed = plan.entries.filter(
+      (entry) => entry.action === "overwrite" || entry.action === "delete"
+    );
+    message.appendMarkdown(
+      `This will ${title}, overwriting **${overwrite}** and deleting **${
+        plan.totals.delete
+      }** existing files (${formatBytes(
+        bytesDeleted
+      )} deleted) and creating ${create} new file${create === 1 ? "" : "s"}${
+        changed.length > 0 ? ":" : "."
+      }\n\n`
+    );
+    changed.slice(0, maxListedPaths).forEach((entry) => {
+      message.appendMarkdown(
+        `- ${entry.action} ${formatCodeSpan(entry.path)}${
+          entry.action === "delete"
+            ? ` (${formatBytes(entry.size)})`
+            : ` with ${formatCodeSpan(entry.source ?? "")}`
+        }\n`
+      );
+    });
+    if (changed.length > maxListedPaths) {
+      message.appendMarkdown(
+        `- …and ${changed.length - maxListedPaths} more\n`
+      );
+    }
+  } else {
+    message.appendMarkdown(
+      `This will ${title} affecting **${affected.length}** path${
+        affected.length === 1 ? "" : "s"
+      }; the files it changes could not be determined:\n\n`
+    );
+    affected.slice(0, maxListedPaths).forEach((entry) => {
+      message.appendMarkdown(
+        `- ${entry.action} ${formatCodeSpan(entry.path)}${
+          entry.destination ? ` → ${formatCodeSpan(entry.destination)}` : ""
+        }\n`
+      );
+    });
+    if (affected.length > maxListedPaths) {
+      message.appendMarkdown(
+        `- …and ${affected.length - maxListedPaths} more\n`
+      );
+    }
+  }
+
+  const args = encodeURIComponent(JSON.stringify([toolName]));
+  message.appendMarkdown(
+    `\n[Always allow for this workspace](command:${ToolConfirmationManager.allowCommand}?${args})`
+  );
+  message.isTrusted = {
+    enabledCommands: [ToolConfirmationManager.allowCommand],
+  };
+
+  return message;
+}
+
+/**
+ * Quote an agent-supplied path as a markdown code span
+ * The fence is longer than any run of backticks in the path and line breaks
+ * are shown escaped, so the path cannot close the span and add markdown,
+ * such as a link to the trusted allow command
+ */
+function formatCodeSpan(text: string): string {
+  const value = text.replace(/\r\n|\r|\n/g, "\\n");
+  const longestRun = Math.max(
+    0,
+    ...(value.match(/`+/g) ?? []).map((run) => run.length)
+  );
+  const fence = "`".repeat(longestRun + 1);
+  const padding = /^`|`$/.test(value) ? " " : "";
+  return `${fence}${padding}${value}${padding}${fence}`;
+}
+
+function getToolTitle(toolName: DestructiveTool): string {
+  switch (toolName) {
+    case "fs_batch_operations":
+      return "Run batch file operations";
+    case "fs_sync_directory":
+      return "Sync directory";
+    case "fs_copy_directory":
+      return "Copy directory";
+  }
+}
@@ -0,0 +1,312 @@
+import * as fs from "fs";
+import * as path from "path";
+import { OperationPlan } from "./operationPlanner";
+import { SettingsManager, UndoSettings } from "./settingsManager";
+
+/**
+ * Snapshot of a file that an operation overwrites or deletes
+ */
+export interface SnapshotFile {
+  path: string;
+  snapshot: string;
+  size: number;
+  mode: number;
+  atimeMs: number;
+  mtimeMs: number;
+}
+
+/**
+ * Everything needed to reverse one operation
+ */
+export interface JournalEntry {
+  operationId: string;
+  timestamp: string;
+  files: SnapshotFile[];
+  created: string[];
+  createdDirectories: string[];
+  size: number;
+}
+
+/**
+ * Outcome of undoing an operation
+ */
+export interface UndoResult {
+  restored: number;
+  removed: number;
+}
+
+/**
+ * Undo Journal
+ * Snapshots files before batch, copy and sync operations change them, so the
+ * operation can be reversed later. Snapshots live in extension storage and
+ * are pruned by the configured storage budget and age limit
+ */
+export class UndoJournal {
+  static readonly indexFileName = "journal.json";
+  private entries = new Map<string, JournalEntry>();
+  private readonly storageDir: string;
+  private readonly settingsManager?: SettingsManager;
+
+  /**
+   * Create a new Undo Journal
+   * @param storageDir - Directory holding the index and snapshots
+   * @param settingsManager - Optional settings manager for undo limits
+   */
+  constructor(storageDir: string, settingsManager?: SettingsManager) {
+    this.storageDir = storageDir;
+    this.settingsManager = settingsManager;
+  }
+
+  /**
+   * Load the journal index from storage
+   */
+  async load(): Promise<void> {
+    try {
+      const text = await fs.promises.readFile(this.getIndexPath(), "utf8");
+      const entries: JournalEntry[] = JSON.parse(text);
+      this.entries = new Map(
+        entries.map((entry) => [entry.operationId, entry])
+      );
+    } catch {
+      this.entries.clear();
+    }
+    await this.prune();
+  }
+
+  /**
+   * Check whether new operations should be journaled
+   */
+  isEnabled(): boolean {
+    return this.getUndoSettings().enabled;
+  }
+
+  /**
+   * Check whether an operation can be undone
+   */
+  has(operationId: string): boolean {
+    return this.entries.has(operationId);
+  }
+
+  /**
+   * Get journal entries, newest first
+   */
+  getEntries(): JournalEntry[] {
+    return Array.from(this.entries.values()).sort((a, b) =>
+      b.timestamp.localeCompare(a.timestamp)
+    );
+  }
+
+  /**
+   * Snapshot the files an operation is about to overwrite or delete
+   * @param operationId - Operation being journaled
+   * @param plan - Dry-run plan of the operation
+   * @throws If the snapshots would exceed the storage budget
+   */
+  async record(
+    operationId: string,
+    plan: OperationPlan
+  ): Promise<JournalEntry> {
+    const affected = new Set<string>();
+    const created = new Set<string>();
+    for (const entry of plan.entries) {
+      if (entry.action === "overwrite" || entry.action === "delete") {
+        affected.add(entry.path);
+      } else if (entry.action === "create") {
+        created.add(entry.path);
+      }
+    }
+
+    const budget = this.getBudgetBytes();
+    const stats = await Promise.all(
+      Array.from(affected).map(async (file) => ({
+        file,
+        stats: await fs.promises.lstat(file),
+      }))
+    );
+    const size = stats.reduce((sum, { stats }) => sum + stats.size, 0);
+    if (size > budget) {
+      throw new Error(
+        `Snapshot of ${affected.size} files (${size} bytes) exceeds the undo storage budget`
+      );
+    }
+
+    const entryDir = path.join(this.storageDir, operationId);
+    await fs.promises.mkdir(entryDir, { recursive: true });
+
+    const files: SnapshotFile[] = [];
+    for (const [index, { file, stats: fileStats }] of stats.entries()) {
+      const snapshot = path.join(entryDir, String(index));
+      await fs.promises.copyFile(file, snapshot);
+      files.push({
+        path: file,
+        snapshot,
+        size: fileStats.size,
+        mode: fileStats.mode,
+        atimeMs: fileStats.atimeMs,
+        mtimeMs: fileStats.mtimeMs,
+      });
+    }
+
+    const entry: JournalEntry = {
+      operationId,
+      timestamp: new Date().toISOString(),
+      files,
+      created: Array.from(created),
+      createdDirectories: getMissingDirectories(Array.from(created)),
+      size,
+    };
+    this.entries.set(operationId, entry);
+    await this.prune();
+    return entry;
+  }
+
+  /**
+   * Reverse an operation: remove the files it created and restore the
+   * files it overwrote or deleted
+   */
+  async undo(operationId: string): Promise<UndoResult> {
+    const entry = this.entries.get(operationId);
+    if (!entry) {
+      throw new Error(`No undo snapshot for operation ${operationId}`);
+    }
+
+    const result: UndoResult = { restored: 0, removed: 0 };
+    const restoring = new Set(entry.files.map((file) => file.path));
+
+    for (const file of entry.created) {
+      if (!restoring.has(file) && fs.existsSync(file)) {
+        await fs.promises.rm(file, { force: true });
+        result.removed++;
+      }
+    }
+
+    for (const file of entry.files) {
+      await fs.promises.mkdir(path.dirname(file.path), { recursive: true });
+      await fs.promises.copyFile(file.snapshot, file.path);
+      await fs.promises.chmod(file.path, file.mode & 0o7777);
+      await fs.promises.utimes(
+        file.path,
+        file.atimeMs / 1000,
+        file.mtimeMs / 1000
+      );
+      result.restored++;
+    }
+
+    // Deepest first so emptied parents can be removed too
+    const directories = [...entry.createdDirectories].sort(
+      (a, b) => b.length - a.length
+    );
+    for (const dir of directories) {
+      try {
+        await fs.promises.rmdir(dir);
+      } catch {
+        // Not empty or already gone; leave it
+      }
+    }
+
+    await this.discard(operationId);
+    return result;
+  }
+
+  /**
+   * Drop an operation's snapshots
+   */
+  async discard(operationId: string): Promise<void> {
+    this.entries.delete(operationId);
+    await fs.promises.rm(path.join(this.storageDir, operationId), {
+      recursive: true,
+      force: true,
+    });
+    await this.save();
+  }
+
+  /**
+   * Drop every snapshot
+   */
+  async clear(): Promise<void> {
+    for (const operationId of Array.from(this.entries.keys())) {
+      await fs.promises.rm(path.join(this.storageDir, operationId), {
+        recursive: true,
+        force: true,
+      });
+    }
+    this.entries.clear();
+    await this.save();
+  }
+
+  /**
+   * Drop snapshots beyond the age limit, then the oldest ones until the
+   * journal fits the storage budget
+   */
+  async prune(): Promise<void> {
+    const { maxAgeDays } = this.getUndoSettings();
+    const cutoff =
+      maxAgeDays > 0 ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+    const budget = this.getBudgetBytes();
+
+    let total = 0;
+    const expired: string[] = [];
+    for (const entry of this.getEntries()) {
+      if (Date.parse(entry.timestamp) < cutoff) {
+        expired.push(entry.operationId);
+        continue;
+      }
+      total += entry.size;
+      if (total > budget) {
+        expired.push(entry.operationId);
+      }
+    }
+
+    for (const operationId of expired) {
+      this.entries.delete(operationId);
+      await fs.promises.rm(path.join(this.storageDir, operationId), {
+        recursive: true,
+        force: true,
+      });
+    }
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    await fs.promises.mkdir(this.storageDir, { recursive: true });
+    await fs.promises.writeFile(
+      this.getIndexPath(),
+      JSON.stringify(this.getEntries())
+    );
+  }
+
+  private getIndexPath(): string {
+    return path.join(this.storageDir, UndoJournal.indexFileName);
+  }
+
+  private getBudgetBytes(): number {
+    return this.getUndoSettings().maxStorageMB * 1024 * 1024;
+  }
+
+  private getUndoSettings(): UndoSettings {
+    if (this.settingsManager) {
+      return this.settingsManager.getSettings().undo;
+    }
+    return { enabled: true, maxStorageMB: 100, maxAgeDays: 7 };
+  }
+}
+
+/**
+ * Find the directories that do not exist yet and would be created to hold
+ * the given files
+ */
+function getMissingDirectories(files: string[]): string[] {
+  const missing = new Set<string>();
+  for (const file of files) {
+    let dir = path.dirname(file);
+    while (!missing.has(dir) && !fs.existsSync(dir)) {
+      missing.add(dir);
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        break;
+      }
+      dir = parent;
+    }
+  }
+  return Array.from(missing);
+}
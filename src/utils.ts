@@ -0,0 +1,73 @@
+import * as path from "path";
+
+/**
+ * Helpers shared by the webviews, the chat participant, the audit log and
+ * the language server
+ */
+
+/**
+ * Argument and result keys that hold file paths
+ */
+const pathKeys = new Set([
+  "path",
+  "linkPath",
+  "targetPath",
+  "source",
+  "destination",
+  "oldPath",
+]);
+
+/**
+ * Escape text for inclusion in webview HTML
+ */
+export function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Collect absolute file paths from tool arguments or results
+ */
+export function extractPaths(value: unknown, found: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      extractPaths(item, found);
+    }
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      if (
+        pathKeys.has(key) &&
+        typeof child === "string" &&
+        path.isAbsolute(child)
+      ) {
+        if (!found.includes(child)) {
+          found.push(child);
+        }
+      } else {
+        extractPaths(child, found);
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  const units = ["KB", "MB", "GB", "TB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
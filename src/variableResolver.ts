@@ -0,0 +1,58 @@
+import * as path from "path";
+
+/**
+ * Values available to variables in settings
+ */
+export interface VariableContext {
+  /** Folder the setting applies to, for `${workspaceFolder}` */
+  workspaceFolder?: string;
+  /** Every workspace folder, for `${workspaceFolder:name}` */
+  workspaceFolders: Array<{ name: string; path: string }>;
+  userHome: string;
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * Expand `${workspaceFolder}`, `${workspaceFolder:name}`, `${userHome}`,
+ * `${env:VAR}` and a leading `~`
+ * Variables that cannot be resolved are left in place
+ */
+export function expandVariables(
+  value: string,
+  context: VariableContext
+): string {
+  const expanded = value.replace(
+    /\$\{([^}:]+)(?::([^}]*))?\}/g,
+    (match, name: string, argument?: string) => {
+      switch (name) {
+        case "workspaceFolder":
+          if (argument === undefined) {
+            return context.workspaceFolder ?? match;
+          }
+          return (
+            context.workspaceFolders.find((folder) => folder.name === argument)
+              ?.path ?? match
+          );
+        case "workspaceFolderBasename":
+          return context.workspaceFolder
+            ? path.basename(context.workspaceFolder)
+            : match;
+        case "userHome":
+          return context.userHome;
+        case "env":
+          return argument ? context.env[argument] ?? "" : match;
+        default:
+          return match;
+      }
+    }
+  );
+
+  return expanded.replace(/^~(?=$|[/\\])/, context.userHome);
+}
+
+/**
+ * Find the variables a value still contains after expansion
+ */
+export function getUnresolvedVariables(value: string): string[] {
+  return value.match(/\$\{[^}]*\}/g) ?? [];
+}
@@ -0,0 +1,101 @@
+import * as vscode from "vscode";
+import {
+  MCPFilesystemClient,
+  WatchEvent,
+  WatchEventsReceived,
+  WatchSession,
+} from "./mcpClient";
+
+/**
+ * Watch Session Monitor
+ * Streams events of each watch session into a dedicated output channel
+ */
+export class WatchSessionMonitor implements vscode.Disposable {
+  private readonly channels = new Map<string, vscode.OutputChannel>();
+  private clientSubscriptions: vscode.Disposable[] = [];
+
+  /**
+   * Set the MCP client instance
+   * @param client - The MCP filesystem client whose sessions are monitored
+   */
+  setMCPClient(client: MCPFilesystemClient | undefined): void {
+    this.disposeClientSubscriptions();
+
+    if (client) {
+      this.clientSubscriptions.push(
+        client.onDidReceiveWatchEvents((received) => this.onEvents(received)),
+        client.onDidStopWatchSession((session) => this.onStopped(session))
+      );
+    }
+  }
+
+  /**
+   * Reveal the output channel of a session
+   * @param session - The watch session to show
+   */
+  showSession(session: WatchSession): void {
+    this.getChannel(session).show(true);
+  }
+
+  /**
+   * Format a single watch event as an output line
+   */
+  static formatEvent(event: WatchEvent): string {
+    const timestamp = new Date(event.timestamp).toISOString();
+    const type = event.type.toUpperCase().padEnd(6);
+    const detail = event.oldPath
+      ? `${event.oldPath} -> ${event.path}`
+      : event.path;
+    return `[${timestamp}] ${type} ${detail}`;
+  }
+
+  private onEvents({ session, events }: WatchEventsReceived): void {
+    const channel = this.getChannel(session);
+    for (const event of events) {
+      channel.appendLine(WatchSessionMonitor.formatEvent(event));
+    }
+  }
+
+  private onStopped(session: WatchSession): void {
+    const channel = this.channels.get(session.id);
+    if (channel) {
+      channel.appendLine(
+        `[${new Date().toISOString()}] Watch stopped after ${
+          session.eventCount
+        } events`
+      );
+    }
+  }
+
+  private getChannel(session: WatchSession): vscode.OutputChannel {
+    let channel = this.channels.get(session.id);
+    if (!channel) {
+      channel = vscode.window.createOutputChannel(`MCP Watch: ${session.path}`);
+      channel.appendLine(
+        `Watching ${session.path} (recursive: ${session.recursive}, filters: ${
+          session.filters.join(", ") || "none"
+        })`
+      );
+      this.channels.set(session.id, channel);
+    }
+    return channel;
+  }
+
+  private disposeClientSubscriptions(): void {
+    for (const subscription of this.clientSubscriptions) {
+      subscription.dispose();
+    }
+    this.clientSubscriptions = [];
+  }
+
+  /**
+   * Dispose resources
+   */
+  dispose(): void {
+    this.disposeClientSubscriptions();
+    for (const channel of this.channels.values()) {
+      channel.dispose();
+    }
+    this.channels.clear();
+  }
+}